@@ -14,6 +14,14 @@ dotenv.config();
 // Initialize Express app
 const app = express();
 
+// Behind nginx, req.ip must come from X-Forwarded-For or every client shares
+// the proxy's address. TRUST_PROXY is the number of proxies in front
+const trustedProxies = parseInt(process.env.TRUST_PROXY || "", 10);
+app.set(
+  "trust proxy",
+  isNaN(trustedProxies) || trustedProxies < 0 ? 1 : trustedProxies
+);
+
 // Middleware - CORS configuration
 const corsOptions = {
   origin: function (
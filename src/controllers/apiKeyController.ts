@@ -0,0 +1,97 @@
+import { Response } from "express";
+import { ApiKeySerializer } from "../serializers/apiKeySerializer";
+import { ApiKeyService } from "../services/apiKeyService";
+import { AuthenticatedRequest } from "../types";
+import { logger } from "../utils/logger";
+import { ResponseUtil } from "../utils/response";
+
+export class ApiKeyController {
+  private apiKeyService: ApiKeyService;
+
+  constructor() {
+    this.apiKeyService = new ApiKeyService();
+  }
+
+  // POST /api/api-keys
+  createApiKey = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const { name, permissions, expiresInDays } = req.body;
+      const { apiKey, key } = await this.apiKeyService.createApiKey(
+        req.organizationId,
+        req.user.id,
+        { name, permissions, expiresInDays },
+        req.permissions || []
+      );
+
+      logger.info("API key created successfully", {
+        apiKeyId: apiKey.id,
+        userId: req.user.id,
+      });
+      return ResponseUtil.success(
+        res,
+        { apiKey: ApiKeySerializer.toPublic(apiKey), key },
+        "API key created successfully. Copy the key now, it will not be shown again",
+        201
+      );
+    } catch (error: any) {
+      logger.error("Create API key error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // GET /api/api-keys?includeRevoked=true
+  getApiKeys = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const apiKeys = await this.apiKeyService.getApiKeys(
+        req.organizationId,
+        req.query.includeRevoked === "true"
+      );
+
+      return ResponseUtil.success(
+        res,
+        { apiKeys: ApiKeySerializer.toPublicList(apiKeys) },
+        "API keys retrieved successfully"
+      );
+    } catch (error: any) {
+      logger.error("Get API keys error", { error: error.message });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  // DELETE /api/api-keys/:id
+  revokeApiKey = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const existing = await this.apiKeyService.getApiKeyById(req.params.id);
+      if (!existing || existing.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "API key not found");
+      }
+
+      const apiKey = await this.apiKeyService.revokeApiKey(existing.id);
+
+      logger.info("API key revoked successfully", {
+        apiKeyId: apiKey.id,
+        userId: req.user.id,
+      });
+      return ResponseUtil.success(
+        res,
+        { apiKey: ApiKeySerializer.toPublic(apiKey) },
+        "API key revoked successfully"
+      );
+    } catch (error: any) {
+      logger.error("Revoke API key error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+}
@@ -0,0 +1,88 @@
+import { Response } from "express";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  AuditLogService,
+} from "../services/auditLogService";
+import { AuditLogFilters, AuthenticatedRequest } from "../types";
+import { FieldVisibilityUtil } from "../utils/fieldVisibility";
+import { logger } from "../utils/logger";
+import { ResponseUtil } from "../utils/response";
+import { ValidationUtil } from "../utils/validation";
+
+export class AuditLogController {
+  private auditLogService: AuditLogService;
+
+  constructor() {
+    this.auditLogService = new AuditLogService();
+  }
+
+  // GET /api/audit-logs
+  getAuditLogs = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const { entityType, action, startDate, endDate } = req.query as {
+        entityType?: string;
+        action?: string;
+        startDate?: string;
+        endDate?: string;
+      };
+      if (
+        entityType &&
+        !(AUDIT_ENTITY_TYPES as readonly string[]).includes(entityType)
+      ) {
+        return ResponseUtil.badRequest(
+          res,
+          `Entity type must be one of: ${AUDIT_ENTITY_TYPES.join(", ")}`
+        );
+      }
+      if (action && !(AUDIT_ACTIONS as readonly string[]).includes(action)) {
+        return ResponseUtil.badRequest(
+          res,
+          `Action must be one of: ${AUDIT_ACTIONS.join(", ")}`
+        );
+      }
+      const dateValidation = ValidationUtil.validateDateRange(
+        startDate,
+        endDate
+      );
+      if (!dateValidation.isValid) {
+        return ResponseUtil.badRequest(res, dateValidation.message);
+      }
+
+      const filters: AuditLogFilters = {
+        page: req.query.page ? parseInt(req.query.page as string) : 1,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 10,
+        organizationId: req.organizationId, // Only the caller's organization
+        entityType,
+        entityId: req.query.entityId as string,
+        userId: req.query.userId as string,
+        action,
+        startDate,
+        endDate,
+      };
+
+      const result = await this.auditLogService.getAuditLogs(filters);
+
+      logger.info("Audit logs retrieved successfully", {
+        userId: req.user.id,
+        count: result.logs.length,
+      });
+      // Changed rates and amounts stay hidden from members without
+      // financials:view
+      return ResponseUtil.success(
+        res,
+        FieldVisibilityUtil.apply(req, result.logs),
+        "Audit logs retrieved successfully",
+        200,
+        result.pagination
+      );
+    } catch (error: any) {
+      logger.error("Get audit logs error", { error: error.message });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+}
@@ -1,33 +1,46 @@
+import { User } from "@prisma/client";
 import bcrypt from "bcrypt";
 import { Request, Response } from "express";
-import jwt from "jsonwebtoken";
+import { OrganizationSerializer } from "../serializers/organizationSerializer";
+import { UserSerializer } from "../serializers/userSerializer";
+import { InviteService } from "../services/inviteService";
+import { LoginSecurityService } from "../services/loginSecurityService";
 import { OrganizationService } from "../services/organizationService";
+import { PasswordResetService } from "../services/passwordResetService";
+import { SessionClientInfo, SessionService } from "../services/sessionService";
+import { TwoFactorService } from "../services/twoFactorService";
 import { UserService } from "../services/userService";
-import { AuthenticatedRequest } from "../types";
+import { AuthenticatedRequest, LoginAttemptFilters } from "../types";
 import { logger } from "../utils/logger";
+import { PermissionUtil } from "../utils/permissions";
 import { ResponseUtil } from "../utils/response";
 import { ValidationUtil } from "../utils/validation";
 
 export class AuthController {
   private userService: UserService;
   private organizationService: OrganizationService;
+  private sessionService: SessionService;
+  private loginSecurityService: LoginSecurityService;
+  private inviteService: InviteService;
+  private twoFactorService: TwoFactorService;
+  private passwordResetService: PasswordResetService;
 
   constructor() {
     this.userService = new UserService();
     this.organizationService = new OrganizationService();
+    this.sessionService = new SessionService();
+    this.loginSecurityService = new LoginSecurityService();
+    this.inviteService = new InviteService();
+    this.twoFactorService = new TwoFactorService();
+    this.passwordResetService = new PasswordResetService();
   }
 
   register = async (req: Request, res: Response) => {
     try {
       logger.info("Register endpoint called", { body: req.body });
 
-      const {
-        username,
-        password,
-        organizationName,
-        organizationId: reqOrganizationId,
-        role,
-      } = req.body;
+      const { username, password, organizationName, inviteCode, role } =
+        req.body;
 
       // Validate input
       const usernameValidation = ValidationUtil.validateUsername(username);
@@ -73,15 +86,34 @@ export class AuthController {
         user = await this.userService.updateUser(user.id, {
           organizationId: organization.id,
         });
+      } else if (inviteCode) {
+        // Joining an existing organization takes a valid invite, which also
+        // decides the role
+        const invite = await this.inviteService.redeemInvite(inviteCode);
+        try {
+          user = await this.userService.createUser({
+            username,
+            passwordHash,
+            role: invite.role,
+            organizationId: invite.organizationId,
+          });
+        } catch (error) {
+          await this.inviteService.releaseInvite(invite.id);
+          throw error;
+        }
+        finalOrganizationId = invite.organizationId;
+      } else if (req.body.organizationId) {
+        return ResponseUtil.badRequest(
+          res,
+          "An invite code is required to join an organization"
+        );
       } else {
-        // Regular user creation or adding user to existing organization
+        // Users without an organization can only be regular users
         user = await this.userService.createUser({
           username,
           passwordHash,
-          role: role || "user",
-          organizationId: reqOrganizationId,
+          role: "user",
         });
-        finalOrganizationId = reqOrganizationId;
       }
 
       const userResponse = await this.userService.getUserByUsername(username);
@@ -89,18 +121,19 @@ export class AuthController {
         return ResponseUtil.error(res, "User creation failed");
       }
 
-      // Remove password from response
-      const { passwordHash: _, ...userWithoutPassword } = userResponse;
+      const organization = finalOrganizationId
+        ? await this.organizationService.getOrganizationById(
+            finalOrganizationId
+          )
+        : null;
 
       logger.info("User registered successfully", { userId: userResponse.id });
       return ResponseUtil.success(
         res,
         {
-          user: userWithoutPassword,
-          organization: finalOrganizationId
-            ? await this.organizationService.getOrganizationById(
-                finalOrganizationId
-              )
+          user: UserSerializer.toPublic(userResponse),
+          organization: organization
+            ? OrganizationSerializer.toPublic(organization)
             : null,
         },
         "User registered successfully",
@@ -117,66 +150,324 @@ export class AuthController {
       logger.info("Login endpoint called", { body: req.body });
 
       const { username, password } = req.body;
+      const clientInfo = {
+        userAgent: req.headers["user-agent"],
+        ipAddress: req.ip || req.connection.remoteAddress,
+      };
+
+      // Too many recent failures from this address, whatever the username
+      const ipCheck = await this.loginSecurityService.checkIp(
+        clientInfo.ipAddress
+      );
+      if (!ipCheck.allowed) {
+        await this.loginSecurityService.recordFailure(
+          username,
+          null,
+          "ip_blocked",
+          clientInfo
+        );
+        return ResponseUtil.tooManyRequests(
+          res,
+          "Too many failed login attempts. Please try again later.",
+          ipCheck.retryAfterSeconds
+        );
+      }
 
       const user = await this.userService.getUserByUsername(username);
+
+      if (user) {
+        const lockedSeconds =
+          this.loginSecurityService.getLockoutRemainingSeconds(user);
+        if (lockedSeconds > 0) {
+          await this.loginSecurityService.recordFailure(
+            username,
+            user,
+            "account_locked",
+            clientInfo
+          );
+          return ResponseUtil.tooManyRequests(
+            res,
+            `Account is temporarily locked. Try again in ${Math.ceil(
+              lockedSeconds / 60
+            )} minute(s).`,
+            lockedSeconds
+          );
+        }
+      }
+
+      await this.loginSecurityService.applyDelay(
+        Math.max(user?.loginFailures || 0, ipCheck.recentFailures)
+      );
+
       if (!user) {
+        await this.loginSecurityService.recordFailure(
+          username,
+          null,
+          "unknown_user",
+          clientInfo
+        );
         return ResponseUtil.unauthorized(res, "Invalid credentials");
       }
 
       if (!user.isActive) {
+        await this.loginSecurityService.recordFailure(
+          username,
+          user,
+          "account_deactivated",
+          clientInfo
+        );
         return ResponseUtil.forbidden(res, "Account is deactivated");
       }
 
       // Verify password using bcrypt
       const isValidPassword = await bcrypt.compare(password, user.passwordHash);
       if (!isValidPassword) {
+        await this.loginSecurityService.recordFailure(
+          username,
+          user,
+          "invalid_password",
+          clientInfo
+        );
         return ResponseUtil.unauthorized(res, "Invalid credentials");
       }
 
-      // Update last login
-      await this.userService.updateLastLogin(user.id);
+      // No tokens until the second factor is completed at /login/2fa
+      const challenge = await this.twoFactorService.createLoginChallenge(user);
+      if (challenge) {
+        logger.info("Login requires two-factor authentication", {
+          userId: user.id,
+          setupRequired: challenge.setupRequired,
+        });
+        return ResponseUtil.success(
+          res,
+          challenge,
+          "Two-factor authentication required"
+        );
+      }
 
-      // Get user's organization
-      const organization = user.organizationId
-        ? await this.organizationService.getOrganizationById(
-            user.organizationId
-          )
-        : user.role === "owner"
-        ? await this.organizationService.getOrganizationByOwnerId(user.id)
-        : null;
+      return await this.completeLogin(res, user, clientInfo);
+    } catch (error: any) {
+      logger.error("Login error", { error: error.message });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
 
-      // Generate JWT token
-      const token = jwt.sign(
-        {
-          userId: user.id,
-          username: user.username,
-          role: user.role,
+  // POST /api/auth/login/2fa/setup - secret for users whose organization
+  // requires two-factor sign-in but who have not enrolled yet
+  loginTwoFactorSetup = async (req: Request, res: Response) => {
+    try {
+      const challenge = this.twoFactorService.verifyChallenge(
+        req.body.challengeToken
+      );
+      if (!challenge.setupRequired) {
+        return ResponseUtil.badRequest(
+          res,
+          "Two-factor authentication is already set up"
+        );
+      }
+
+      const user = await this.userService.getUserById(challenge.userId);
+      if (!user || !user.isActive) {
+        return ResponseUtil.unauthorized(res, "Invalid credentials");
+      }
+
+      const enrolment = await this.twoFactorService.startEnrolment(user);
+      return ResponseUtil.success(
+        res,
+        enrolment,
+        "Add the secret to your authenticator app, then confirm with a code"
+      );
+    } catch (error: any) {
+      logger.error("Login two-factor setup error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // POST /api/auth/login/2fa - second step of login. Takes a code from the
+  // authenticator app or a recovery code; completes enrolment when the
+  // challenge required setup
+  loginTwoFactor = async (req: Request, res: Response) => {
+    try {
+      const { challengeToken, code } = req.body;
+      const clientInfo = {
+        userAgent: req.headers["user-agent"],
+        ipAddress: req.ip || req.connection.remoteAddress,
+      };
+
+      let challenge;
+      try {
+        challenge = this.twoFactorService.verifyChallenge(challengeToken);
+      } catch (error: any) {
+        return ResponseUtil.unauthorized(res, error.message);
+      }
+
+      const user = await this.userService.getUserById(challenge.userId);
+      if (!user || !user.isActive) {
+        return ResponseUtil.unauthorized(res, "Invalid credentials");
+      }
+
+      const lockedSeconds =
+        this.loginSecurityService.getLockoutRemainingSeconds(user);
+      if (lockedSeconds > 0) {
+        await this.loginSecurityService.recordFailure(
+          user.username,
+          user,
+          "account_locked",
+          clientInfo
+        );
+        return ResponseUtil.tooManyRequests(
+          res,
+          `Account is temporarily locked. Try again in ${Math.ceil(
+            lockedSeconds / 60
+          )} minute(s).`,
+          lockedSeconds
+        );
+      }
+
+      let recoveryCodes: string[] | null = null;
+      let verified: boolean;
+      if (challenge.setupRequired && !this.twoFactorService.isEnabled(user)) {
+        recoveryCodes = await this.twoFactorService.enable(user, code);
+        verified = recoveryCodes !== null;
+      } else {
+        verified = await this.twoFactorService.verifyCode(user, code);
+      }
+
+      if (!verified) {
+        await this.loginSecurityService.recordFailure(
+          user.username,
+          user,
+          "invalid_two_factor_code",
+          clientInfo
+        );
+        return ResponseUtil.unauthorized(res, "Invalid two-factor code");
+      }
+
+      return await this.completeLogin(
+        res,
+        user,
+        clientInfo,
+        recoveryCodes ? { recoveryCodes } : {}
+      );
+    } catch (error: any) {
+      logger.error("Login two-factor error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // Starts a session for a user who has passed every login check
+  private completeLogin = async (
+    res: Response,
+    user: User,
+    clientInfo: SessionClientInfo,
+    extra: Record<string, unknown> = {}
+  ) => {
+    await this.loginSecurityService.recordSuccess(user, clientInfo);
+
+    // Update last login
+    await this.userService.updateLastLogin(user.id);
+
+    // Get user's organization
+    const organization = user.organizationId
+      ? await this.organizationService.getOrganizationById(user.organizationId)
+      : user.role === "owner"
+      ? await this.organizationService.getOrganizationByOwnerId(user.id)
+      : null;
+
+    // Start a session: a short-lived access token plus a refresh token
+    const session = await this.sessionService.createSession(user, clientInfo);
+
+    logger.info("Login successful", { userId: user.id });
+    return ResponseUtil.success(
+      res,
+      {
+        token: session.accessToken,
+        refreshToken: session.refreshToken,
+        user: {
+          ...UserSerializer.toPublic(user),
           organizationId: user.organizationId || organization?.id,
+          organization: organization
+            ? OrganizationSerializer.toPublic(organization)
+            : null,
         },
-        process.env.JWT_SECRET || "your-secret-key-here",
-        { expiresIn: "24h" }
+        expiresIn: session.expiresIn,
+        refreshTokenExpiresAt: session.refreshTokenExpiresAt,
+        ...extra,
+      },
+      "Login successful"
+    );
+  };
+
+  // POST /api/auth/reset-password - redeems a code the owner issued and
+  // signs the user out everywhere. Wrong codes count as failed logins from
+  // the address, so guessing is limited the same way
+  resetPassword = async (req: Request, res: Response) => {
+    try {
+      const { username, code, newPassword } = req.body;
+      const clientInfo = {
+        userAgent: req.headers["user-agent"],
+        ipAddress: req.ip || req.connection.remoteAddress,
+      };
+
+      const ipCheck = await this.loginSecurityService.checkIp(
+        clientInfo.ipAddress
       );
+      if (!ipCheck.allowed) {
+        await this.loginSecurityService.recordFailure(
+          username,
+          null,
+          "ip_blocked",
+          clientInfo
+        );
+        return ResponseUtil.tooManyRequests(
+          res,
+          "Too many failed attempts. Please try again later.",
+          ipCheck.retryAfterSeconds
+        );
+      }
+
+      const passwordValidation = ValidationUtil.validatePassword(newPassword);
+      if (!passwordValidation.isValid) {
+        return ResponseUtil.badRequest(res, passwordValidation.message);
+      }
+
+      await this.loginSecurityService.applyDelay(ipCheck.recentFailures);
+
+      const user = await this.userService.getUserByUsername(username);
+      const saltRounds = 10;
+      const updatedUser =
+        user && user.isActive
+          ? await this.passwordResetService.resetPassword(
+              user,
+              code,
+              await bcrypt.hash(newPassword, saltRounds)
+            )
+          : null;
+
+      if (!updatedUser) {
+        await this.loginSecurityService.recordFailure(
+          username,
+          user,
+          "invalid_reset_code",
+          clientInfo
+        );
+        return ResponseUtil.badRequest(res, "Invalid or expired reset code");
+      }
 
-      // Remove password from response
-      const { passwordHash: _, ...userWithoutPassword } = user;
+      await this.sessionService.revokeAllSessions(
+        updatedUser.id,
+        "password_reset"
+      );
 
-      logger.info("Login successful", { userId: user.id });
+      logger.info("Password reset successfully", { userId: updatedUser.id });
       return ResponseUtil.success(
         res,
-        {
-          token,
-          user: {
-            ...userWithoutPassword,
-            organizationId: user.organizationId || organization?.id,
-            organization,
-          },
-          expiresIn: "24h",
-        },
-        "Login successful"
+        null,
+        "Password reset successfully. Please log in with your new password"
       );
     } catch (error: any) {
-      logger.error("Login error", { error: error.message });
-      return ResponseUtil.error(res, error.message);
+      logger.error("Reset password error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
     }
   };
 
@@ -188,14 +479,12 @@ export class AuthController {
         return ResponseUtil.unauthorized(res, "Authentication required");
       }
 
-      // Remove password from response
-      const { passwordHash: _, ...userWithoutPassword } = req.user;
-
       logger.info("Token verification successful", { userId: req.user?.id });
       return ResponseUtil.success(
         res,
         {
-          user: userWithoutPassword,
+          user: UserSerializer.toPublic(req.user),
+          permissions: req.permissions || [],
         },
         "Token is valid"
       );
@@ -205,11 +494,45 @@ export class AuthController {
     }
   };
 
+  refresh = async (req: Request, res: Response) => {
+    try {
+      logger.info("Refresh token endpoint called");
+
+      const { refreshToken } = req.body;
+      const session = await this.sessionService.refreshSession(refreshToken);
+
+      logger.info("Token refreshed successfully", {
+        sessionId: session.sessionId,
+      });
+      return ResponseUtil.success(
+        res,
+        {
+          token: session.accessToken,
+          refreshToken: session.refreshToken,
+          expiresIn: session.expiresIn,
+          refreshTokenExpiresAt: session.refreshTokenExpiresAt,
+        },
+        "Token refreshed successfully"
+      );
+    } catch (error: any) {
+      logger.warn("Refresh token error", { error: error.message });
+      if (error.message === "Account is deactivated") {
+        return ResponseUtil.forbidden(res, error.message);
+      }
+      return ResponseUtil.unauthorized(res, error.message);
+    }
+  };
+
   logout = async (req: AuthenticatedRequest, res: Response) => {
     try {
       logger.info("Logout endpoint called", { userId: req.user?.id });
 
-      // In a stateless JWT system, logout is handled client-side by removing the token
+      if (!req.user || !req.sessionId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      await this.sessionService.revokeSession(req.sessionId, "logout");
+
       logger.info("Logout successful", { userId: req.user?.id });
       return ResponseUtil.success(res, null, "Logout successful");
     } catch (error: any) {
@@ -218,6 +541,292 @@ export class AuthController {
     }
   };
 
+  logoutAll = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      logger.info("Logout all devices endpoint called", {
+        userId: req.user?.id,
+      });
+
+      if (!req.user) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const revokedSessions = await this.sessionService.revokeAllSessions(
+        req.user.id,
+        "logout_all"
+      );
+
+      logger.info("Logged out of all devices", {
+        userId: req.user?.id,
+        revokedSessions,
+      });
+      return ResponseUtil.success(
+        res,
+        { revokedSessions },
+        "Logged out of all devices"
+      );
+    } catch (error: any) {
+      logger.error("Logout all devices error", { error: error.message });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  getSessions = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      logger.info("Get sessions endpoint called", {
+        userId: req.user?.id,
+        query: req.query,
+      });
+
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const { userId, scope } = req.query as {
+        userId?: string;
+        scope?: string;
+      };
+
+      // security:manage shows who is signed in across the organization
+      if (scope === "organization" || (userId && userId !== req.user.id)) {
+        if (!PermissionUtil.has(req, "security:manage")) {
+          return ResponseUtil.forbidden(
+            res,
+            "You do not have permission to view other users' sessions"
+          );
+        }
+
+        if (scope === "organization") {
+          const sessions = await this.sessionService.getOrganizationSessions(
+            req.organizationId,
+            req.sessionId
+          );
+          return ResponseUtil.success(
+            res,
+            sessions,
+            "Sessions retrieved successfully"
+          );
+        }
+
+        const member = await this.userService.getUserById(userId!);
+        if (!member || member.organizationId !== req.organizationId) {
+          return ResponseUtil.notFound(res, "User not found");
+        }
+      }
+
+      const sessions = await this.sessionService.getUserSessions(
+        userId || req.user.id,
+        req.sessionId
+      );
+
+      logger.info("Sessions retrieved successfully", {
+        userId: req.user?.id,
+        count: sessions.length,
+      });
+      return ResponseUtil.success(
+        res,
+        sessions,
+        "Sessions retrieved successfully"
+      );
+    } catch (error: any) {
+      logger.error("Get sessions error", { error: error.message });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  revokeSession = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      logger.info("Revoke session endpoint called", {
+        userId: req.user?.id,
+        sessionId: req.params.id,
+      });
+
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const session = await this.sessionService.getSessionById(req.params.id);
+      if (!session || session.revokedAt) {
+        return ResponseUtil.notFound(res, "Session not found");
+      }
+
+      const ownSession = session.userId === req.user.id;
+      // security:manage signs out any member of the organization; sessions
+      // of other organizations are reported as missing
+      if (
+        !ownSession &&
+        (!PermissionUtil.has(req, "security:manage") ||
+          session.user.organizationId !== req.organizationId)
+      ) {
+        return ResponseUtil.notFound(res, "Session not found");
+      }
+
+      await this.sessionService.revokeSession(
+        session.id,
+        ownSession ? "revoked_by_user" : "revoked_by_owner"
+      );
+
+      logger.info("Session revoked successfully", {
+        userId: req.user?.id,
+        sessionId: session.id,
+        sessionUserId: session.userId,
+      });
+      return ResponseUtil.success(
+        res,
+        { id: session.id, current: session.id === req.sessionId },
+        "Session revoked successfully"
+      );
+    } catch (error: any) {
+      logger.error("Revoke session error", { error: error.message });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  getLoginAttempts = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      logger.info("Get login attempts endpoint called", {
+        userId: req.user?.id,
+        query: req.query,
+      });
+
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const { startDate, endDate } = req.query as {
+        startDate?: string;
+        endDate?: string;
+      };
+      const dateValidation = ValidationUtil.validateDateRange(
+        startDate,
+        endDate
+      );
+      if (!dateValidation.isValid) {
+        return ResponseUtil.badRequest(res, dateValidation.message);
+      }
+
+      const filters: LoginAttemptFilters = {
+        page: req.query.page ? parseInt(req.query.page as string) : 1,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 10,
+        organizationId: req.organizationId, // Only the caller's organization
+        username: req.query.username as string,
+        userId: req.query.userId as string,
+        ipAddress: req.query.ipAddress as string,
+        success: req.query.success ? req.query.success === "true" : undefined,
+        startDate,
+        endDate,
+      };
+
+      const result = await this.loginSecurityService.getLoginAttempts(filters);
+
+      logger.info("Login attempts retrieved successfully", {
+        userId: req.user?.id,
+        count: result.attempts.length,
+      });
+      return ResponseUtil.success(
+        res,
+        result.attempts,
+        "Login attempts retrieved successfully",
+        200,
+        result.pagination
+      );
+    } catch (error: any) {
+      logger.error("Get login attempts error", { error: error.message });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  // POST /api/auth/2fa/setup
+  setupTwoFactor = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const enrolment = await this.twoFactorService.startEnrolment(req.user);
+      return ResponseUtil.success(
+        res,
+        enrolment,
+        "Add the secret to your authenticator app, then confirm with a code"
+      );
+    } catch (error: any) {
+      logger.error("Two-factor setup error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // POST /api/auth/2fa/enable
+  enableTwoFactor = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const recoveryCodes = await this.twoFactorService.enable(
+        req.user,
+        req.body.code
+      );
+      if (!recoveryCodes) {
+        return ResponseUtil.badRequest(res, "Invalid two-factor code");
+      }
+
+      return ResponseUtil.success(
+        res,
+        { recoveryCodes },
+        "Two-factor authentication enabled. Store the recovery codes somewhere safe"
+      );
+    } catch (error: any) {
+      logger.error("Enable two-factor error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // POST /api/auth/2fa/disable
+  disableTwoFactor = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      await this.twoFactorService.disable(req.user, req.body.code);
+      return ResponseUtil.success(
+        res,
+        null,
+        "Two-factor authentication disabled"
+      );
+    } catch (error: any) {
+      logger.error("Disable two-factor error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // POST /api/auth/2fa/recovery-codes
+  regenerateRecoveryCodes = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ) => {
+    try {
+      if (!req.user) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(
+        req.user,
+        req.body.code
+      );
+      return ResponseUtil.success(
+        res,
+        { recoveryCodes },
+        "New recovery codes generated. The old ones no longer work"
+      );
+    } catch (error: any) {
+      logger.error("Regenerate recovery codes error", {
+        error: error.message,
+      });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
   getProfile = async (req: AuthenticatedRequest, res: Response) => {
     try {
       logger.info("Get profile endpoint called", { userId: req.user?.id });
@@ -240,16 +849,16 @@ export class AuthController {
         ? await this.organizationService.getOrganizationByOwnerId(user.id)
         : null;
 
-      // Remove password from response
-      const { passwordHash: _, ...userWithoutPassword } = user;
-
       logger.info("Profile retrieved successfully", { userId: req.user?.id });
       return ResponseUtil.success(
         res,
         {
-          ...userWithoutPassword,
+          ...UserSerializer.toPublic(user),
           organizationId: user.organizationId || organization?.id,
-          organization,
+          organization: organization
+            ? OrganizationSerializer.toPublic(organization)
+            : null,
+          permissions: req.permissions || [],
         },
         "Profile retrieved successfully"
       );
@@ -336,6 +945,15 @@ export class AuthController {
 
       const updatedUser = await this.userService.updateUser(userId, updateData);
 
+      // A password change signs out every other device
+      if (updateData.passwordHash) {
+        await this.sessionService.revokeAllSessions(
+          userId,
+          "password_changed",
+          req.sessionId
+        );
+      }
+
       // Get user's organization
       const organization = updatedUser.organizationId
         ? await this.organizationService.getOrganizationById(
@@ -347,16 +965,15 @@ export class AuthController {
           )
         : null;
 
-      // Remove password from response
-      const { passwordHash: _, ...userWithoutPassword } = updatedUser;
-
       logger.info("Profile updated successfully", { userId: req.user?.id });
       return ResponseUtil.success(
         res,
         {
-          ...userWithoutPassword,
+          ...UserSerializer.toPublic(updatedUser),
           organizationId: updatedUser.organizationId || organization?.id,
-          organization,
+          organization: organization
+            ? OrganizationSerializer.toPublic(organization)
+            : null,
         },
         "Profile updated successfully"
       );
@@ -419,6 +1036,7 @@ export class AuthController {
         isActive: false,
         username: `deleted_${userId}_${Date.now()}`, // Prevent username conflicts
       });
+      await this.sessionService.revokeAllSessions(userId, "account_deleted");
 
       logger.info("Account deleted successfully", { userId: req.user?.id });
       return ResponseUtil.success(res, null, "Account deleted successfully");
@@ -1,5 +1,6 @@
 import { Response } from "express";
 import moment from "moment-timezone";
+import { GstService } from "../services/gstService";
 import { OrganizationService } from "../services/organizationService";
 import { ReportService } from "../services/reportService";
 import { AuthenticatedRequest } from "../types";
@@ -8,10 +9,12 @@ import { ResponseUtil } from "../utils/response";
 export class ReportController {
   private reportService: ReportService;
   private organizationService: OrganizationService;
+  private gstService: GstService;
 
   constructor() {
     this.reportService = new ReportService();
     this.organizationService = new OrganizationService();
+    this.gstService = new GstService();
   }
 
   generatePdfReport = async (
@@ -294,6 +297,72 @@ export class ReportController {
     }
   };
 
+  getGstr1Summary = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const { startDate, endDate, format } = req.query;
+
+      if (!startDate || !endDate) {
+        return ResponseUtil.badRequest(
+          res,
+          "Start date and end date are required"
+        );
+      }
+
+      // Validate date format
+      if (
+        !moment(startDate as string, "YYYY-MM-DD", true).isValid() ||
+        !moment(endDate as string, "YYYY-MM-DD", true).isValid()
+      ) {
+        return ResponseUtil.badRequest(
+          res,
+          "Invalid date format. Use YYYY-MM-DD"
+        );
+      }
+
+      if (moment(endDate as string).isBefore(moment(startDate as string))) {
+        return ResponseUtil.badRequest(
+          res,
+          "End date cannot be before start date"
+        );
+      }
+
+      if (format && format !== "json" && format !== "csv") {
+        return ResponseUtil.badRequest(res, "Format must be json or csv");
+      }
+
+      const summary = await this.gstService.getGstr1Summary(
+        req.organizationId,
+        startDate as string,
+        endDate as string
+      );
+
+      if (format === "csv") {
+        const csvContent = this.gstService.generateGstr1Csv(summary);
+        const filename = `${summary.organization.name}_GSTR1_${startDate}_to_${endDate}.csv`;
+
+        // The organization name can hold any character, so let Express
+        // encode the file name
+        res.attachment(filename);
+        res.setHeader("Content-Type", "text/csv");
+        res.setHeader("Content-Length", Buffer.byteLength(csvContent, "utf8"));
+        return res.send(csvContent);
+      }
+
+      return ResponseUtil.success(
+        res,
+        summary,
+        "GSTR-1 summary retrieved successfully"
+      );
+    } catch (error: any) {
+      console.error("GSTR-1 summary error:", error);
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
   getAvailableDateRanges = async (req: AuthenticatedRequest, res: Response) => {
     try {
       if (!req.user || !req.organizationId) {
@@ -1,13 +1,19 @@
+import { MaterialRate } from "@prisma/client";
 import { Request, Response } from "express";
 import { MaterialRateService } from "../services/materialRateService";
+import { TruckEntryService } from "../services/truckEntryService";
+import { AuthenticatedRequest } from "../types";
+import { FieldVisibilityUtil } from "../utils/fieldVisibility";
 import { logger } from "../utils/logger";
 import { ResponseUtil } from "../utils/response";
 
 export class ConfigController {
   private materialRateService: MaterialRateService;
+  private truckEntryService: TruckEntryService;
 
   constructor() {
     this.materialRateService = new MaterialRateService();
+    this.truckEntryService = new TruckEntryService();
   }
 
   // GET /api/config/app
@@ -80,10 +86,10 @@ export class ConfigController {
 
       ResponseUtil.success(
         res,
-        {
+        FieldVisibilityUtil.apply(req as AuthenticatedRequest, {
           rates,
           previewUnits: Number(units),
-        },
+        }),
         "Current rates retrieved successfully"
       );
       logger.info("Current rates retrieved successfully", {
@@ -148,82 +154,39 @@ export class ConfigController {
       const { truckNumber, entryType, materialType, units, ratePerUnit } =
         req.body;
 
-      const errors: string[] = [];
-      const warnings: string[] = [];
-      let isValid = true;
-
-      // Validate required fields
-      if (!truckNumber) {
-        errors.push("Truck number is required");
-        isValid = false;
-      }
-      if (!entryType) {
-        errors.push("Entry type is required");
-        isValid = false;
-      }
-      if (!units || Number(units) <= 0) {
-        errors.push("Units must be greater than 0");
-        isValid = false;
-      }
-      if (!ratePerUnit || Number(ratePerUnit) <= 0) {
-        errors.push("Rate per unit must be greater than 0");
-        isValid = false;
+      // Ignore rate lookup errors; rate checks are only warnings
+      let materialRates: MaterialRate[] | null = null;
+      try {
+        materialRates =
+          await this.materialRateService.getMaterialRatesByOrganization(
+            user.organizationId
+          );
+      } catch (error) {
+        materialRates = null;
       }
 
-      // Validate truck number format
-      if (truckNumber && !/^[A-Z]{2}\d{2}[A-Z]{2}\d{4}$/.test(truckNumber)) {
-        warnings.push(
-          "Truck number format should be: XX00XX0000 (e.g., KA01AB1234)"
+      const { isValid, errors, warnings } =
+        this.truckEntryService.validateEntryInput(
+          { truckNumber, entryType, materialType, units, ratePerUnit },
+          materialRates
         );
-      }
 
-      // Validate material type for sales entries
-      if (entryType === "Sales" && !materialType) {
-        errors.push("Material type is required for sales entries");
-        isValid = false;
-      }
-
-      // Check if material rate exists for the given material type
-      if (materialType && entryType === "Sales") {
-        try {
-          const materialRates =
-            await this.materialRateService.getMaterialRatesByOrganization(
-              user.organizationId
-            );
-          const rateExists = materialRates.some(
-            (rate) => rate.materialType === materialType
-          );
-
-          if (!rateExists) {
-            warnings.push(
-              `No standard rate found for material type: ${materialType}`
-            );
-          } else {
-            const standardRate = materialRates.find(
-              (rate) => rate.materialType === materialType
-            );
-            if (
-              standardRate &&
-              Math.abs(Number(standardRate.ratePerUnit) - Number(ratePerUnit)) >
-                Number(standardRate.ratePerUnit) * 0.1
-            ) {
-              warnings.push(
-                `Rate differs significantly from standard rate of ₹${standardRate.ratePerUnit}`
-              );
-            }
-          }
-        } catch (error) {
-          // Ignore rate validation errors
-        }
-      }
+      // Entries without a rate are priced at the material's standard rate
+      const standardRate = materialRates?.find(
+        (rate) => rate.materialType === materialType
+      );
+      const rateValue =
+        ratePerUnit !== undefined && ratePerUnit !== null && ratePerUnit !== ""
+          ? Number(ratePerUnit)
+          : Number(standardRate?.ratePerUnit ?? 0);
 
       const validatedData = {
         truckNumber: truckNumber?.toUpperCase(),
         entryType,
         materialType,
         units: Number(units),
-        ratePerUnit: Number(ratePerUnit),
-        totalAmount: Number(units) * Number(ratePerUnit),
+        ratePerUnit: rateValue,
+        totalAmount: Number(units) * rateValue,
       };
 
       ResponseUtil.success(
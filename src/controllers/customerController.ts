@@ -0,0 +1,306 @@
+import { Response } from "express";
+import { CustomerService } from "../services/customerService";
+import { PaymentService } from "../services/paymentService";
+import { AuthenticatedRequest, CustomerFilters } from "../types";
+import { logger } from "../utils/logger";
+import { ResponseUtil } from "../utils/response";
+
+export class CustomerController {
+  private customerService: CustomerService;
+  private paymentService: PaymentService;
+
+  constructor() {
+    this.customerService = new CustomerService();
+    this.paymentService = new PaymentService();
+  }
+
+  // GET /api/customers
+  getCustomers = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const filters: CustomerFilters = {
+        page: req.query.page ? parseInt(req.query.page as string) : 1,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 10,
+        sortBy: (req.query.sortBy as string) || "name",
+        sortOrder: (req.query.sortOrder as "asc" | "desc") || "asc",
+        search: req.query.search as string,
+        isActive:
+          req.query.isActive !== undefined
+            ? req.query.isActive === "true"
+            : true,
+      };
+
+      const result = await this.customerService.getCustomersByOrganization(
+        req.organizationId,
+        filters
+      );
+
+      return ResponseUtil.success(
+        res,
+        result.customers,
+        "Customers retrieved successfully",
+        200,
+        result.pagination
+      );
+    } catch (error: any) {
+      logger.error("Get customers error", { error: error.message });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  // POST /api/customers
+  createCustomer = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const customer = await this.customerService.createCustomer(
+        req.organizationId,
+        this.extractCustomerInput(req.body)
+      );
+
+      logger.info("Customer created successfully", {
+        customerId: customer.id,
+        userId: req.user.id,
+      });
+      return ResponseUtil.success(
+        res,
+        { customer },
+        "Customer created successfully",
+        201
+      );
+    } catch (error: any) {
+      logger.error("Create customer error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // GET /api/customers/:id
+  getCustomerById = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const customer = await this.customerService.getCustomerById(
+        req.params.id
+      );
+      if (!customer || customer.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Customer not found");
+      }
+
+      return ResponseUtil.success(
+        res,
+        { customer },
+        "Customer retrieved successfully"
+      );
+    } catch (error: any) {
+      logger.error("Get customer error", { error: error.message });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  // PUT /api/customers/:id
+  updateCustomer = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const existing = await this.customerService.getCustomerById(
+        req.params.id
+      );
+      if (!existing || existing.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Customer not found");
+      }
+
+      const customer = await this.customerService.updateCustomer(
+        existing.id,
+        this.extractCustomerInput(req.body)
+      );
+
+      return ResponseUtil.success(
+        res,
+        { customer },
+        "Customer updated successfully"
+      );
+    } catch (error: any) {
+      logger.error("Update customer error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // DELETE /api/customers/:id (deactivates the customer)
+  deleteCustomer = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const existing = await this.customerService.getCustomerById(
+        req.params.id
+      );
+      if (!existing || existing.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Customer not found");
+      }
+
+      await this.customerService.deactivateCustomer(existing.id);
+
+      return ResponseUtil.success(res, null, "Customer deleted successfully");
+    } catch (error: any) {
+      logger.error("Delete customer error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // GET /api/customers/:id/ledger
+  getCustomerLedger = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const customer = await this.customerService.getCustomerById(
+        req.params.id
+      );
+      if (!customer || customer.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Customer not found");
+      }
+
+      const startDate = req.query.startDate
+        ? new Date(req.query.startDate as string)
+        : undefined;
+      const endDate = req.query.endDate
+        ? new Date(req.query.endDate as string)
+        : undefined;
+
+      const ledger = await this.customerService.getCustomerLedger(
+        customer,
+        startDate,
+        endDate
+      );
+
+      return ResponseUtil.success(
+        res,
+        ledger,
+        "Customer ledger retrieved successfully"
+      );
+    } catch (error: any) {
+      logger.error("Get customer ledger error", { error: error.message });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  // POST /api/customers/:id/payments
+  recordPayment = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const customer = await this.customerService.getCustomerById(
+        req.params.id
+      );
+      if (!customer || customer.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Customer not found");
+      }
+
+      const {
+        amount,
+        mode,
+        paymentDate,
+        reference,
+        notes,
+        allocations,
+        autoAllocate,
+      } = req.body;
+
+      if (allocations !== undefined && !Array.isArray(allocations)) {
+        return ResponseUtil.badRequest(res, "allocations must be an array");
+      }
+
+      const payment = await this.paymentService.recordPayment(
+        customer,
+        {
+          amount: Number(amount),
+          mode,
+          paymentDate,
+          reference,
+          notes,
+          allocations,
+          autoAllocate,
+        },
+        req.user.id
+      );
+
+      return ResponseUtil.success(
+        res,
+        { payment },
+        "Payment recorded successfully",
+        201
+      );
+    } catch (error: any) {
+      logger.error("Record payment error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // POST /api/customers/migrate-truck-names
+  migrateTruckNames = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      // Dry run unless the caller explicitly confirms
+      const dryRun = req.body.dryRun !== false;
+
+      const result = await this.customerService.migrateEntriesFromTruckNames(
+        req.organizationId,
+        dryRun
+      );
+
+      return ResponseUtil.success(
+        res,
+        result,
+        dryRun
+          ? "Customer migration preview generated"
+          : "Truck entries linked to customers successfully"
+      );
+    } catch (error: any) {
+      logger.error("Customer migration error", { error: error.message });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  private extractCustomerInput(body: any) {
+    const {
+      name,
+      contactPerson,
+      phone,
+      email,
+      address,
+      gstin,
+      stateCode,
+      openingBalance,
+      notes,
+    } = body;
+
+    return {
+      name,
+      contactPerson,
+      phone,
+      email,
+      address,
+      gstin,
+      stateCode,
+      openingBalance:
+        openingBalance !== undefined ? Number(openingBalance) : undefined,
+      notes,
+    };
+  }
+}
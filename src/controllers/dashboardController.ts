@@ -2,6 +2,7 @@ import { Response } from "express";
 import { DashboardService } from "../services/dashboardService";
 import { AuthenticatedRequest } from "../types";
 import { DateFilterType, DateFilterUtil } from "../utils/dateFilters";
+import { FieldVisibilityUtil } from "../utils/fieldVisibility";
 import { logger } from "../utils/logger";
 import { ResponseUtil } from "../utils/response";
 
@@ -98,7 +99,7 @@ export class DashboardController {
       // Return the summary
       return ResponseUtil.success(
         res,
-        {
+        FieldVisibilityUtil.apply(req, {
           ...summary,
           filterInfo: {
             filterType,
@@ -109,7 +110,7 @@ export class DashboardController {
             utcStartDate: utcStartDate.toISOString(),
             utcEndDate: utcEndDate.toISOString(),
           },
-        },
+        }),
         "Comprehensive dashboard summary retrieved successfully"
       );
     } catch (error: any) {
@@ -224,7 +225,7 @@ export class DashboardController {
 
       return ResponseUtil.success(
         res,
-        responseData,
+        FieldVisibilityUtil.apply(req, responseData),
         "Dashboard summary retrieved successfully"
       );
     } catch (error: any) {
@@ -336,7 +337,7 @@ export class DashboardController {
 
       return ResponseUtil.success(
         res,
-        responseData,
+        FieldVisibilityUtil.apply(req, responseData),
         "Financial metrics retrieved successfully"
       );
     } catch (error: any) {
@@ -375,7 +376,7 @@ export class DashboardController {
 
       return ResponseUtil.success(
         res,
-        stats,
+        FieldVisibilityUtil.apply(req, stats),
         "Dashboard statistics retrieved successfully"
       );
     } catch (error: any) {
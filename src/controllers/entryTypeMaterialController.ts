@@ -2,7 +2,9 @@ import { EntryType } from "@prisma/client";
 import { Response } from "express";
 import { EntryTypeMaterialService } from "../services/entryTypeMaterialService";
 import { AuthenticatedRequest } from "../types";
+import { FieldVisibilityUtil } from "../utils/fieldVisibility";
 import { logger } from "../utils/logger";
+import { PermissionUtil } from "../utils/permissions";
 import { ResponseUtil } from "../utils/response";
 
 export class EntryTypeMaterialController {
@@ -36,7 +38,7 @@ export class EntryTypeMaterialController {
 
       return ResponseUtil.success(
         res,
-        { entryTypeMaterials },
+        FieldVisibilityUtil.apply(req, { entryTypeMaterials }),
         "Entry type materials retrieved successfully"
       );
     } catch (error: any) {
@@ -74,7 +76,7 @@ export class EntryTypeMaterialController {
 
       return ResponseUtil.success(
         res,
-        { groupedMaterials },
+        FieldVisibilityUtil.apply(req, { groupedMaterials }),
         "Grouped entry type materials retrieved successfully"
       );
     } catch (error: any) {
@@ -122,7 +124,7 @@ export class EntryTypeMaterialController {
 
       return ResponseUtil.success(
         res,
-        { entryTypeMaterials, entryType },
+        FieldVisibilityUtil.apply(req, { entryTypeMaterials, entryType }),
         `Materials for ${entryType} retrieved successfully`
       );
     } catch (error: any) {
@@ -289,7 +291,10 @@ export class EntryTypeMaterialController {
 
       // Check if user has access to this mapping
       if (entryTypeMaterial.organizationId !== req.organizationId) {
-        return ResponseUtil.forbidden(res, "Access denied");
+        return ResponseUtil.notFound(
+          res,
+          "Entry type material mapping not found"
+        );
       }
 
       logger.info("Entry type material by ID retrieved successfully", {
@@ -300,7 +305,7 @@ export class EntryTypeMaterialController {
 
       return ResponseUtil.success(
         res,
-        { entryTypeMaterial },
+        FieldVisibilityUtil.apply(req, { entryTypeMaterial }),
         "Entry type material mapping retrieved successfully"
       );
     } catch (error: any) {
@@ -342,14 +347,16 @@ export class EntryTypeMaterialController {
 
       // Check access permissions
       if (existingMapping.organizationId !== req.organizationId) {
-        return ResponseUtil.forbidden(res, "Access denied");
+        return ResponseUtil.notFound(
+          res,
+          "Entry type material mapping not found"
+        );
       }
 
-      // Only owners can modify mappings
-      if (req.user.role !== "owner") {
+      if (!PermissionUtil.has(req, "rates:manage")) {
         return ResponseUtil.forbidden(
           res,
-          "Only organization owners can modify material mappings"
+          "You do not have permission to modify material mappings"
         );
       }
 
@@ -407,14 +414,16 @@ export class EntryTypeMaterialController {
 
       // Check access permissions
       if (existingMapping.organizationId !== req.organizationId) {
-        return ResponseUtil.forbidden(res, "Access denied");
+        return ResponseUtil.notFound(
+          res,
+          "Entry type material mapping not found"
+        );
       }
 
-      // Only owners can delete mappings
-      if (req.user.role !== "owner") {
+      if (!PermissionUtil.has(req, "rates:manage")) {
         return ResponseUtil.forbidden(
           res,
-          "Only organization owners can delete material mappings"
+          "You do not have permission to delete material mappings"
         );
       }
 
@@ -1,10 +1,17 @@
+export * from "./apiKeyController";
+export * from "./auditLogController";
 export * from "./authController";
 export * from "./configController";
+export * from "./customerController";
 export * from "./dashboardController";
 export * from "./entryTypeMaterialController";
+export * from "./inviteController";
 export * from "./materialRateController";
 export * from "./organizationController";
 export * from "./otherExpenseController";
+export * from "./paymentController";
 export * from "./reportsController";
+export * from "./roleController";
 export * from "./truckEntryController";
 export * from "./userController";
+export * from "./vehicleController";
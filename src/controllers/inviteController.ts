@@ -0,0 +1,96 @@
+import { Response } from "express";
+import { InviteService } from "../services/inviteService";
+import { AuthenticatedRequest } from "../types";
+import { logger } from "../utils/logger";
+import { ResponseUtil } from "../utils/response";
+
+export class InviteController {
+  private inviteService: InviteService;
+
+  constructor() {
+    this.inviteService = new InviteService();
+  }
+
+  // POST /api/invites
+  createInvite = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const { role, maxUses, expiresInHours } = req.body;
+      const invite = await this.inviteService.createInvite(
+        req.organizationId,
+        req.user.id,
+        { role, maxUses, expiresInHours },
+        req.permissions || []
+      );
+
+      logger.info("Invite created successfully", {
+        inviteId: invite.id,
+        userId: req.user.id,
+      });
+      return ResponseUtil.success(
+        res,
+        { invite },
+        "Invite created successfully",
+        201
+      );
+    } catch (error: any) {
+      logger.error("Create invite error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // GET /api/invites?includeInactive=true
+  getInvites = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const invites = await this.inviteService.getInvites(
+        req.organizationId,
+        req.query.includeInactive === "true"
+      );
+
+      return ResponseUtil.success(
+        res,
+        { invites },
+        "Invites retrieved successfully"
+      );
+    } catch (error: any) {
+      logger.error("Get invites error", { error: error.message });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  // DELETE /api/invites/:id
+  revokeInvite = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const existing = await this.inviteService.getInviteById(req.params.id);
+      if (!existing || existing.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Invite not found");
+      }
+
+      const invite = await this.inviteService.revokeInvite(existing.id);
+
+      logger.info("Invite revoked successfully", {
+        inviteId: invite.id,
+        userId: req.user.id,
+      });
+      return ResponseUtil.success(
+        res,
+        { invite },
+        "Invite revoked successfully"
+      );
+    } catch (error: any) {
+      logger.error("Revoke invite error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+}
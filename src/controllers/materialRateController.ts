@@ -1,22 +1,38 @@
 import { EntryType } from "@prisma/client";
 import { Response } from "express";
+import { MaterialRateSerializer } from "../serializers/materialRateSerializer";
+import { CustomerService } from "../services/customerService";
 import { EntryTypeMaterialService } from "../services/entryTypeMaterialService";
+import { MaterialRateOverrideService } from "../services/materialRateOverrideService";
 import { MaterialRateService } from "../services/materialRateService";
+import { ScheduledRateChangeService } from "../services/scheduledRateChangeService";
+import { VehicleService } from "../services/vehicleService";
 import {
   AuthenticatedRequest,
   MaterialTypeWithRate,
   MaterialTypesWithRatesResponse,
 } from "../types";
+import { FieldVisibilityUtil } from "../utils/fieldVisibility";
+import { GST_RATES, GstUtil } from "../utils/gst";
 import { logger } from "../utils/logger";
 import { ResponseUtil } from "../utils/response";
+import { BILLING_UNITS, UnitConversionUtil } from "../utils/unitConversion";
 
 export class MaterialRateController {
   private materialRateService: MaterialRateService;
   private entryTypeMaterialService: EntryTypeMaterialService;
+  private scheduledRateChangeService: ScheduledRateChangeService;
+  private materialRateOverrideService: MaterialRateOverrideService;
+  private customerService: CustomerService;
+  private vehicleService: VehicleService;
 
   constructor() {
     this.materialRateService = new MaterialRateService();
     this.entryTypeMaterialService = new EntryTypeMaterialService();
+    this.scheduledRateChangeService = new ScheduledRateChangeService();
+    this.materialRateOverrideService = new MaterialRateOverrideService();
+    this.customerService = new CustomerService();
+    this.vehicleService = new VehicleService();
   }
 
   getMaterialRates = async (req: AuthenticatedRequest, res: Response) => {
@@ -62,6 +78,9 @@ export class MaterialRateController {
           materialType: etm.materialRate.materialType,
           ratePerUnit: etm.materialRate.ratePerUnit,
           unitType: etm.materialRate.unitType,
+          density: etm.materialRate.density,
+          hsnCode: etm.materialRate.hsnCode,
+          gstRate: etm.materialRate.gstRate,
           isActive: etm.materialRate.isActive,
           createdAt: etm.materialRate.createdAt,
           updatedAt: etm.materialRate.updatedAt,
@@ -76,7 +95,7 @@ export class MaterialRateController {
         });
         return ResponseUtil.success(
           res,
-          filteredRates,
+          FieldVisibilityUtil.apply(req, filteredRates),
           `Material rates for ${entryType} retrieved successfully`
         );
       }
@@ -92,7 +111,10 @@ export class MaterialRateController {
       });
       return ResponseUtil.success(
         res,
-        rates,
+        FieldVisibilityUtil.apply(
+          req,
+          MaterialRateSerializer.toPublicList(rates)
+        ),
         "Material rates retrieved successfully"
       );
     } catch (error: any) {
@@ -108,7 +130,7 @@ export class MaterialRateController {
         body: req.body,
       });
 
-      const { materialType, rate } = req.body;
+      const { materialType, rate, hsnCode, gstRate } = req.body;
 
       if (!req.user || !req.organizationId) {
         logger.warn("Unauthorized access to update material rate", {
@@ -128,11 +150,21 @@ export class MaterialRateController {
         );
       }
 
+      const taxError = this.validateTaxFields(hsnCode, gstRate);
+      if (taxError) {
+        return ResponseUtil.badRequest(res, taxError);
+      }
+
       const materialRate =
         await this.materialRateService.createOrUpdateMaterialRate({
           organizationId: req.organizationId,
           materialType,
           ratePerUnit: numericRate,
+          hsnCode,
+          gstRate:
+            gstRate !== undefined && gstRate !== null
+              ? Number(gstRate)
+              : undefined,
           updatedBy: req.user.id,
         });
 
@@ -142,7 +174,7 @@ export class MaterialRateController {
       });
       return ResponseUtil.success(
         res,
-        materialRate,
+        MaterialRateSerializer.toPublic(materialRate),
         `Rate for ${materialType} updated successfully`,
         201
       );
@@ -171,12 +203,15 @@ export class MaterialRateController {
 
       // Ensure the material rate belongs to the user's organization
       if (materialRate.organizationId !== req.organizationId) {
-        return ResponseUtil.forbidden(res, "Access denied");
+        return ResponseUtil.notFound(res, "Material rate not found");
       }
 
       return ResponseUtil.success(
         res,
-        materialRate,
+        FieldVisibilityUtil.apply(
+          req,
+          MaterialRateSerializer.toPublic(materialRate)
+        ),
         "Material rate retrieved successfully"
       );
     } catch (error: any) {
@@ -185,6 +220,284 @@ export class MaterialRateController {
     }
   };
 
+  // GET /api/material-rates/:id/history - every rate the material has had,
+  // newest first
+  getMaterialRateHistory = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const { id } = req.params;
+
+      const materialRate = await this.materialRateService.getMaterialRateById(
+        id
+      );
+      if (!materialRate || materialRate.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Material rate not found");
+      }
+
+      const history = await this.materialRateService.getRateHistory(
+        materialRate
+      );
+
+      return ResponseUtil.success(
+        res,
+        {
+          materialRate: MaterialRateSerializer.toPublic(materialRate),
+          history: MaterialRateSerializer.toPublicVersionList(history),
+        },
+        "Material rate history retrieved successfully"
+      );
+    } catch (error: any) {
+      logger.error("Get material rate history error", {
+        error: error.message,
+      });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  // GET /api/material-rates/scheduled-changes - pending changes by default;
+  // ?status=all includes applied, cancelled and failed ones
+  getScheduledRateChanges = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const status = (req.query.status as string) || "pending";
+      const changes =
+        await this.scheduledRateChangeService.getScheduledRateChanges(
+          req.organizationId,
+          {
+            materialRateId: req.query.materialRateId as string | undefined,
+            status: status === "all" ? undefined : status,
+          }
+        );
+      const timezone = await this.scheduledRateChangeService.getTimezone(
+        req.organizationId
+      );
+
+      return ResponseUtil.success(
+        res,
+        FieldVisibilityUtil.apply(
+          req,
+          MaterialRateSerializer.toPublicScheduledChangeList(changes, timezone)
+        ),
+        "Scheduled rate changes retrieved successfully"
+      );
+    } catch (error: any) {
+      logger.error("Get scheduled rate changes error", {
+        error: error.message,
+      });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // POST /api/material-rates/:id/scheduled-changes - sets a new rate from a
+  // future local date-time in the organization's timezone
+  scheduleRateChange = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const { id } = req.params;
+      const { ratePerUnit, effectiveAt } = req.body;
+
+      const materialRate = await this.materialRateService.getMaterialRateById(
+        id
+      );
+      if (!materialRate || materialRate.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Material rate not found");
+      }
+
+      const change = await this.scheduledRateChangeService.scheduleRateChange(
+        materialRate,
+        { ratePerUnit, effectiveAt },
+        req.user.id
+      );
+      const timezone = await this.scheduledRateChangeService.getTimezone(
+        req.organizationId
+      );
+
+      logger.info("Rate change scheduled successfully", {
+        scheduledRateChangeId: change.id,
+        materialRateId: id,
+      });
+      return ResponseUtil.success(
+        res,
+        MaterialRateSerializer.toPublicScheduledChange(change, timezone),
+        "Rate change scheduled successfully",
+        201
+      );
+    } catch (error: any) {
+      logger.error("Schedule rate change error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // DELETE /api/material-rates/scheduled-changes/:changeId - cancels a
+  // change that has not been applied yet
+  cancelScheduledRateChange = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const { changeId } = req.params;
+
+      const existing =
+        await this.scheduledRateChangeService.getScheduledRateChangeById(
+          changeId
+        );
+      if (!existing || existing.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Scheduled rate change not found");
+      }
+
+      const change =
+        await this.scheduledRateChangeService.cancelScheduledRateChange(
+          changeId,
+          req.user.id
+        );
+      const timezone = await this.scheduledRateChangeService.getTimezone(
+        req.organizationId
+      );
+
+      return ResponseUtil.success(
+        res,
+        MaterialRateSerializer.toPublicScheduledChange(change, timezone),
+        "Scheduled rate change cancelled successfully"
+      );
+    } catch (error: any) {
+      logger.error("Cancel scheduled rate change error", {
+        error: error.message,
+      });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // GET /api/material-rates/:id/overrides - rates agreed with customers and
+  // vehicles for the material
+  getRateOverrides = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const materialRate = await this.materialRateService.getMaterialRateById(
+        req.params.id
+      );
+      if (!materialRate || materialRate.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Material rate not found");
+      }
+
+      const overrides = await this.materialRateOverrideService.getRateOverrides(
+        materialRate
+      );
+
+      return ResponseUtil.success(
+        res,
+        {
+          materialRate: MaterialRateSerializer.toPublic(materialRate),
+          overrides: MaterialRateSerializer.toPublicOverrideList(overrides),
+        },
+        "Material rate overrides retrieved successfully"
+      );
+    } catch (error: any) {
+      logger.error("Get material rate overrides error", {
+        error: error.message,
+      });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  // PUT /api/material-rates/:id/overrides - sets the rate for one customer
+  // or one vehicle
+  setRateOverride = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const { customerId, vehicleId, ratePerUnit } = req.body;
+
+      const materialRate = await this.materialRateService.getMaterialRateById(
+        req.params.id
+      );
+      if (!materialRate || materialRate.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Material rate not found");
+      }
+
+      if (customerId) {
+        const customer = await this.customerService.getCustomerById(customerId);
+        if (!customer || customer.organizationId !== req.organizationId) {
+          return ResponseUtil.badRequest(res, "Invalid customer");
+        }
+      }
+      if (vehicleId) {
+        const vehicle = await this.vehicleService.getVehicleById(vehicleId);
+        if (!vehicle || vehicle.organizationId !== req.organizationId) {
+          return ResponseUtil.badRequest(res, "Invalid vehicle");
+        }
+      }
+
+      const override = await this.materialRateOverrideService.setRateOverride(
+        materialRate,
+        { customerId, vehicleId, ratePerUnit },
+        req.user.id
+      );
+
+      return ResponseUtil.success(
+        res,
+        MaterialRateSerializer.toPublicOverride(override),
+        "Material rate override saved successfully"
+      );
+    } catch (error: any) {
+      logger.error("Set material rate override error", {
+        error: error.message,
+      });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // DELETE /api/material-rates/overrides/:overrideId - the customer or
+  // vehicle goes back to the material's rate
+  deleteRateOverride = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const { overrideId } = req.params;
+
+      const existing =
+        await this.materialRateOverrideService.getRateOverrideById(overrideId);
+      if (!existing || existing.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Rate override not found");
+      }
+
+      await this.materialRateOverrideService.deleteRateOverride(overrideId);
+
+      return ResponseUtil.success(
+        res,
+        null,
+        "Material rate override deleted successfully"
+      );
+    } catch (error: any) {
+      logger.error("Delete material rate override error", {
+        error: error.message,
+      });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
   // NEW: PUT /api/material-rates/:id - Update individual material rate
   updateMaterialRateById = async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -193,7 +506,15 @@ export class MaterialRateController {
       }
 
       const { id } = req.params;
-      const { materialType, ratePerUnit, unitType, isActive } = req.body;
+      const {
+        materialType,
+        ratePerUnit,
+        unitType,
+        density,
+        hsnCode,
+        gstRate,
+        isActive,
+      } = req.body;
 
       // Check if material rate exists and belongs to organization
       const existingRate = await this.materialRateService.getMaterialRateById(
@@ -205,7 +526,7 @@ export class MaterialRateController {
       }
 
       if (existingRate.organizationId !== req.organizationId) {
-        return ResponseUtil.forbidden(res, "Access denied");
+        return ResponseUtil.notFound(res, "Material rate not found");
       }
 
       // Validate rate if provided
@@ -219,12 +540,45 @@ export class MaterialRateController {
         }
       }
 
+      // Validate unit type against the supported billing units
+      const normalizedUnit =
+        unitType !== undefined
+          ? UnitConversionUtil.normalizeUnit(unitType)
+          : undefined;
+      if (normalizedUnit === null) {
+        return ResponseUtil.badRequest(
+          res,
+          `Unit type must be one of: ${BILLING_UNITS.join(", ")}`
+        );
+      }
+
+      // Density (tons per cubic metre) is needed to bill by volume
+      if (density !== undefined && density !== null) {
+        const numericDensity = Number(density);
+        if (isNaN(numericDensity) || numericDensity <= 0) {
+          return ResponseUtil.badRequest(
+            res,
+            "Density must be a valid number greater than 0"
+          );
+        }
+      }
+
+      const taxError = this.validateTaxFields(hsnCode, gstRate);
+      if (taxError) {
+        return ResponseUtil.badRequest(res, taxError);
+      }
+
       // Build update data
       const updateData: any = {};
       if (materialType !== undefined) updateData.materialType = materialType;
       if (ratePerUnit !== undefined)
         updateData.ratePerUnit = Number(ratePerUnit);
-      if (unitType !== undefined) updateData.unitType = unitType;
+      if (normalizedUnit !== undefined) updateData.unitType = normalizedUnit;
+      if (density !== undefined)
+        updateData.density = density === null ? null : Number(density);
+      if (hsnCode !== undefined) updateData.hsnCode = hsnCode || null;
+      if (gstRate !== undefined && gstRate !== null)
+        updateData.gstRate = Number(gstRate);
       if (isActive !== undefined) updateData.isActive = isActive;
 
       if (Object.keys(updateData).length === 0) {
@@ -236,12 +590,13 @@ export class MaterialRateController {
 
       const updatedRate = await this.materialRateService.updateMaterialRateById(
         id,
-        updateData
+        updateData,
+        req.user.id
       );
 
       return ResponseUtil.success(
         res,
-        updatedRate,
+        MaterialRateSerializer.toPublic(updatedRate),
         "Material rate updated successfully"
       );
     } catch (error: any) {
@@ -269,7 +624,7 @@ export class MaterialRateController {
       }
 
       if (existingRate.organizationId !== req.organizationId) {
-        return ResponseUtil.forbidden(res, "Access denied");
+        return ResponseUtil.notFound(res, "Material rate not found");
       }
 
       // Check if this material rate is being used in any truck entries or bridge table
@@ -283,7 +638,7 @@ export class MaterialRateController {
 
       return ResponseUtil.success(
         res,
-        deletedRate,
+        MaterialRateSerializer.toPublic(deletedRate),
         "Material rate deleted successfully"
       );
     } catch (error: any) {
@@ -399,7 +754,7 @@ export class MaterialRateController {
 
       return ResponseUtil.success(
         res,
-        response,
+        FieldVisibilityUtil.apply(req, response),
         "Material types with rates retrieved successfully"
       );
     } catch (error: any) {
@@ -438,6 +793,12 @@ export class MaterialRateController {
         materialType: etm.materialRate.materialType,
         ratePerUnit: Number(etm.materialRate.ratePerUnit),
         unitType: etm.materialRate.unitType,
+        density:
+          etm.materialRate.density !== null
+            ? Number(etm.materialRate.density)
+            : null,
+        hsnCode: etm.materialRate.hsnCode,
+        gstRate: Number(etm.materialRate.gstRate),
         isActive: etm.materialRate.isActive,
         materialRateId: etm.materialRate.id,
         entryTypeMaterialId: etm.id,
@@ -446,12 +807,12 @@ export class MaterialRateController {
 
       return ResponseUtil.success(
         res,
-        {
+        FieldVisibilityUtil.apply(req, {
           entryType,
           materials: materialsWithRates,
           totalCount: materialsWithRates.length,
           organizationId: req.organizationId,
-        },
+        }),
         `Materials for ${entryType} retrieved successfully`
       );
     } catch (error: any) {
@@ -508,12 +869,12 @@ export class MaterialRateController {
 
       return ResponseUtil.success(
         res,
-        {
+        FieldVisibilityUtil.apply(req, {
           entryType,
           availableMaterials,
           totalCount: availableMaterials.length,
           organizationId: req.organizationId,
-        },
+        }),
         `Available materials for ${entryType} retrieved successfully`
       );
     } catch (error: any) {
@@ -521,4 +882,19 @@ export class MaterialRateController {
       return ResponseUtil.error(res, error.message);
     }
   };
+
+  // HSN codes are 4, 6 or 8 digits; GST rates must be one of the notified slabs
+  private validateTaxFields(hsnCode: any, gstRate: any): string | null {
+    if (hsnCode && !GstUtil.isValidHsnCode(String(hsnCode))) {
+      return "HSN code must be 4, 6 or 8 digits";
+    }
+    if (
+      gstRate !== undefined &&
+      gstRate !== null &&
+      !GstUtil.isValidRate(Number(gstRate))
+    ) {
+      return `GST rate must be one of: ${GST_RATES.join(", ")}`;
+    }
+    return null;
+  }
 }
@@ -1,7 +1,9 @@
 import { Request, Response } from "express";
+import { OrganizationSerializer } from "../serializers/organizationSerializer";
 import { OrganizationService } from "../services/organizationService";
 import { AuthenticatedRequest, PaginationParams } from "../types";
 import { logger } from "../utils/logger";
+import { PermissionUtil } from "../utils/permissions";
 import { ResponseUtil } from "../utils/response";
 
 export class OrganizationController {
@@ -23,7 +25,7 @@ export class OrganizationController {
       logger.info("Organization created successfully", { organization });
       return ResponseUtil.success(
         res,
-        organization,
+        OrganizationSerializer.toPublic(organization),
         "Organization created successfully",
         201
       );
@@ -50,7 +52,7 @@ export class OrganizationController {
       logger.info("Organization retrieved successfully", { organization });
       return ResponseUtil.success(
         res,
-        organization,
+        OrganizationSerializer.toPublic(organization),
         "Organization retrieved successfully"
       );
     } catch (error: any) {
@@ -85,7 +87,7 @@ export class OrganizationController {
 
       return ResponseUtil.success(
         res,
-        organization,
+        OrganizationSerializer.toPublic(organization),
         "User organization retrieved successfully"
       );
     } catch (error: any) {
@@ -109,7 +111,7 @@ export class OrganizationController {
 
       return ResponseUtil.success(
         res,
-        result.organizations,
+        OrganizationSerializer.toPublicList(result.organizations),
         "Organizations retrieved successfully",
         200,
         result.pagination
@@ -123,7 +125,8 @@ export class OrganizationController {
   updateOrganization = async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { id } = req.params;
-      const { name } = req.body;
+      const { name, gstin, stateCode, address, requireTwoFactor, timezone } =
+        req.body;
 
       if (!req.user) {
         return ResponseUtil.unauthorized(res, "Authentication required");
@@ -136,21 +139,29 @@ export class OrganizationController {
           id
         );
 
-      if (!hasAccess || req.user.role !== "owner") {
+      if (!hasAccess || !PermissionUtil.has(req, "organization:manage")) {
+        return ResponseUtil.forbidden(
+          res,
+          "You do not have permission to update organization details"
+        );
+      }
+
+      // Only the owner decides whether members must use two-factor sign-in
+      if (requireTwoFactor !== undefined && !PermissionUtil.isOwner(req)) {
         return ResponseUtil.forbidden(
           res,
-          "Only organization owners can update organization details"
+          "Only the owner can change the two-factor requirement"
         );
       }
 
       const organization = await this.organizationService.updateOrganization(
         id,
-        { name }
+        { name, gstin, stateCode, address, requireTwoFactor, timezone }
       );
 
       return ResponseUtil.success(
         res,
-        organization,
+        OrganizationSerializer.toPublic(organization),
         "Organization updated successfully"
       );
     } catch (error: any) {
@@ -174,7 +185,7 @@ export class OrganizationController {
           id
         );
 
-      if (!hasAccess || req.user.role !== "owner") {
+      if (!hasAccess || !PermissionUtil.isOwner(req)) {
         return ResponseUtil.forbidden(
           res,
           "Only organization owners can delete their organization"
@@ -1,4 +1,5 @@
 import { Request, Response } from "express";
+import { ExpenseSerializer } from "../serializers/expenseSerializer";
 import { OtherExpenseService } from "../services/otherExpenseService";
 import { ExpenseFilters } from "../types";
 import { logger } from "../utils/logger";
@@ -59,7 +60,7 @@ export class OtherExpenseController {
       ResponseUtil.success(
         res,
         {
-          expenses: result.expenses,
+          expenses: ExpenseSerializer.toPublicList(result.expenses),
           pagination,
         },
         "Expenses retrieved successfully"
@@ -113,7 +114,7 @@ export class OtherExpenseController {
 
       ResponseUtil.success(
         res,
-        { expense },
+        { expense: ExpenseSerializer.toPublic(expense) },
         "Expense created successfully",
         201
       );
@@ -188,11 +189,15 @@ export class OtherExpenseController {
         user.organizationId
       );
       if (!isOwner) {
-        ResponseUtil.forbidden(res, "Access denied");
+        ResponseUtil.notFound(res, "Expense not found");
         return;
       }
 
-      ResponseUtil.success(res, { expense }, "Expense retrieved successfully");
+      ResponseUtil.success(
+        res,
+        { expense: ExpenseSerializer.toPublic(expense) },
+        "Expense retrieved successfully"
+      );
       logger.info("Expense retrieved successfully", {
         userId: (req as any).user.id,
       });
@@ -234,7 +239,11 @@ export class OtherExpenseController {
         notes,
       });
 
-      ResponseUtil.success(res, { expense }, "Expense updated successfully");
+      ResponseUtil.success(
+        res,
+        { expense: ExpenseSerializer.toPublic(expense) },
+        "Expense updated successfully"
+      );
       logger.info("Expense updated successfully", {
         userId: (req as any).user.id,
       });
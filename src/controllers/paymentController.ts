@@ -0,0 +1,150 @@
+import { Response } from "express";
+import { CustomerService } from "../services/customerService";
+import { PaymentService } from "../services/paymentService";
+import { AuthenticatedRequest } from "../types";
+import { logger } from "../utils/logger";
+import { ResponseUtil } from "../utils/response";
+
+export class PaymentController {
+  private paymentService: PaymentService;
+  private customerService: CustomerService;
+
+  constructor() {
+    this.paymentService = new PaymentService();
+    this.customerService = new CustomerService();
+  }
+
+  // GET /api/payments
+  getPayments = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const result = await this.paymentService.getPaymentsByOrganization(
+        req.organizationId,
+        {
+          page: req.query.page ? parseInt(req.query.page as string) : 1,
+          limit: req.query.limit ? parseInt(req.query.limit as string) : 10,
+          customerId: req.query.customerId as string,
+          mode: req.query.mode as string,
+          startDate: req.query.startDate
+            ? new Date(req.query.startDate as string)
+            : undefined,
+          endDate: req.query.endDate
+            ? new Date(req.query.endDate as string)
+            : undefined,
+        }
+      );
+
+      return ResponseUtil.success(
+        res,
+        result.payments,
+        "Payments retrieved successfully",
+        200,
+        result.pagination
+      );
+    } catch (error: any) {
+      logger.error("Get payments error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // GET /api/payments/receivables?asOf=YYYY-MM-DD
+  getReceivables = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const asOf = req.query.asOf
+        ? new Date(req.query.asOf as string)
+        : new Date();
+      if (isNaN(asOf.getTime())) {
+        return ResponseUtil.badRequest(res, "Invalid asOf date");
+      }
+
+      const receivables = await this.paymentService.getReceivables(
+        req.organizationId,
+        asOf
+      );
+
+      return ResponseUtil.success(
+        res,
+        receivables,
+        "Receivables retrieved successfully"
+      );
+    } catch (error: any) {
+      logger.error("Get receivables error", { error: error.message });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  // GET /api/payments/:id
+  getPaymentById = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const payment = await this.paymentService.getPaymentById(req.params.id);
+      if (!payment || payment.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Payment not found");
+      }
+
+      return ResponseUtil.success(
+        res,
+        { payment },
+        "Payment retrieved successfully"
+      );
+    } catch (error: any) {
+      logger.error("Get payment error", { error: error.message });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  // POST /api/payments/:id/allocations
+  allocatePayment = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const payment = await this.paymentService.getPaymentById(req.params.id);
+      if (!payment || payment.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Payment not found");
+      }
+
+      const { allocations } = req.body;
+      if (allocations !== undefined && !Array.isArray(allocations)) {
+        return ResponseUtil.badRequest(res, "allocations must be an array");
+      }
+
+      const customer = await this.customerService.getCustomerById(
+        payment.customerId
+      );
+      if (!customer) {
+        return ResponseUtil.notFound(res, "Customer not found");
+      }
+
+      const updated = await this.paymentService.allocatePayment(
+        payment,
+        customer,
+        allocations
+      );
+
+      logger.info("Payment allocated successfully", {
+        paymentId: payment.id,
+        userId: req.user.id,
+      });
+      return ResponseUtil.success(
+        res,
+        { payment: updated },
+        "Payment allocated successfully"
+      );
+    } catch (error: any) {
+      logger.error("Allocate payment error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+}
@@ -1,7 +1,27 @@
+import { ReportExport } from "@prisma/client";
 import { Request, Response } from "express";
+import moment from "moment-timezone";
+import {
+  CreateReportExportRequest,
+  REPORT_EXPORT_FORMATS,
+  REPORT_TEMPLATE_IDS,
+  ReportExportService,
+} from "../services/reportExportService";
+import { ReportJobService } from "../services/reportJobService";
+import { AuthenticatedRequest } from "../types";
+import { logger } from "../utils/logger";
 import { ResponseUtil } from "../utils/response";
+import { reportJobWorker } from "../workers/reportJobWorker";
 
 export class ReportsController {
+  private reportExportService: ReportExportService;
+  private reportJobService: ReportJobService;
+
+  constructor() {
+    this.reportExportService = new ReportExportService();
+    this.reportJobService = new ReportJobService();
+  }
+
   // GET /api/reports/templates
   getReportTemplates = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -10,25 +30,25 @@ export class ReportsController {
           id: "truck-entries-summary",
           name: "Truck Entries Summary",
           description: "Summary report of all truck entries with totals",
-          formats: ["PDF", "Excel", "CSV"],
+          formats: ["PDF", "CSV"],
         },
         {
           id: "material-wise-report",
           name: "Material-wise Report",
           description: "Sales and quantities grouped by material type",
-          formats: ["PDF", "Excel", "CSV"],
+          formats: ["PDF", "CSV"],
         },
         {
           id: "financial-summary",
           name: "Financial Summary",
           description: "Complete financial overview including expenses",
-          formats: ["PDF", "Excel"],
+          formats: ["PDF", "CSV"],
         },
         {
           id: "daily-operations",
           name: "Daily Operations",
           description: "Daily operations report with all activities",
-          formats: ["PDF", "Excel"],
+          formats: ["PDF", "CSV"],
         },
       ];
 
@@ -74,125 +94,328 @@ export class ReportsController {
   };
 
   // POST /api/reports/export
-  generateExport = async (req: Request, res: Response): Promise<void> => {
+  generateExport = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    await this.createExport(
+      req,
+      res,
+      req.body,
+      "Export generated successfully"
+    );
+  };
+
+  // GET /api/reports/export
+  generateExportViaGet = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    await this.createExport(
+      req,
+      res,
+      req.query,
+      "Export generated successfully"
+    );
+  };
+
+  // POST /api/reports/browser-download
+  generateBrowserDownloadToken = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    await this.createExport(
+      req,
+      res,
+      req.body,
+      "Browser download token generated successfully"
+    );
+  };
+
+  // GET /api/reports/download/:token
+  downloadReport = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { token } = req.params;
+
+      const reportExport = await this.reportExportService.getExportByToken(
+        token
+      );
+
+      if (!reportExport) {
+        ResponseUtil.notFound(res, "Report file not found or expired");
+        return;
+      }
+
+      this.sendExport(res, reportExport);
+    } catch (error: any) {
+      logger.error("Failed to download report", { error: error.message });
+      ResponseUtil.error(res, "Failed to download report", 500);
+    }
+  };
+
+  // POST /api/reports/jobs
+  createReportJob = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
     try {
-      const { reportType, format } = req.body;
+      if (!req.user || !req.organizationId) {
+        ResponseUtil.unauthorized(res, "Authentication required");
+        return;
+      }
 
-      if (!reportType || !format) {
-        ResponseUtil.badRequest(res, "Report type and format are required");
+      const parsed = this.parseExportParams(req.body);
+      if (typeof parsed === "string") {
+        ResponseUtil.badRequest(res, parsed);
         return;
       }
 
-      // Generate a mock download token
-      const token = `export_${Date.now()}_${Math.random()
-        .toString(36)
-        .substr(2, 9)}`;
-      const fileName = `${reportType}_${
-        new Date().toISOString().split("T")[0]
-      }.${format.toLowerCase()}`;
-      const expiresAt = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes
+      const job = await this.reportJobService.createJob({
+        ...parsed,
+        organizationId: req.organizationId,
+        userId: req.user.id,
+      });
+
+      reportJobWorker.trigger();
 
       ResponseUtil.success(
         res,
         {
-          downloadUrl: `/api/reports/download/${token}`,
-          fileName,
-          fileSize: "Calculating...",
-          expiresAt,
+          jobId: job.id,
+          status: job.status,
+          progress: job.progress,
+          statusUrl: `/api/reports/jobs/${job.id}`,
         },
-        "Export generated successfully"
+        "Report job queued successfully",
+        202
       );
-    } catch (error) {
-      ResponseUtil.error(res, "Failed to generate export", 500);
+    } catch (error: any) {
+      logger.error("Failed to queue report job", { error: error.message });
+      ResponseUtil.error(res, "Failed to queue report job", 500);
     }
   };
 
-  // GET /api/reports/export
-  generateExportViaGet = async (req: Request, res: Response): Promise<void> => {
+  // GET /api/reports/jobs
+  getReportJobs = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
     try {
-      const { reportType, format } = req.query;
-
-      if (!reportType || !format) {
-        ResponseUtil.badRequest(res, "Report type and format are required");
+      if (!req.user || !req.organizationId) {
+        ResponseUtil.unauthorized(res, "Authentication required");
         return;
       }
 
-      // Generate a mock download token
-      const token = `export_${Date.now()}_${Math.random()
-        .toString(36)
-        .substr(2, 9)}`;
-      const fileName = `${reportType}_${
-        new Date().toISOString().split("T")[0]
-      }.${format.toString().toLowerCase()}`;
-      const expiresAt = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes
+      const jobs = await this.reportJobService.getJobsByOrganization(
+        req.organizationId
+      );
 
       ResponseUtil.success(
         res,
         {
-          downloadUrl: `/api/reports/download/${token}`,
-          fileName,
-          fileSize: "Calculating...",
-          expiresAt,
+          jobs: jobs.map((job) => ({
+            id: job.id,
+            reportType: job.reportType,
+            format: job.format,
+            startDate: job.startDate,
+            endDate: job.endDate,
+            status: job.status,
+            progress: job.progress,
+            createdAt: job.createdAt,
+            completedAt: job.completedAt,
+          })),
         },
-        "Export generated successfully"
+        "Report jobs retrieved successfully"
       );
-    } catch (error) {
-      ResponseUtil.error(res, "Failed to generate export", 500);
+    } catch (error: any) {
+      logger.error("Failed to retrieve report jobs", { error: error.message });
+      ResponseUtil.error(res, "Failed to retrieve report jobs", 500);
     }
   };
 
-  // POST /api/reports/browser-download
-  generateBrowserDownloadToken = async (
-    req: Request,
+  // GET /api/reports/jobs/:id
+  getReportJobStatus = async (
+    req: AuthenticatedRequest,
     res: Response
   ): Promise<void> => {
     try {
-      const { reportType, format } = req.body;
+      if (!req.user || !req.organizationId) {
+        ResponseUtil.unauthorized(res, "Authentication required");
+        return;
+      }
 
-      if (!reportType || !format) {
-        ResponseUtil.badRequest(res, "Report type and format are required");
+      const job = await this.reportJobService.getJobStatus(
+        req.params.id,
+        req.organizationId
+      );
+
+      if (!job) {
+        ResponseUtil.notFound(res, "Report job not found");
         return;
       }
 
-      // Generate a mock download token
-      const token = `browser_${Date.now()}_${Math.random()
-        .toString(36)
-        .substr(2, 9)}`;
-      const fileName = `${reportType}_${
-        new Date().toISOString().split("T")[0]
-      }.${format.toLowerCase()}`;
-      const expiresAt = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes
+      ResponseUtil.success(res, { job }, "Report job retrieved successfully");
+    } catch (error: any) {
+      logger.error("Failed to retrieve report job", { error: error.message });
+      ResponseUtil.error(res, "Failed to retrieve report job", 500);
+    }
+  };
+
+  // GET /api/reports/jobs/:id/download
+  downloadReportJob = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    try {
+      if (!req.user || !req.organizationId) {
+        ResponseUtil.unauthorized(res, "Authentication required");
+        return;
+      }
+
+      const job = await this.reportJobService.getJob(
+        req.params.id,
+        req.organizationId
+      );
+
+      if (!job) {
+        ResponseUtil.notFound(res, "Report job not found");
+        return;
+      }
+
+      if (job.status !== "done" || !job.reportExportId) {
+        ResponseUtil.conflict(res, `Report job is ${job.status}`);
+        return;
+      }
+
+      const reportExport =
+        await this.reportExportService.getExportForOrganization(
+          job.reportExportId,
+          req.organizationId
+        );
+
+      if (!reportExport) {
+        ResponseUtil.notFound(res, "Report file not found or expired");
+        return;
+      }
+
+      this.sendExport(res, reportExport);
+    } catch (error: any) {
+      logger.error("Failed to download report job", { error: error.message });
+      ResponseUtil.error(res, "Failed to download report", 500);
+    }
+  };
+
+  private createExport = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    params: any,
+    successMessage: string
+  ): Promise<void> => {
+    try {
+      if (!req.user || !req.organizationId) {
+        ResponseUtil.unauthorized(res, "Authentication required");
+        return;
+      }
+
+      const parsed = this.parseExportParams(params);
+      if (typeof parsed === "string") {
+        ResponseUtil.badRequest(res, parsed);
+        return;
+      }
+
+      const { reportExport, token } =
+        await this.reportExportService.createExport({
+          ...parsed,
+          organizationId: req.organizationId,
+          userId: req.user.id,
+        });
 
       ResponseUtil.success(
         res,
         {
           downloadUrl: `/api/reports/download/${token}`,
-          fileName,
-          fileSize: "Ready for download",
-          expiresAt,
+          fileName: reportExport.fileName,
+          fileSize: this.reportExportService.formatFileSize(
+            reportExport.fileSize
+          ),
+          expiresAt: reportExport.expiresAt,
         },
-        "Browser download token generated successfully"
+        successMessage
       );
-    } catch (error) {
-      ResponseUtil.error(res, "Failed to generate browser download token", 500);
+    } catch (error: any) {
+      logger.error("Failed to generate export", { error: error.message });
+      ResponseUtil.error(res, "Failed to generate export", 500);
     }
   };
 
-  // GET /api/reports/download/:token
-  downloadReport = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const { token } = req.params;
+  // Returns the validated export parameters, or an error message
+  private parseExportParams(
+    params: any
+  ): Omit<CreateReportExportRequest, "organizationId" | "userId"> | string {
+    const { reportType, format, startDate, endDate, timezone } = params;
 
-      // This is a placeholder - implement actual file serving
-      res.status(404).json({
-        success: false,
-        message: "Report file not found or expired",
-        error: "Download functionality not yet implemented",
-      });
-    } catch (error) {
-      ResponseUtil.error(res, "Failed to download report", 500);
+    if (!reportType || !format) {
+      return "Report type and format are required";
     }
-  };
+
+    if (!REPORT_TEMPLATE_IDS.includes(reportType as string)) {
+      return `Invalid report type. Use one of: ${REPORT_TEMPLATE_IDS.join(
+        ", "
+      )}`;
+    }
+
+    if (!REPORT_EXPORT_FORMATS.includes(format.toString().toUpperCase())) {
+      return `Invalid format. Use one of: ${REPORT_EXPORT_FORMATS.join(", ")}`;
+    }
+
+    // Default to IST if timezone not provided
+    const userTimezone = (timezone as string) || "Asia/Kolkata";
+    if (!moment.tz.zone(userTimezone)) {
+      return `Invalid timezone: ${userTimezone}`;
+    }
+
+    // Default to the current month when no range is given
+    const today = moment.tz(userTimezone);
+    const start = startDate
+      ? moment(startDate as string, "YYYY-MM-DD", true)
+      : today.clone().startOf("month");
+    const end = endDate
+      ? moment(endDate as string, "YYYY-MM-DD", true)
+      : today.clone();
+
+    if (!start.isValid() || !end.isValid()) {
+      return "Invalid date format. Use YYYY-MM-DD";
+    }
+
+    if (end.isBefore(start)) {
+      return "End date cannot be before start date";
+    }
+
+    return {
+      reportType: reportType as string,
+      format: format.toString(),
+      startDate: start.format("YYYY-MM-DD"),
+      endDate: end.format("YYYY-MM-DD"),
+      timezone: userTimezone,
+    };
+  }
+
+  private sendExport(res: Response, reportExport: ReportExport): void {
+    logger.info("Streaming report export", {
+      exportId: reportExport.id,
+      organizationId: reportExport.organizationId,
+      fileSize: reportExport.fileSize,
+    });
+
+    // The file name carries the organization name, so let Express encode it
+    // (ASCII fallback plus filename*). It also guesses a Content-Type from
+    // the extension, which the stored MIME type then replaces
+    res.attachment(reportExport.fileName);
+    res.setHeader("Content-Type", reportExport.mimeType);
+    res.setHeader("Content-Length", reportExport.fileSize);
+    res.setHeader("Cache-Control", "no-store");
+    res.send(Buffer.from(reportExport.content));
+  }
 
   // GET /api/reports/test-data
   getTestData = async (req: Request, res: Response): Promise<void> => {
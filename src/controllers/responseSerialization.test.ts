@@ -0,0 +1,201 @@
+// Must load before the controllers pull in the database module
+import "../testing/prismaStub";
+
+import { Organization, User } from "@prisma/client";
+import bcrypt from "bcrypt";
+import { Response } from "express";
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { AuthenticatedRequest } from "../types";
+import { PermissionUtil } from "../utils/permissions";
+import { AuthController } from "./authController";
+import { UserController } from "./userController";
+
+// Controllers are called with their services stubbed out, so no database is
+// needed; the services return full Prisma rows, hash included
+const PASSWORD = "Secret123!";
+const PASSWORD_HASH = bcrypt.hashSync(PASSWORD, 4);
+
+const organization: Organization = {
+  id: "3c0b7a52-6f3e-4f4e-9a57-9d1f0e0c1a01",
+  name: "Test Crusher",
+  ownerId: "3c0b7a52-6f3e-4f4e-9a57-9d1f0e0c1a02",
+  gstin: null,
+  stateCode: null,
+  address: null,
+  requireTwoFactor: false,
+  timezone: "Asia/Kolkata",
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const user: User = {
+  id: "3c0b7a52-6f3e-4f4e-9a57-9d1f0e0c1a02",
+  organizationId: organization.id,
+  username: "owner",
+  passwordHash: PASSWORD_HASH,
+  role: "owner",
+  roleId: null,
+  isActive: true,
+  lastLogin: null,
+  loginFailures: 0,
+  lockedUntil: null,
+  totpSecret: "JBSWY3DPEHPK3PXP",
+  totpEnabledAt: null,
+  totpLastStep: null,
+  totpRecoveryCodes: ["0f1e2d3c"],
+  profileImage: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+interface CapturedResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+function createResponse(): { res: Response; captured: CapturedResponse } {
+  const captured: CapturedResponse = { statusCode: 200, body: undefined };
+  const res = {
+    status(code: number) {
+      captured.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      captured.body = body;
+      return this;
+    },
+    setHeader() {
+      return this;
+    },
+  };
+  return { res: res as unknown as Response, captured };
+}
+
+function createRequest(overrides: Partial<AuthenticatedRequest> = {}) {
+  return {
+    body: {},
+    params: {},
+    query: {},
+    headers: { "user-agent": "node-test" },
+    ip: "127.0.0.1",
+    connection: {},
+    user: { ...user, organization },
+    organizationId: organization.id,
+    permissions: PermissionUtil.forRole("owner"),
+    ...overrides,
+  } as unknown as AuthenticatedRequest;
+}
+
+// Fails on a passwordHash key anywhere in the body, or the hash itself
+// under any other name
+function assertNoPasswordHash(body: unknown): void {
+  assert.ok(body, "expected a response body");
+  const json = JSON.stringify(body);
+  assert.ok(!json.includes("passwordHash"), `passwordHash in ${json}`);
+  assert.ok(!json.includes(PASSWORD_HASH), `password hash in ${json}`);
+}
+
+describe("responses never contain password hashes", () => {
+  let authController: AuthController;
+  let userController: UserController;
+
+  beforeEach(() => {
+    const userService = {
+      getUserByUsername: async () => user,
+      getUserById: async () => user,
+      updateLastLogin: async () => user,
+      getAllUsers: async () => ({
+        users: [user],
+        pagination: { total: 1, page: 1, limit: 10, totalPages: 1 },
+      }),
+      createUser: async () => user,
+      updateUser: async () => user,
+      validateUserAccess: async () => true,
+    };
+
+    authController = new AuthController();
+    Object.assign(authController, {
+      userService,
+      loginSecurityService: {
+        checkIp: async () => ({
+          allowed: true,
+          recentFailures: 0,
+          retryAfterSeconds: 0,
+        }),
+        getLockoutRemainingSeconds: () => 0,
+        applyDelay: async () => undefined,
+        recordFailure: async () => null,
+        recordSuccess: async () => undefined,
+      },
+      twoFactorService: { createLoginChallenge: async () => null },
+      organizationService: {
+        getOrganizationById: async () => organization,
+        getOrganizationByOwnerId: async () => organization,
+      },
+      sessionService: {
+        createSession: async () => ({
+          accessToken: "access-token",
+          refreshToken: "refresh-token",
+          expiresIn: "15m",
+          refreshTokenExpiresAt: new Date(),
+        }),
+      },
+    });
+
+    userController = new UserController();
+    Object.assign(userController, { userService });
+  });
+
+  it("POST /api/auth/login", async () => {
+    const { res, captured } = createResponse();
+    await authController.login(
+      createRequest({ body: { username: "owner", password: PASSWORD } }),
+      res
+    );
+
+    assert.equal(captured.statusCode, 200);
+    assertNoPasswordHash(captured.body);
+  });
+
+  it("GET /api/users/me", async () => {
+    const { res, captured } = createResponse();
+    await userController.getCurrentUser(createRequest(), res);
+
+    assert.equal(captured.statusCode, 200);
+    assertNoPasswordHash(captured.body);
+  });
+
+  it("GET /api/users", async () => {
+    const { res, captured } = createResponse();
+    await userController.getAllUsers(createRequest(), res);
+
+    assert.equal(captured.statusCode, 200);
+    assertNoPasswordHash(captured.body);
+  });
+
+  it("POST /api/users", async () => {
+    const { res, captured } = createResponse();
+    await userController.createUser(
+      createRequest({ body: { username: "operator", password: PASSWORD } }),
+      res
+    );
+
+    assert.equal(captured.statusCode, 201);
+    assertNoPasswordHash(captured.body);
+  });
+
+  it("PUT /api/users/:id", async () => {
+    const { res, captured } = createResponse();
+    await userController.updateUser(
+      createRequest({
+        params: { id: user.id },
+        body: { username: "owner2" },
+      }),
+      res
+    );
+
+    assert.equal(captured.statusCode, 200);
+    assertNoPasswordHash(captured.body);
+  });
+});
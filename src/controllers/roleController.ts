@@ -0,0 +1,138 @@
+import { Response } from "express";
+import { RoleService } from "../services/roleService";
+import { AuthenticatedRequest } from "../types";
+import { logger } from "../utils/logger";
+import { PERMISSIONS } from "../utils/permissions";
+import { ResponseUtil } from "../utils/response";
+
+export class RoleController {
+  private roleService: RoleService;
+
+  constructor() {
+    this.roleService = new RoleService();
+  }
+
+  // GET /api/roles/permissions
+  getPermissions = async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return ResponseUtil.unauthorized(res, "Authentication required");
+    }
+
+    const permissions = Object.entries(PERMISSIONS).map(
+      ([permission, description]) => ({ permission, description })
+    );
+
+    return ResponseUtil.success(
+      res,
+      { permissions, granted: req.permissions || [] },
+      "Permissions retrieved successfully"
+    );
+  };
+
+  // GET /api/roles
+  getRoles = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const customRoles = await this.roleService.getCustomRoles(
+        req.organizationId
+      );
+
+      return ResponseUtil.success(
+        res,
+        { builtInRoles: this.roleService.getBuiltInRoles(), customRoles },
+        "Roles retrieved successfully"
+      );
+    } catch (error: any) {
+      logger.error("Get roles error", { error: error.message });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  // POST /api/roles
+  createRole = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const { name, description, permissions } = req.body;
+      const role = await this.roleService.createRole(
+        req.organizationId,
+        { name, description, permissions },
+        req.permissions || []
+      );
+
+      logger.info("Role created successfully", {
+        roleId: role.id,
+        userId: req.user.id,
+      });
+      return ResponseUtil.success(
+        res,
+        { role },
+        "Role created successfully",
+        201
+      );
+    } catch (error: any) {
+      logger.error("Create role error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // PUT /api/roles/:id
+  updateRole = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const existing = await this.roleService.getRoleById(req.params.id);
+      if (!existing || existing.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Role not found");
+      }
+
+      const { name, description, permissions } = req.body;
+      const role = await this.roleService.updateRole(
+        existing,
+        { name, description, permissions },
+        req.permissions || []
+      );
+
+      logger.info("Role updated successfully", {
+        roleId: role.id,
+        userId: req.user.id,
+      });
+      return ResponseUtil.success(res, { role }, "Role updated successfully");
+    } catch (error: any) {
+      logger.error("Update role error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // DELETE /api/roles/:id
+  deleteRole = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const existing = await this.roleService.getRoleById(req.params.id);
+      if (!existing || existing.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Role not found");
+      }
+
+      const role = await this.roleService.deleteRole(existing);
+
+      logger.info("Role deleted successfully", {
+        roleId: role.id,
+        userId: req.user.id,
+      });
+      return ResponseUtil.success(res, { role }, "Role deleted successfully");
+    } catch (error: any) {
+      logger.error("Delete role error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+}
@@ -1,17 +1,38 @@
 import { Response } from "express";
+import { TruckEntrySerializer } from "../serializers/truckEntrySerializer";
+import { ChallanService } from "../services/challanService";
+import { CustomerService } from "../services/customerService";
 import { EntryTypeMaterialService } from "../services/entryTypeMaterialService";
+import { GstService } from "../services/gstService";
+import { ReportService } from "../services/reportService";
+import { TruckEntryImportService } from "../services/truckEntryImportService";
 import { TruckEntryService } from "../services/truckEntryService";
+import { VehicleService } from "../services/vehicleService";
 import { AuthenticatedRequest, TruckEntryFilters } from "../types";
+import { FieldVisibilityUtil } from "../utils/fieldVisibility";
+import { PermissionUtil } from "../utils/permissions";
 import { ResponseUtil } from "../utils/response";
 import { ValidationUtil } from "../utils/validation";
 
 export class TruckEntryController {
   private truckEntryService: TruckEntryService;
   private entryTypeMaterialService: EntryTypeMaterialService;
+  private customerService: CustomerService;
+  private vehicleService: VehicleService;
+  private challanService: ChallanService;
+  private reportService: ReportService;
+  private gstService: GstService;
+  private truckEntryImportService: TruckEntryImportService;
 
   constructor() {
     this.truckEntryService = new TruckEntryService();
     this.entryTypeMaterialService = new EntryTypeMaterialService();
+    this.customerService = new CustomerService();
+    this.vehicleService = new VehicleService();
+    this.challanService = new ChallanService();
+    this.reportService = new ReportService();
+    this.gstService = new GstService();
+    this.truckEntryImportService = new TruckEntryImportService();
   }
 
   getTruckEntries = async (req: AuthenticatedRequest, res: Response) => {
@@ -31,6 +52,11 @@ export class TruckEntryController {
         startDate: req.query.startDate as string,
         endDate: req.query.endDate as string,
         userId: req.query.userId as string,
+        paymentStatus: req.query.paymentStatus as string,
+        needsReview:
+          req.query.needsReview !== undefined
+            ? req.query.needsReview === "true"
+            : undefined,
       };
 
       const result = await this.truckEntryService.getTruckEntriesByOrganization(
@@ -40,7 +66,10 @@ export class TruckEntryController {
 
       return ResponseUtil.success(
         res,
-        result.entries,
+        FieldVisibilityUtil.apply(
+          req,
+          TruckEntrySerializer.toPublicList(result.entries)
+        ),
         "Truck entries retrieved successfully",
         200,
         result.pagination
@@ -74,7 +103,7 @@ export class TruckEntryController {
 
       return ResponseUtil.success(
         res,
-        { summary },
+        FieldVisibilityUtil.apply(req, { summary }),
         "Summary retrieved successfully"
       );
     } catch (error: any) {
@@ -90,115 +119,210 @@ export class TruckEntryController {
       }
 
       const {
-        truckNumber,
-        truckName,
         entryType,
         materialType, // Legacy field for backward compatibility
         entryTypeMaterialId, // New field using bridge table
+        customerId,
+        vehicleId,
         units,
+        grossWeight,
+        tareWeight,
         ratePerUnit,
+        priceOverrideReason,
+        paymentMode,
         notes,
         truckImage,
       }: any = req.body;
+      let { truckNumber, truckName }: any = req.body;
+
+      // A registered vehicle supplies the truck number; otherwise try to
+      // link the typed truck number to the vehicle registry
+      let vehicle = null;
+      if (vehicleId) {
+        vehicle = await this.vehicleService.getVehicleById(vehicleId);
+        if (
+          !vehicle ||
+          vehicle.organizationId !== req.organizationId ||
+          !vehicle.isActive
+        ) {
+          return ResponseUtil.badRequest(res, "Invalid vehicle");
+        }
+        truckNumber = vehicle.registrationNumber;
+      }
+
+      if (!truckNumber) {
+        return ResponseUtil.badRequest(
+          res,
+          "Either truckNumber or vehicleId is required"
+        );
+      }
+
+      // Linked customers supply the display name when truckName is omitted
+      if (customerId) {
+        const customer = await this.customerService.getCustomerById(customerId);
+        if (
+          !customer ||
+          customer.organizationId !== req.organizationId ||
+          !customer.isActive
+        ) {
+          return ResponseUtil.badRequest(res, "Invalid customer");
+        }
+        truckName = truckName || customer.name;
+      }
+
+      if (!truckName) {
+        return ResponseUtil.badRequest(
+          res,
+          "Either truckName or customerId is required"
+        );
+      }
 
       // Auto-generate entry date and time
       const now = new Date();
-      const entryDate = now;
+      const entryDate = await this.truckEntryService.getEntryDate(
+        req.organizationId,
+        now
+      );
       const entryTime = now;
 
       // Validate truck number format
-      const truckNumberRegex = /^[A-Z]{2}[0-9]{2}[A-Z]{1,2}[0-9]{4}$/;
-      if (!truckNumberRegex.test(truckNumber)) {
+      if (!ValidationUtil.validateTruckNumber(truckNumber)) {
         return ResponseUtil.badRequest(res, "Invalid truck number format");
       }
 
-      // Validate units and rate
-      const unitsValidation = ValidationUtil.validateDecimal(
-        units,
-        "units",
-        0.1
-      );
-      if (!unitsValidation.isValid) {
-        return ResponseUtil.badRequest(res, unitsValidation.message);
+      if (!vehicle) {
+        vehicle = await this.vehicleService.findByTruckNumber(
+          req.organizationId,
+          truckNumber
+        );
       }
 
-      const rateValidation = ValidationUtil.validateDecimal(
-        ratePerUnit,
-        "rate per unit",
-        1
-      );
-      if (!rateValidation.isValid) {
-        return ResponseUtil.badRequest(res, rateValidation.message);
+      // Weighed entries get their billed units from gross and tare weights
+      const weighed = grossWeight !== undefined || tareWeight !== undefined;
+      let unitsValue: number | undefined;
+      let grossWeightValue: number | undefined;
+      let tareWeightValue: number | undefined;
+
+      if (weighed) {
+        const grossValidation = ValidationUtil.validateDecimal(
+          grossWeight,
+          "gross weight",
+          0.001
+        );
+        if (!grossValidation.isValid) {
+          return ResponseUtil.badRequest(res, grossValidation.message);
+        }
+        const tareValidation = ValidationUtil.validateDecimal(
+          tareWeight,
+          "tare weight",
+          0
+        );
+        if (!tareValidation.isValid) {
+          return ResponseUtil.badRequest(res, tareValidation.message);
+        }
+        grossWeightValue = grossValidation.value;
+        tareWeightValue = tareValidation.value;
+      } else {
+        // Validate units
+        const unitsValidation = ValidationUtil.validateDecimal(
+          units,
+          "units",
+          0.1
+        );
+        if (!unitsValidation.isValid) {
+          return ResponseUtil.badRequest(res, unitsValidation.message);
+        }
+        unitsValue = unitsValidation.value;
       }
 
-      // Material validation for Sales entries
-      if (entryType === "Sales") {
-        // Check if using new bridge table approach or legacy approach
-        if (!entryTypeMaterialId && !materialType) {
+      // Entries are priced by the server unless a rate is given to override it
+      let rateValue: number | undefined;
+      if (
+        ratePerUnit !== undefined &&
+        ratePerUnit !== null &&
+        ratePerUnit !== ""
+      ) {
+        const rateValidation = ValidationUtil.validateDecimal(
+          ratePerUnit,
+          "rate per unit",
+          1
+        );
+        if (!rateValidation.isValid) {
+          return ResponseUtil.badRequest(res, rateValidation.message);
+        }
+        rateValue = rateValidation.value;
+      }
+
+      // Check if using new bridge table approach or legacy approach
+      if (entryType === "Sales" && !entryTypeMaterialId && !materialType) {
+        return ResponseUtil.badRequest(
+          res,
+          "Either entryTypeMaterialId or materialType is required for Sales entries"
+        );
+      }
+
+      // If using bridge table, validate the entry type material mapping
+      if (entryTypeMaterialId) {
+        const entryTypeMaterial =
+          await this.entryTypeMaterialService.getEntryTypeMaterialById(
+            entryTypeMaterialId
+          );
+        if (!entryTypeMaterial) {
           return ResponseUtil.badRequest(
             res,
-            "Either entryTypeMaterialId or materialType is required for Sales entries"
+            "Invalid entry type material mapping"
           );
         }
 
-        // If using bridge table, validate the entry type material mapping
-        if (entryTypeMaterialId) {
-          const entryTypeMaterial =
-            await this.entryTypeMaterialService.getEntryTypeMaterialById(
-              entryTypeMaterialId
-            );
-          if (!entryTypeMaterial) {
-            return ResponseUtil.badRequest(
-              res,
-              "Invalid entry type material mapping"
-            );
-          }
-
-          // Verify it belongs to the organization and matches the entry type
-          if (entryTypeMaterial.organizationId !== req.organizationId) {
-            return ResponseUtil.forbidden(
-              res,
-              "Material mapping not found for your organization"
-            );
-          }
-
-          if (entryTypeMaterial.entryType !== entryType) {
-            return ResponseUtil.badRequest(
-              res,
-              "Material mapping does not match the entry type"
-            );
-          }
+        // Verify it belongs to the organization and matches the entry type
+        if (entryTypeMaterial.organizationId !== req.organizationId) {
+          return ResponseUtil.forbidden(
+            res,
+            "Material mapping not found for your organization"
+          );
         }
-      }
 
-      // Calculate total amount for response
-      const calculatedTotalAmount =
-        unitsValidation.value! * rateValidation.value!;
+        if (entryTypeMaterial.entryType !== entryType) {
+          return ResponseUtil.badRequest(
+            res,
+            "Material mapping does not match the entry type"
+          );
+        }
+      }
 
-      const truckEntry = await this.truckEntryService.createTruckEntry({
-        organizationId: req.organizationId,
-        userId: req.user.id,
-        truckNumber,
-        truckName,
-        entryType,
-        materialType, // Keep for backward compatibility
-        entryTypeMaterialId, // New field for bridge table
-        units: unitsValidation.value!,
-        ratePerUnit: rateValidation.value!,
-        entryDate: entryDate,
-        entryTime: entryTime,
-        notes,
-        truckImage,
-      });
+      const { truckEntry, warnings } =
+        await this.truckEntryService.createTruckEntry({
+          organizationId: req.organizationId,
+          userId: req.user.id,
+          truckNumber,
+          truckName,
+          entryType,
+          materialType, // Keep for backward compatibility
+          entryTypeMaterialId, // New field for bridge table
+          customerId,
+          vehicleId: vehicle?.id,
+          units: unitsValue,
+          grossWeight: grossWeightValue,
+          tareWeight: tareWeightValue,
+          ratePerUnit: rateValue,
+          priceOverrideReason,
+          canOverridePrice: PermissionUtil.has(req, "entries:override-price"),
+          paymentMode,
+          entryDate: entryDate,
+          entryTime: entryTime,
+          notes,
+          truckImage,
+        });
 
       return ResponseUtil.success(
         res,
-        {
+        FieldVisibilityUtil.apply(req, {
           truckEntry: {
-            ...truckEntry,
-            calculatedTotal: calculatedTotalAmount,
+            ...TruckEntrySerializer.toPublic(truckEntry),
+            calculatedTotal: Number(truckEntry.totalAmount),
           },
-        },
+          warnings,
+        }),
         "Truck entry created successfully",
         201
       );
@@ -208,6 +332,55 @@ export class TruckEntryController {
     }
   };
 
+  // Accepts the CSV as a text/csv body or as the "csv" field of a JSON body.
+  // Rows are only validated unless dryRun is "false".
+  importTruckEntries = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const body = typeof req.body === "string" ? { csv: req.body } : req.body;
+      const csv = body?.csv;
+      const entryType = body?.entryType ?? req.query.entryType;
+      const dryRun = String(body?.dryRun ?? req.query.dryRun) !== "false";
+
+      if (!csv || typeof csv !== "string") {
+        return ResponseUtil.badRequest(res, "CSV content is required");
+      }
+      if (entryType !== "Sales" && entryType !== "RawStone") {
+        return ResponseUtil.badRequest(
+          res,
+          "Entry type must be 'Sales' or 'RawStone'"
+        );
+      }
+
+      const result = await this.truckEntryImportService.importEntries(
+        req.organizationId,
+        req.user.id,
+        csv,
+        {
+          entryType,
+          dryRun,
+          priceOverrideReason: body?.priceOverrideReason,
+          canOverridePrice: PermissionUtil.has(req, "entries:override-price"),
+        }
+      );
+
+      return ResponseUtil.success(
+        res,
+        FieldVisibilityUtil.apply(req, result),
+        dryRun
+          ? "Import validated; no entries were saved"
+          : `${result.importedCount} truck entries imported successfully`,
+        dryRun ? 200 : 201
+      );
+    } catch (error: any) {
+      console.error("Import truck entries error:", error);
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
   getTruckEntryById = async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { id } = req.params;
@@ -224,12 +397,15 @@ export class TruckEntryController {
 
       // Check if user has access to this truck entry
       if (truckEntry.organizationId !== req.organizationId) {
-        return ResponseUtil.forbidden(res, "Access denied");
+        return ResponseUtil.notFound(res, "Truck entry not found");
       }
 
       return ResponseUtil.success(
         res,
-        truckEntry,
+        FieldVisibilityUtil.apply(
+          req,
+          TruckEntrySerializer.toPublic(truckEntry)
+        ),
         "Truck entry retrieved successfully"
       );
     } catch (error: any) {
@@ -238,6 +414,67 @@ export class TruckEntryController {
     }
   };
 
+  getChallanPdf = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const truckEntry = await this.truckEntryService.getTruckEntryById(id);
+      if (!truckEntry || truckEntry.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Truck entry not found");
+      }
+      if (truckEntry.entryType !== "Sales") {
+        return ResponseUtil.badRequest(
+          res,
+          "Challans are only issued for sales entries"
+        );
+      }
+
+      const entry = await this.challanService.ensureChallanNumber(truckEntry);
+      const content = await this.reportService.generateChallanPdf(
+        entry,
+        FieldVisibilityUtil.canViewFinancials(req)
+      );
+
+      return this.sendDocument(res, content, `challan-${entry.challanNumber}`);
+    } catch (error: any) {
+      console.error("Challan generation error:", error);
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  getInvoicePdf = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const truckEntry = await this.truckEntryService.getTruckEntryById(id);
+      if (!truckEntry || truckEntry.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Truck entry not found");
+      }
+      if (truckEntry.entryType !== "Sales") {
+        return ResponseUtil.badRequest(
+          res,
+          "Tax invoices are only issued for sales entries"
+        );
+      }
+
+      const entry = await this.gstService.ensureInvoiceNumber(truckEntry);
+      const content = await this.reportService.generateInvoicePdf(entry);
+
+      return this.sendDocument(res, content, `invoice-${entry.invoiceNumber}`);
+    } catch (error: any) {
+      console.error("Invoice generation error:", error);
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
   updateTruckEntry = async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { id } = req.params;
@@ -254,11 +491,14 @@ export class TruckEntryController {
 
       // Check access permissions
       if (existingEntry.organizationId !== req.organizationId) {
-        return ResponseUtil.forbidden(res, "Access denied");
+        return ResponseUtil.notFound(res, "Truck entry not found");
       }
 
-      // Users can only edit their own entries, owners can edit any
-      if (req.user.role !== "owner" && existingEntry.userId !== req.user.id) {
+      // Editing someone else's entry takes entries:edit-others
+      if (
+        existingEntry.userId !== req.user.id &&
+        !PermissionUtil.has(req, "entries:edit-others")
+      ) {
         return ResponseUtil.forbidden(
           res,
           "You can only edit your own entries"
@@ -272,14 +512,43 @@ export class TruckEntryController {
       // Remove entryDate from updateData if provided - it should not be changed on update
       delete updateData.entryDate;
 
+      if (updateData.customerId) {
+        const customer = await this.customerService.getCustomerById(
+          updateData.customerId
+        );
+        if (!customer || customer.organizationId !== req.organizationId) {
+          return ResponseUtil.badRequest(res, "Invalid customer");
+        }
+      }
+
+      if (updateData.vehicleId) {
+        const vehicle = await this.vehicleService.getVehicleById(
+          updateData.vehicleId
+        );
+        if (!vehicle || vehicle.organizationId !== req.organizationId) {
+          return ResponseUtil.badRequest(res, "Invalid vehicle");
+        }
+        updateData.truckNumber = vehicle.registrationNumber;
+      } else if (updateData.truckNumber && updateData.vehicleId === undefined) {
+        // Keep the registry link in sync with an edited truck number
+        const vehicle = await this.vehicleService.findByTruckNumber(
+          req.organizationId,
+          updateData.truckNumber
+        );
+        updateData.vehicleId = vehicle ? vehicle.id : null;
+      }
+
       const truckEntry = await this.truckEntryService.updateTruckEntry(
         id,
-        updateData
+        updateData,
+        PermissionUtil.has(req, "entries:override-price")
       );
 
       return ResponseUtil.success(
         res,
-        { truckEntry },
+        FieldVisibilityUtil.apply(req, {
+          truckEntry: TruckEntrySerializer.toPublic(truckEntry),
+        }),
         "Truck entry updated successfully"
       );
     } catch (error: any) {
@@ -288,6 +557,41 @@ export class TruckEntryController {
     }
   };
 
+  reviewTruckEntry = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const existingEntry = await this.truckEntryService.getTruckEntryById(id);
+      if (
+        !existingEntry ||
+        existingEntry.organizationId !== req.organizationId
+      ) {
+        return ResponseUtil.notFound(res, "Truck entry not found");
+      }
+
+      const truckEntry = await this.truckEntryService.reviewTruckEntry(
+        id,
+        req.user.id
+      );
+
+      return ResponseUtil.success(
+        res,
+        FieldVisibilityUtil.apply(
+          req,
+          TruckEntrySerializer.toPublic(truckEntry)
+        ),
+        "Truck entry price reviewed successfully"
+      );
+    } catch (error: any) {
+      console.error("Review truck entry error:", error);
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
   deleteTruckEntry = async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { id } = req.params;
@@ -303,23 +607,31 @@ export class TruckEntryController {
 
       // Check access permissions
       if (existingEntry.organizationId !== req.organizationId) {
-        return ResponseUtil.forbidden(res, "Access denied");
+        return ResponseUtil.notFound(res, "Truck entry not found");
       }
 
-      // Users can only delete their own entries, owners can delete any
-      if (req.user.role !== "owner" && existingEntry.userId !== req.user.id) {
+      // Deleting someone else's entry takes entries:edit-others
+      if (
+        existingEntry.userId !== req.user.id &&
+        !PermissionUtil.has(req, "entries:edit-others")
+      ) {
         return ResponseUtil.forbidden(
           res,
           "You can only delete your own entries"
         );
       }
 
-      await this.truckEntryService.deleteTruckEntry(id);
+      const reason = req.body?.reason ?? req.query.reason;
+      await this.truckEntryService.deleteTruckEntry(
+        id,
+        req.user.id,
+        reason as string
+      );
 
       return ResponseUtil.success(
         res,
         null,
-        "Truck entry deleted successfully"
+        "Truck entry moved to trash successfully"
       );
     } catch (error: any) {
       console.error("Delete truck entry error:", error);
@@ -327,6 +639,103 @@ export class TruckEntryController {
     }
   };
 
+  getDeletedTruckEntries = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const result = await this.truckEntryService.getDeletedTruckEntries(
+        req.organizationId,
+        {
+          page: req.query.page ? parseInt(req.query.page as string) : 1,
+          limit: req.query.limit ? parseInt(req.query.limit as string) : 10,
+        }
+      );
+
+      return ResponseUtil.success(
+        res,
+        FieldVisibilityUtil.apply(
+          req,
+          TruckEntrySerializer.toPublicList(result.entries)
+        ),
+        "Deleted truck entries retrieved successfully",
+        200,
+        result.pagination
+      );
+    } catch (error: any) {
+      console.error("Get deleted truck entries error:", error);
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  restoreTruckEntry = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const existingEntry = await this.truckEntryService.getTruckEntryById(id);
+      if (
+        !existingEntry ||
+        existingEntry.organizationId !== req.organizationId
+      ) {
+        return ResponseUtil.notFound(res, "Truck entry not found");
+      }
+
+      // Same rule as deleting
+      if (
+        existingEntry.userId !== req.user.id &&
+        !PermissionUtil.has(req, "entries:edit-others")
+      ) {
+        return ResponseUtil.forbidden(
+          res,
+          "You can only restore your own entries"
+        );
+      }
+
+      const truckEntry = await this.truckEntryService.restoreTruckEntry(id);
+
+      return ResponseUtil.success(
+        res,
+        FieldVisibilityUtil.apply(
+          req,
+          TruckEntrySerializer.toPublic(truckEntry)
+        ),
+        "Truck entry restored successfully"
+      );
+    } catch (error: any) {
+      console.error("Restore truck entry error:", error);
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  purgeDeletedTruckEntries = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const result = await this.truckEntryService.purgeDeletedTruckEntries(
+        req.organizationId
+      );
+
+      return ResponseUtil.success(
+        res,
+        result,
+        `${result.purged} deleted truck entries permanently removed`
+      );
+    } catch (error: any) {
+      console.error("Purge deleted truck entries error:", error);
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
   // GET /api/truck-entries/entry-types - Get available entry types
   getEntryTypes = async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -359,4 +768,15 @@ export class TruckEntryController {
       return ResponseUtil.error(res, error.message);
     }
   };
+
+  // Puppeteer may be unavailable, in which case the HTML version is returned
+  private sendDocument(res: Response, content: Buffer, name: string) {
+    const isPdf = content.subarray(0, 5).toString("utf8") === "%PDF-";
+    const filename = `${name.replace(/\//g, "-")}.${isPdf ? "pdf" : "html"}`;
+
+    res.setHeader("Content-Type", isPdf ? "application/pdf" : "text/html");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.setHeader("Content-Length", content.length);
+    return res.send(content);
+  }
 }
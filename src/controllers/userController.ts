@@ -1,31 +1,51 @@
 import { Response } from "express";
+import { PasswordResetService } from "../services/passwordResetService";
+import { RoleService } from "../services/roleService";
 import { UserService } from "../services/userService";
+import { UserSerializer } from "../serializers/userSerializer";
 import { AuthenticatedRequest, UserFilters } from "../types";
 import { logger } from "../utils/logger";
+import { PermissionUtil } from "../utils/permissions";
 import { ResponseUtil } from "../utils/response";
 
 export class UserController {
+  private passwordResetService: PasswordResetService;
+  private roleService: RoleService;
   private userService: UserService;
 
   constructor() {
+    this.passwordResetService = new PasswordResetService();
+    this.roleService = new RoleService();
     this.userService = new UserService();
   }
 
   createUser = async (req: AuthenticatedRequest, res: Response) => {
     logger.info("Create user request received", { userId: req.user?.id });
     try {
-      const { username, password, role, organizationId, profileImage } =
-        req.body;
+      const { username, password, role, profileImage } = req.body;
 
-      if (!req.user) {
+      if (!req.user || !req.organizationId) {
         return ResponseUtil.unauthorized(res, "Authentication required");
       }
 
-      // Only owners can create users for their organization
-      if (req.user.role !== "owner") {
+      if (!PermissionUtil.has(req, "users:manage")) {
+        return ResponseUtil.forbidden(
+          res,
+          "You do not have permission to create users"
+        );
+      }
+
+      // New users cannot get more access than their creator has
+      const missingPermissions = PermissionUtil.missing(
+        req.permissions || [],
+        PermissionUtil.forRole(role || "user")
+      );
+      if (missingPermissions.length > 0) {
         return ResponseUtil.forbidden(
           res,
-          "Only organization owners can create users"
+          `You cannot grant permissions you do not hold: ${missingPermissions.join(
+            ", "
+          )}`
         );
       }
 
@@ -36,17 +56,15 @@ export class UserController {
         username,
         passwordHash,
         role,
-        organizationId: organizationId || req.organizationId,
+        // Users are always created in the caller's own organization
+        organizationId: req.organizationId,
         profileImage,
       });
 
-      // Remove password hash from response
-      const { passwordHash: _, ...userResponse } = user;
-
       logger.info("User created successfully", { userId: user.id });
       return ResponseUtil.success(
         res,
-        userResponse,
+        UserSerializer.toPublic(user),
         "User created successfully",
         201
       );
@@ -66,11 +84,12 @@ export class UserController {
         return ResponseUtil.unauthorized(res, "Authentication required");
       }
 
-      // Users can view their own profile or owners can view users in their organization
+      // Users can view their own profile, users:view covers the organization
       const hasAccess = await this.userService.validateUserAccess(
         req.user.id,
         id,
-        req.organizationId
+        req.organizationId,
+        PermissionUtil.has(req, "users:view")
       );
 
       if (!hasAccess) {
@@ -83,13 +102,10 @@ export class UserController {
         return ResponseUtil.notFound(res, "User not found");
       }
 
-      // Remove password hash from response
-      const { passwordHash: _, ...userResponse } = user;
-
       logger.info("User retrieved successfully", { userId: user.id });
       return ResponseUtil.success(
         res,
-        userResponse,
+        UserSerializer.toPublic(user),
         "User retrieved successfully"
       );
     } catch (error: any) {
@@ -112,13 +128,10 @@ export class UserController {
         return ResponseUtil.notFound(res, "User not found");
       }
 
-      // Remove password hash from response
-      const { passwordHash: _, ...userResponse } = user;
-
       logger.info("Current user retrieved successfully", { userId: user.id });
       return ResponseUtil.success(
         res,
-        userResponse,
+        UserSerializer.toPublic(user),
         "Current user retrieved successfully"
       );
     } catch (error: any) {
@@ -135,8 +148,7 @@ export class UserController {
         return ResponseUtil.unauthorized(res, "Authentication required");
       }
 
-      // Only owners can view all users in their organization
-      if (req.user.role !== "owner") {
+      if (!PermissionUtil.has(req, "users:view")) {
         return ResponseUtil.forbidden(res, "Insufficient permissions");
       }
 
@@ -154,11 +166,7 @@ export class UserController {
 
       const result = await this.userService.getAllUsers(filters);
 
-      // Remove password hashes from response
-      const usersWithoutPasswords = result.users.map((user) => {
-        const { passwordHash: _, ...userResponse } = user;
-        return userResponse;
-      });
+      const publicUsers = UserSerializer.toPublicList(result.users);
 
       logger.info("All users retrieved successfully", {
         userId: req.user.id,
@@ -166,7 +174,7 @@ export class UserController {
       });
       return ResponseUtil.success(
         res,
-        usersWithoutPasswords,
+        publicUsers,
         "Users retrieved successfully",
         200,
         result.pagination
@@ -190,7 +198,10 @@ export class UserController {
       }
 
       // Users can only view users from their own organization
-      if (req.user.role !== "owner" || req.organizationId !== organizationId) {
+      if (
+        !PermissionUtil.has(req, "users:view") ||
+        req.organizationId !== organizationId
+      ) {
         return ResponseUtil.forbidden(res, "Access denied");
       }
 
@@ -198,11 +209,7 @@ export class UserController {
         organizationId
       );
 
-      // Remove password hashes from response
-      const usersWithoutPasswords = users.map((user) => {
-        const { passwordHash: _, ...userResponse } = user;
-        return userResponse;
-      });
+      const publicUsers = UserSerializer.toPublicList(users);
 
       logger.info("Organization users retrieved successfully", {
         userId: req.user.id,
@@ -210,7 +217,7 @@ export class UserController {
       });
       return ResponseUtil.success(
         res,
-        usersWithoutPasswords,
+        publicUsers,
         "Organization users retrieved successfully"
       );
     } catch (error: any) {
@@ -230,37 +237,51 @@ export class UserController {
         return ResponseUtil.unauthorized(res, "Authentication required");
       }
 
-      // Users can update their own profile or owners can update users in their organization
+      // Users can update their own profile, users:manage covers the organization
       const hasAccess = await this.userService.validateUserAccess(
         req.user.id,
         id,
-        req.organizationId
+        req.organizationId,
+        PermissionUtil.has(req, "users:manage")
       );
 
       if (!hasAccess) {
         return ResponseUtil.forbidden(res, "Access denied");
       }
 
-      // Only owners can change roles and active status
+      // Activation has its own endpoints, which protect the owner and sign
+      // deactivated users out
+      if (isActive !== undefined) {
+        return ResponseUtil.badRequest(
+          res,
+          "Use /api/users/:id/activate or /api/users/:id/deactivate to change isActive"
+        );
+      }
+
       const updateData: any = {};
 
       if (username !== undefined) updateData.username = username;
       if (profileImage !== undefined) updateData.profileImage = profileImage;
 
-      if (req.user.role === "owner") {
-        if (role !== undefined) updateData.role = role;
-        if (isActive !== undefined) updateData.isActive = isActive;
+      // Role changes go through the same checks as PUT /users/:id/role
+      if (role !== undefined && PermissionUtil.has(req, "roles:manage")) {
+        const target = await this.userService.getUserById(id);
+        if (target && target.role !== role) {
+          await this.roleService.assignRole(
+            target,
+            { role },
+            req.user,
+            req.permissions || []
+          );
+        }
       }
 
       const user = await this.userService.updateUser(id, updateData);
 
-      // Remove password hash from response
-      const { passwordHash: _, ...userResponse } = user;
-
       logger.info("User updated successfully", { userId: user.id });
       return ResponseUtil.success(
         res,
-        userResponse,
+        UserSerializer.toPublic(user),
         "User updated successfully"
       );
     } catch (error: any) {
@@ -318,23 +339,33 @@ export class UserController {
         return ResponseUtil.unauthorized(res, "Authentication required");
       }
 
-      // Only owners can deactivate users
-      if (req.user.role !== "owner") {
+      if (!PermissionUtil.has(req, "users:manage")) {
         return ResponseUtil.forbidden(
           res,
-          "Only organization owners can deactivate users"
+          "You do not have permission to deactivate users"
         );
       }
 
-      const user = await this.userService.deactivateUser(id);
+      const target = await this.userService.getUserById(id);
+      if (!target || target.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "User not found");
+      }
+      if (target.role === "owner" && !PermissionUtil.isOwner(req)) {
+        return ResponseUtil.forbidden(res, "The owner cannot be deactivated");
+      }
+      if (target.id === req.user.id) {
+        return ResponseUtil.badRequest(
+          res,
+          "You cannot deactivate your own account"
+        );
+      }
 
-      // Remove password hash from response
-      const { passwordHash: _, ...userResponse } = user;
+      const user = await this.userService.deactivateUser(id);
 
       logger.info("User deactivated successfully", { userId: user.id });
       return ResponseUtil.success(
         res,
-        userResponse,
+        UserSerializer.toPublic(user),
         "User deactivated successfully"
       );
     } catch (error: any) {
@@ -353,23 +384,27 @@ export class UserController {
         return ResponseUtil.unauthorized(res, "Authentication required");
       }
 
-      // Only owners can activate users
-      if (req.user.role !== "owner") {
+      if (!PermissionUtil.has(req, "users:manage")) {
         return ResponseUtil.forbidden(
           res,
-          "Only organization owners can activate users"
+          "You do not have permission to activate users"
         );
       }
 
-      const user = await this.userService.activateUser(id);
+      const target = await this.userService.getUserById(id);
+      if (!target || target.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "User not found");
+      }
+      if (target.role === "owner" && !PermissionUtil.isOwner(req)) {
+        return ResponseUtil.forbidden(res, "The owner cannot be activated");
+      }
 
-      // Remove password hash from response
-      const { passwordHash: _, ...userResponse } = user;
+      const user = await this.userService.activateUser(id);
 
       logger.info("User activated successfully", { userId: user.id });
       return ResponseUtil.success(
         res,
-        userResponse,
+        UserSerializer.toPublic(user),
         "User activated successfully"
       );
     } catch (error: any) {
@@ -378,4 +413,135 @@ export class UserController {
       return ResponseUtil.badRequest(res, error.message);
     }
   };
+
+  assignRole = async (req: AuthenticatedRequest, res: Response) => {
+    logger.info("Assign role request received", { userId: req.user?.id });
+    try {
+      const { id } = req.params;
+      const { role, roleId } = req.body;
+
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      if (!PermissionUtil.has(req, "roles:manage")) {
+        return ResponseUtil.forbidden(
+          res,
+          "You do not have permission to assign roles"
+        );
+      }
+
+      const target = await this.userService.getUserById(id);
+      if (!target || target.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "User not found");
+      }
+
+      const user = await this.roleService.assignRole(
+        target,
+        { role, roleId },
+        req.user,
+        req.permissions || []
+      );
+
+      logger.info("Role assigned successfully", { userId: user.id });
+      return ResponseUtil.success(
+        res,
+        {
+          ...UserSerializer.toPublic(user),
+          permissions: await this.roleService.getUserPermissions(user),
+        },
+        "Role assigned successfully"
+      );
+    } catch (error: any) {
+      logger.error("Assign role error", { error: error.message });
+      console.error("Assign role error:", error);
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  unlockUser = async (req: AuthenticatedRequest, res: Response) => {
+    logger.info("Unlock user request received", { userId: req.user?.id });
+    try {
+      const { id } = req.params;
+
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      if (!PermissionUtil.has(req, "users:manage")) {
+        return ResponseUtil.forbidden(
+          res,
+          "You do not have permission to unlock users"
+        );
+      }
+
+      const target = await this.userService.getUserById(id);
+      if (!target || target.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "User not found");
+      }
+
+      const user = await this.userService.unlockUser(id);
+
+      logger.info("User unlocked successfully", { userId: user.id });
+      return ResponseUtil.success(
+        res,
+        UserSerializer.toPublic(user),
+        "User unlocked successfully"
+      );
+    } catch (error: any) {
+      logger.error("Unlock user error", { error: error.message });
+      console.error("Unlock user error:", error);
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // POST /api/users/:id/reset-code - one-time code the member redeems at
+  // /api/auth/reset-password to set a new password themselves
+  createResetCode = async (req: AuthenticatedRequest, res: Response) => {
+    logger.info("Create password reset code request received", {
+      userId: req.user?.id,
+    });
+    try {
+      const { id } = req.params;
+
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      if (!PermissionUtil.isOwner(req)) {
+        return ResponseUtil.forbidden(
+          res,
+          "Only the owner can issue password reset codes"
+        );
+      }
+
+      const target = await this.userService.getUserById(id);
+      if (!target || target.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "User not found");
+      }
+
+      const resetCode = await this.passwordResetService.createResetCode(
+        req.organizationId,
+        target,
+        req.user.id
+      );
+
+      logger.info("Password reset code created successfully", {
+        userId: target.id,
+        expiresAt: resetCode.expiresAt,
+      });
+      return ResponseUtil.success(
+        res,
+        { userId: target.id, username: target.username, ...resetCode },
+        "Give this code to the user. It is only shown once",
+        201
+      );
+    } catch (error: any) {
+      logger.error("Create password reset code error", {
+        error: error.message,
+      });
+      console.error("Create password reset code error:", error);
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
 }
@@ -0,0 +1,245 @@
+import { Response } from "express";
+import { TruckEntrySerializer } from "../serializers/truckEntrySerializer";
+import { VehicleService } from "../services/vehicleService";
+import { AuthenticatedRequest, VehicleFilters } from "../types";
+import { FieldVisibilityUtil } from "../utils/fieldVisibility";
+import { logger } from "../utils/logger";
+import { ResponseUtil } from "../utils/response";
+
+export class VehicleController {
+  private vehicleService: VehicleService;
+
+  constructor() {
+    this.vehicleService = new VehicleService();
+  }
+
+  // GET /api/vehicles
+  getVehicles = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const filters: VehicleFilters = {
+        page: req.query.page ? parseInt(req.query.page as string) : 1,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 10,
+        sortBy: (req.query.sortBy as string) || "registrationNumber",
+        sortOrder: (req.query.sortOrder as "asc" | "desc") || "asc",
+        search: req.query.search as string,
+        isActive:
+          req.query.isActive !== undefined
+            ? req.query.isActive === "true"
+            : true,
+      };
+
+      const result = await this.vehicleService.getVehiclesByOrganization(
+        req.organizationId,
+        filters
+      );
+
+      return ResponseUtil.success(
+        res,
+        result.vehicles,
+        "Vehicles retrieved successfully",
+        200,
+        result.pagination
+      );
+    } catch (error: any) {
+      logger.error("Get vehicles error", { error: error.message });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  // GET /api/vehicles/search?q=KA01 - Auto-complete by registration number
+  searchVehicles = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const query = (req.query.q as string) || "";
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
+
+      const vehicles = await this.vehicleService.searchVehicles(
+        req.organizationId,
+        query,
+        isNaN(limit) ? 10 : limit
+      );
+
+      return ResponseUtil.success(
+        res,
+        { vehicles },
+        "Vehicles retrieved successfully"
+      );
+    } catch (error: any) {
+      logger.error("Search vehicles error", { error: error.message });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  // POST /api/vehicles
+  createVehicle = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const vehicle = await this.vehicleService.createVehicle(
+        req.organizationId,
+        this.extractVehicleInput(req.body)
+      );
+
+      logger.info("Vehicle created successfully", {
+        vehicleId: vehicle.id,
+        userId: req.user.id,
+      });
+      return ResponseUtil.success(
+        res,
+        { vehicle },
+        "Vehicle created successfully",
+        201
+      );
+    } catch (error: any) {
+      logger.error("Create vehicle error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // GET /api/vehicles/:id
+  getVehicleById = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const vehicle = await this.vehicleService.getVehicleById(req.params.id);
+      if (!vehicle || vehicle.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Vehicle not found");
+      }
+
+      return ResponseUtil.success(
+        res,
+        { vehicle },
+        "Vehicle retrieved successfully"
+      );
+    } catch (error: any) {
+      logger.error("Get vehicle error", { error: error.message });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  // PUT /api/vehicles/:id
+  updateVehicle = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const existing = await this.vehicleService.getVehicleById(req.params.id);
+      if (!existing || existing.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Vehicle not found");
+      }
+
+      const vehicle = await this.vehicleService.updateVehicle(
+        existing.id,
+        this.extractVehicleInput(req.body)
+      );
+
+      return ResponseUtil.success(
+        res,
+        { vehicle },
+        "Vehicle updated successfully"
+      );
+    } catch (error: any) {
+      logger.error("Update vehicle error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // DELETE /api/vehicles/:id (deactivates the vehicle)
+  deleteVehicle = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const existing = await this.vehicleService.getVehicleById(req.params.id);
+      if (!existing || existing.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Vehicle not found");
+      }
+
+      await this.vehicleService.deactivateVehicle(existing.id);
+
+      return ResponseUtil.success(res, null, "Vehicle deleted successfully");
+    } catch (error: any) {
+      logger.error("Delete vehicle error", { error: error.message });
+      return ResponseUtil.badRequest(res, error.message);
+    }
+  };
+
+  // GET /api/vehicles/:id/trips
+  getVehicleTrips = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        return ResponseUtil.unauthorized(res, "Authentication required");
+      }
+
+      const vehicle = await this.vehicleService.getVehicleById(req.params.id);
+      if (!vehicle || vehicle.organizationId !== req.organizationId) {
+        return ResponseUtil.notFound(res, "Vehicle not found");
+      }
+
+      const history = await this.vehicleService.getTripHistory(vehicle, {
+        page: req.query.page ? parseInt(req.query.page as string) : 1,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 10,
+        startDate: req.query.startDate
+          ? new Date(req.query.startDate as string)
+          : undefined,
+        endDate: req.query.endDate
+          ? new Date(req.query.endDate as string)
+          : undefined,
+      });
+
+      // Trip amounts and the summary total are financial fields
+      return ResponseUtil.success(
+        res,
+        FieldVisibilityUtil.apply(req, {
+          vehicle: history.vehicle,
+          summary: history.summary,
+          trips: TruckEntrySerializer.toPublicList(history.trips),
+        }),
+        "Vehicle trip history retrieved successfully",
+        200,
+        history.pagination
+      );
+    } catch (error: any) {
+      logger.error("Get vehicle trips error", { error: error.message });
+      return ResponseUtil.error(res, error.message);
+    }
+  };
+
+  private extractVehicleInput(body: any) {
+    const {
+      registrationNumber,
+      vehicleClass,
+      defaultDriver,
+      ownerName,
+      loadCapacity,
+      notes,
+    } = body;
+
+    return {
+      registrationNumber,
+      vehicleClass,
+      defaultDriver,
+      ownerName,
+      loadCapacity:
+        loadCapacity === undefined
+          ? undefined
+          : loadCapacity === null || loadCapacity === ""
+          ? null
+          : Number(loadCapacity),
+      notes,
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import { ApiKey, Prisma } from "@prisma/client";
+import { prisma } from "../utils/database";
+import { logger } from "../utils/logger";
+
+const apiKeyInclude = {
+  createdBy: { select: { id: true, username: true } },
+};
+
+export class ApiKeyDAO {
+  async create(data: Prisma.ApiKeyCreateInput): Promise<ApiKey> {
+    const result = await prisma.apiKey.create({
+      data,
+      include: apiKeyInclude,
+    });
+    logger.info("API key created in DAO", {
+      apiKeyId: result.id,
+      organizationId: result.organizationId,
+    });
+    return result;
+  }
+
+  async findById(id: string): Promise<ApiKey | null> {
+    return await prisma.apiKey.findUnique({
+      where: { id },
+      include: apiKeyInclude,
+    });
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKey | null> {
+    return await prisma.apiKey.findUnique({ where: { keyHash } });
+  }
+
+  async findByOrganization(
+    organizationId: string,
+    includeRevoked: boolean
+  ): Promise<ApiKey[]> {
+    return await prisma.apiKey.findMany({
+      where: {
+        organizationId,
+        ...(!includeRevoked && { revokedAt: null }),
+      },
+      include: apiKeyInclude,
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  async recordUse(id: string): Promise<void> {
+    await prisma.apiKey.update({
+      where: { id },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  async revoke(id: string): Promise<ApiKey> {
+    return await prisma.apiKey.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+      include: apiKeyInclude,
+    });
+  }
+}
@@ -0,0 +1,55 @@
+import { AuditLog, Prisma } from "@prisma/client";
+import { AuditLogFilters } from "../types";
+import { prisma } from "../utils/database";
+
+const auditLogInclude = {
+  user: { select: { id: true, username: true } },
+};
+
+export class AuditLogDAO {
+  async create(data: Prisma.AuditLogCreateInput): Promise<AuditLog> {
+    return await prisma.auditLog.create({ data });
+  }
+
+  async findAll(
+    filters: AuditLogFilters
+  ): Promise<{ logs: AuditLog[]; total: number }> {
+    const {
+      page = 1,
+      limit = 10,
+      organizationId,
+      entityType,
+      entityId,
+      userId,
+      action,
+      startDate,
+      endDate,
+    } = filters;
+
+    const where: Prisma.AuditLogWhereInput = {};
+    if (organizationId) where.organizationId = organizationId;
+    if (entityType) where.entityType = entityType;
+    if (entityId) where.entityId = entityId;
+    if (userId) where.userId = userId;
+    if (action) where.action = action;
+    if (startDate || endDate) {
+      where.createdAt = {
+        ...(startDate && { gte: new Date(startDate) }),
+        ...(endDate && { lte: new Date(endDate) }),
+      };
+    }
+
+    const [logs, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        include: auditLogInclude,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    return { logs, total };
+  }
+}
@@ -0,0 +1,146 @@
+import { Customer, Prisma } from "@prisma/client";
+import { CustomerFilters } from "../types";
+import { prisma } from "../utils/database";
+import { logger } from "../utils/logger";
+
+export class CustomerDAO {
+  async create(data: Prisma.CustomerCreateInput): Promise<Customer> {
+    logger.info("Creating customer in DAO", { name: data.name });
+    const result = await prisma.customer.create({ data });
+    logger.info("Customer created successfully in DAO", {
+      customerId: result.id,
+    });
+    return result;
+  }
+
+  async findById(id: string): Promise<Customer | null> {
+    return await prisma.customer.findUnique({
+      where: { id },
+    });
+  }
+
+  async findByOrganizationAndName(
+    organizationId: string,
+    name: string
+  ): Promise<Customer | null> {
+    return await prisma.customer.findFirst({
+      where: {
+        organizationId,
+        name: { equals: name, mode: "insensitive" },
+      },
+    });
+  }
+
+  async findByOrganizationId(
+    organizationId: string,
+    filters: CustomerFilters
+  ): Promise<{ customers: Customer[]; total: number }> {
+    const {
+      page = 1,
+      limit = 10,
+      sortBy = "name",
+      sortOrder = "asc",
+      search,
+      isActive,
+    } = filters;
+
+    const skip = (page - 1) * limit;
+    const where: Prisma.CustomerWhereInput = { organizationId };
+
+    if (typeof isActive === "boolean") where.isActive = isActive;
+    if (search) {
+      where.OR = [
+        { name: { contains: search, mode: "insensitive" } },
+        { phone: { contains: search } },
+        { gstin: { contains: search, mode: "insensitive" } },
+      ];
+    }
+
+    const [customers, total] = await Promise.all([
+      prisma.customer.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { [sortBy]: sortOrder },
+      }),
+      prisma.customer.count({ where }),
+    ]);
+
+    return { customers, total };
+  }
+
+  async update(
+    id: string,
+    data: Prisma.CustomerUpdateInput
+  ): Promise<Customer> {
+    logger.info("Updating customer in DAO", { id });
+    return await prisma.customer.update({
+      where: { id },
+      data,
+    });
+  }
+
+  async checkNameExists(
+    organizationId: string,
+    name: string,
+    excludeId?: string
+  ): Promise<boolean> {
+    const customer = await prisma.customer.findFirst({
+      where: {
+        organizationId,
+        name: { equals: name, mode: "insensitive" },
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+    });
+    return !!customer;
+  }
+
+  async findLedgerEntries(customerId: string, endDate?: Date): Promise<any[]> {
+    return await prisma.truckEntry.findMany({
+      where: {
+        customerId,
+        entryType: "Sales",
+        status: "active",
+        ...(endDate && { entryDate: { lte: endDate } }),
+      },
+      orderBy: [{ entryDate: "asc" }, { createdAt: "asc" }],
+      include: { paymentAllocations: { select: { amount: true } } },
+    });
+  }
+
+  async findUnlinkedTruckNames(
+    organizationId: string
+  ): Promise<{ truckName: string; count: number }[]> {
+    const groups = await prisma.truckEntry.groupBy({
+      by: ["truckName"],
+      where: {
+        organizationId,
+        entryType: "Sales",
+        status: "active",
+        customerId: null,
+      },
+      _count: { _all: true },
+    });
+
+    return groups.map((group) => ({
+      truckName: group.truckName,
+      count: group._count._all,
+    }));
+  }
+
+  async linkEntriesByTruckName(
+    organizationId: string,
+    truckNames: string[],
+    customerId: string
+  ): Promise<{ count: number }> {
+    return await prisma.truckEntry.updateMany({
+      where: {
+        organizationId,
+        entryType: "Sales",
+        customerId: null,
+        truckName: { in: truckNames },
+      },
+      data: { customerId },
+    });
+  }
+}
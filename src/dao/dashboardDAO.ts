@@ -13,6 +13,7 @@ export class DashboardDAO {
   ) {
     const truckEntryWhereClause: Prisma.TruckEntryWhereInput = {
       organizationId,
+      status: "active",
       ...(startDate &&
         endDate && {
           createdAt: {
@@ -184,6 +185,7 @@ export class DashboardDAO {
   ) {
     const whereClause: Prisma.TruckEntryWhereInput = {
       organizationId,
+      status: "active",
       ...(startDate &&
         endDate && {
           createdAt: {
@@ -243,6 +245,7 @@ export class DashboardDAO {
       prisma.truckEntry.findMany({
         where: {
           organizationId,
+          status: "active",
         },
         orderBy: {
           createdAt: "desc",
@@ -279,6 +282,7 @@ export class DashboardDAO {
   ) {
     const whereClause: Prisma.TruckEntryWhereInput = {
       organizationId,
+      status: "active",
       ...(startDate &&
         endDate && {
           createdAt: {
@@ -317,6 +321,7 @@ export class DashboardDAO {
       by: ["createdAt"],
       where: {
         organizationId,
+        status: "active",
         createdAt: {
           gte: startDate,
           lte: endDate,
@@ -362,7 +367,7 @@ export class DashboardDAO {
     dateFilters?: TimezoneAwareDateRange,
     limit: number = 10
   ) {
-    const whereClause: any = { organizationId };
+    const whereClause: any = { organizationId, status: "active" };
 
     if (dateFilters) {
       whereClause.createdAt = {
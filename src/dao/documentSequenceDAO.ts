@@ -0,0 +1,103 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../utils/database";
+import { logger } from "../utils/logger";
+
+export type DocumentType = "challan" | "invoice";
+
+const DOCUMENT_FIELDS: Record<
+  DocumentType,
+  { number: "challanNumber" | "invoiceNumber"; issuedAt: string }
+> = {
+  challan: { number: "challanNumber", issuedAt: "challanIssuedAt" },
+  invoice: { number: "invoiceNumber", issuedAt: "invoiceIssuedAt" },
+};
+
+export class DocumentSequenceDAO {
+  // Takes the next number and stores it on the entry in one transaction, so a
+  // failure on either side leaves no gap and a number is never handed out twice
+  async assignDocumentNumber(
+    documentType: DocumentType,
+    truckEntryId: string,
+    organizationId: string,
+    financialYear: string,
+    formatNumber: (sequence: number) => string
+  ): Promise<string> {
+    const assign = () =>
+      this.assignInTransaction(
+        documentType,
+        truckEntryId,
+        organizationId,
+        financialYear,
+        formatNumber
+      );
+
+    try {
+      return await assign();
+    } catch (error) {
+      // Two requests taking the year's first number can both try to create
+      // the sequence row; the one that loses retries against the new row
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        logger.warn("Document sequence created concurrently, retrying", {
+          truckEntryId,
+          documentType,
+          financialYear,
+        });
+        return await assign();
+      }
+      throw error;
+    }
+  }
+
+  private async assignInTransaction(
+    documentType: DocumentType,
+    truckEntryId: string,
+    organizationId: string,
+    financialYear: string,
+    formatNumber: (sequence: number) => string
+  ): Promise<string> {
+    const fields = DOCUMENT_FIELDS[documentType];
+
+    return await prisma.$transaction(async (tx) => {
+      const sequence = await tx.documentSequence.upsert({
+        where: {
+          organizationId_documentType_financialYear: {
+            organizationId,
+            documentType,
+            financialYear,
+          },
+        },
+        create: {
+          organization: { connect: { id: organizationId } },
+          documentType,
+          financialYear,
+          lastNumber: 1,
+        },
+        update: { lastNumber: { increment: 1 } },
+      });
+
+      const documentNumber = formatNumber(sequence.lastNumber);
+
+      // Guard against a concurrent request numbering the same entry
+      const { count } = await tx.truckEntry.updateMany({
+        where: { id: truckEntryId, [fields.number]: null },
+        data: {
+          [fields.number]: documentNumber,
+          [fields.issuedAt]: new Date(),
+        },
+      });
+      if (count !== 1) {
+        throw new Error(`Truck entry already has a ${documentType} number`);
+      }
+
+      logger.info("Document number assigned in DAO", {
+        truckEntryId,
+        documentType,
+        documentNumber,
+      });
+      return documentNumber;
+    });
+  }
+}
@@ -1,6 +1,22 @@
+export * from "./apiKeyDAO";
+export * from "./auditLogDAO";
+export * from "./customerDAO";
+export * from "./documentSequenceDAO";
 export * from "./entryTypeMaterialDAO";
+export * from "./inviteDAO";
+export * from "./loginAttemptDAO";
 export * from "./materialRateDAO";
+export * from "./materialRateOverrideDAO";
+export * from "./materialRateVersionDAO";
 export * from "./organizationDAO";
 export * from "./otherExpenseDAO";
+export * from "./passwordResetCodeDAO";
+export * from "./paymentDAO";
+export * from "./reportExportDAO";
+export * from "./reportJobDAO";
+export * from "./roleDAO";
+export * from "./scheduledRateChangeDAO";
+export * from "./sessionDAO";
 export * from "./truckEntryDAO";
 export * from "./userDAO";
+export * from "./vehicleDAO";
@@ -0,0 +1,86 @@
+import { Invite, Prisma } from "@prisma/client";
+import { prisma } from "../utils/database";
+import { logger } from "../utils/logger";
+
+const inviteInclude = {
+  createdBy: { select: { id: true, username: true } },
+};
+
+export class InviteDAO {
+  async create(data: Prisma.InviteCreateInput): Promise<Invite> {
+    const result = await prisma.invite.create({
+      data,
+      include: inviteInclude,
+    });
+    logger.info("Invite created in DAO", {
+      inviteId: result.id,
+      organizationId: result.organizationId,
+    });
+    return result;
+  }
+
+  async findById(id: string): Promise<Invite | null> {
+    return await prisma.invite.findUnique({
+      where: { id },
+      include: inviteInclude,
+    });
+  }
+
+  async findByCode(code: string): Promise<Invite | null> {
+    return await prisma.invite.findUnique({ where: { code } });
+  }
+
+  async findByOrganization(
+    organizationId: string,
+    includeInactive: boolean
+  ): Promise<Invite[]> {
+    const where: Prisma.InviteWhereInput = { organizationId };
+    if (!includeInactive) {
+      where.revokedAt = null;
+      where.expiresAt = { gt: new Date() };
+    }
+
+    const invites = await prisma.invite.findMany({
+      where,
+      include: inviteInclude,
+      orderBy: { createdAt: "desc" },
+    });
+
+    // Used-up invites are no longer outstanding either
+    return includeInactive
+      ? invites
+      : invites.filter((invite) => invite.useCount < invite.maxUses);
+  }
+
+  // Takes one use of the invite. The update only matches while the use count
+  // is still the one the caller saw, so concurrent registrations cannot take
+  // more uses than the invite allows
+  async consume(id: string, seenUseCount: number): Promise<boolean> {
+    const { count } = await prisma.invite.updateMany({
+      where: {
+        id,
+        useCount: seenUseCount,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      data: { useCount: { increment: 1 } },
+    });
+    return count === 1;
+  }
+
+  // Gives back a use taken for a registration that then failed
+  async release(id: string): Promise<void> {
+    await prisma.invite.updateMany({
+      where: { id, useCount: { gt: 0 } },
+      data: { useCount: { decrement: 1 } },
+    });
+  }
+
+  async revoke(id: string): Promise<Invite> {
+    return await prisma.invite.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+      include: inviteInclude,
+    });
+  }
+}
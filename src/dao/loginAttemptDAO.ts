@@ -0,0 +1,66 @@
+import { LoginAttempt, Prisma } from "@prisma/client";
+import { LoginAttemptFilters } from "../types";
+import { prisma } from "../utils/database";
+
+export class LoginAttemptDAO {
+  async create(data: Prisma.LoginAttemptCreateInput): Promise<LoginAttempt> {
+    return await prisma.loginAttempt.create({ data });
+  }
+
+  // Attempts turned away by a lockout are left out, so retrying while
+  // blocked does not keep the block going
+  async countFailuresFromIp(ipAddress: string, since: Date): Promise<number> {
+    return await prisma.loginAttempt.count({
+      where: {
+        ipAddress,
+        success: false,
+        createdAt: { gte: since },
+        OR: [
+          { failureReason: null },
+          { failureReason: { notIn: ["ip_blocked", "account_locked"] } },
+        ],
+      },
+    });
+  }
+
+  async findAll(
+    filters: LoginAttemptFilters
+  ): Promise<{ attempts: LoginAttempt[]; total: number }> {
+    const {
+      page = 1,
+      limit = 10,
+      organizationId,
+      username,
+      userId,
+      ipAddress,
+      success,
+      startDate,
+      endDate,
+    } = filters;
+
+    const where: Prisma.LoginAttemptWhereInput = {};
+    if (organizationId) where.organizationId = organizationId;
+    if (username) where.username = username.toLowerCase();
+    if (userId) where.userId = userId;
+    if (ipAddress) where.ipAddress = ipAddress;
+    if (typeof success === "boolean") where.success = success;
+    if (startDate || endDate) {
+      where.createdAt = {
+        ...(startDate && { gte: new Date(startDate) }),
+        ...(endDate && { lte: new Date(endDate) }),
+      };
+    }
+
+    const [attempts, total] = await Promise.all([
+      prisma.loginAttempt.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.loginAttempt.count({ where }),
+    ]);
+
+    return { attempts, total };
+  }
+}
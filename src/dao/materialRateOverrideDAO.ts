@@ -0,0 +1,78 @@
+import { MaterialRateOverride, Prisma } from "@prisma/client";
+import { prisma } from "../utils/database";
+import { logger } from "../utils/logger";
+
+const materialRateOverrideInclude = {
+  customer: { select: { id: true, name: true } },
+  vehicle: { select: { id: true, registrationNumber: true } },
+  createdBy: { select: { id: true, username: true } },
+};
+
+export class MaterialRateOverrideDAO {
+  async create(
+    data: Prisma.MaterialRateOverrideCreateInput
+  ): Promise<MaterialRateOverride> {
+    const result = await prisma.materialRateOverride.create({
+      data,
+      include: materialRateOverrideInclude,
+    });
+    logger.info("Material rate override created in DAO", {
+      overrideId: result.id,
+      materialRateId: result.materialRateId,
+    });
+    return result;
+  }
+
+  async update(
+    id: string,
+    data: Prisma.MaterialRateOverrideUpdateInput
+  ): Promise<MaterialRateOverride> {
+    return await prisma.materialRateOverride.update({
+      where: { id },
+      data,
+      include: materialRateOverrideInclude,
+    });
+  }
+
+  async delete(id: string): Promise<MaterialRateOverride> {
+    return await prisma.materialRateOverride.delete({ where: { id } });
+  }
+
+  async findById(id: string): Promise<MaterialRateOverride | null> {
+    return await prisma.materialRateOverride.findUnique({
+      where: { id },
+      include: materialRateOverrideInclude,
+    });
+  }
+
+  // Customers' rates first, then vehicles'
+  async findByMaterialRate(
+    materialRateId: string
+  ): Promise<MaterialRateOverride[]> {
+    return await prisma.materialRateOverride.findMany({
+      where: { materialRateId },
+      include: materialRateOverrideInclude,
+      orderBy: [{ customerId: "asc" }, { vehicleId: "asc" }],
+    });
+  }
+
+  async findForCustomer(
+    materialRateId: string,
+    customerId: string
+  ): Promise<MaterialRateOverride | null> {
+    return await prisma.materialRateOverride.findFirst({
+      where: { materialRateId, customerId },
+      include: materialRateOverrideInclude,
+    });
+  }
+
+  async findForVehicle(
+    materialRateId: string,
+    vehicleId: string
+  ): Promise<MaterialRateOverride | null> {
+    return await prisma.materialRateOverride.findFirst({
+      where: { materialRateId, vehicleId },
+      include: materialRateOverrideInclude,
+    });
+  }
+}
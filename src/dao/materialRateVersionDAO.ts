@@ -0,0 +1,94 @@
+import { MaterialRate, MaterialRateVersion } from "@prisma/client";
+import { prisma } from "../utils/database";
+import { logger } from "../utils/logger";
+
+const materialRateVersionInclude = {
+  changedBy: { select: { id: true, username: true } },
+};
+
+export class MaterialRateVersionDAO {
+  // Closes the open version and opens one for the new rate. A material
+  // priced before versions were kept first gets a version for the rate it
+  // has had since it was created
+  async recordChange(
+    materialRate: MaterialRate,
+    ratePerUnit: number,
+    effectiveFrom: Date,
+    changedById?: string
+  ): Promise<MaterialRateVersion> {
+    const result = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.materialRateVersion.updateMany({
+        where: { materialRateId: materialRate.id, effectiveTo: null },
+        data: { effectiveTo: effectiveFrom },
+      });
+
+      if (
+        count === 0 &&
+        (await tx.materialRateVersion.count({
+          where: { materialRateId: materialRate.id },
+        })) === 0 &&
+        materialRate.createdAt < effectiveFrom
+      ) {
+        await tx.materialRateVersion.create({
+          data: {
+            organizationId: materialRate.organizationId,
+            materialRateId: materialRate.id,
+            ratePerUnit: materialRate.ratePerUnit,
+            effectiveFrom: materialRate.createdAt,
+            effectiveTo: effectiveFrom,
+          },
+        });
+      }
+
+      return await tx.materialRateVersion.create({
+        data: {
+          organizationId: materialRate.organizationId,
+          materialRateId: materialRate.id,
+          ratePerUnit,
+          effectiveFrom,
+          changedById,
+        },
+        include: materialRateVersionInclude,
+      });
+    });
+    logger.info("Material rate version recorded in DAO", {
+      materialRateId: materialRate.id,
+      versionId: result.id,
+    });
+    return result;
+  }
+
+  // Newest first
+  async findByMaterialRate(
+    materialRateId: string
+  ): Promise<MaterialRateVersion[]> {
+    return await prisma.materialRateVersion.findMany({
+      where: { materialRateId },
+      include: materialRateVersionInclude,
+      orderBy: [{ effectiveFrom: "desc" }, { createdAt: "desc" }],
+    });
+  }
+
+  async findInEffect(
+    materialRateId: string,
+    at: Date
+  ): Promise<MaterialRateVersion | null> {
+    return await prisma.materialRateVersion.findFirst({
+      where: {
+        materialRateId,
+        effectiveFrom: { lte: at },
+        OR: [{ effectiveTo: null }, { effectiveTo: { gt: at } }],
+      },
+      orderBy: [{ effectiveFrom: "desc" }, { createdAt: "desc" }],
+    });
+  }
+
+  async findEarliest(
+    materialRateId: string
+  ): Promise<MaterialRateVersion | null> {
+    return await prisma.materialRateVersion.findFirst({
+      where: { materialRateId },
+      orderBy: [{ effectiveFrom: "asc" }, { createdAt: "asc" }],
+    });
+  }
+}
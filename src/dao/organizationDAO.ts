@@ -3,13 +3,24 @@ import { PaginationParams } from "../types";
 import { prisma } from "../utils/database";
 import { logger } from "../utils/logger";
 
+// Members are loaded without their credentials
+const memberSelect = {
+  id: true,
+  username: true,
+  role: true,
+  roleId: true,
+  isActive: true,
+  lastLogin: true,
+  createdAt: true,
+};
+
 export class OrganizationDAO {
   async create(data: Prisma.OrganizationCreateInput): Promise<Organization> {
     logger.info("Creating organization in DAO", { data });
     const result = await prisma.organization.create({
       data,
       include: {
-        owner: true,
+        owner: { select: { id: true, username: true } },
         _count: {
           select: {
             users: true,
@@ -43,7 +54,7 @@ export class OrganizationDAO {
         // ownerId: systemOwnerId,
       },
       include: {
-        owner: true,
+        owner: { select: { id: true, username: true } },
         _count: {
           select: {
             users: true,
@@ -61,8 +72,8 @@ export class OrganizationDAO {
     const result = await prisma.organization.findUnique({
       where: { id },
       include: {
-        owner: true,
-        users: true,
+        owner: { select: { id: true, username: true } },
+        users: { select: memberSelect },
         _count: {
           select: {
             truckEntries: true,
@@ -85,8 +96,8 @@ export class OrganizationDAO {
     const result = await prisma.organization.findUnique({
       where: { ownerId },
       include: {
-        owner: true,
-        users: true,
+        owner: { select: { id: true, username: true } },
+        users: { select: memberSelect },
       },
     });
     if (result) {
@@ -120,7 +131,7 @@ export class OrganizationDAO {
         take: limit,
         orderBy: { [sortBy]: sortOrder },
         include: {
-          owner: true,
+          owner: { select: { id: true, username: true } },
           _count: {
             select: {
               users: true,
@@ -146,8 +157,8 @@ export class OrganizationDAO {
       where: { id },
       data,
       include: {
-        owner: true,
-        users: true,
+        owner: { select: { id: true, username: true } },
+        users: { select: memberSelect },
       },
     });
     logger.info("Organization updated successfully in DAO", { result });
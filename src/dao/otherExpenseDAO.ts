@@ -11,7 +11,7 @@ export class OtherExpenseDAO {
       data,
       include: {
         organization: true,
-        user: true,
+        user: { select: { id: true, username: true } },
       },
     });
 
@@ -26,7 +26,7 @@ export class OtherExpenseDAO {
       where: { id },
       include: {
         organization: true,
-        user: true,
+        user: { select: { id: true, username: true } },
       },
     });
 
@@ -78,7 +78,7 @@ export class OtherExpenseDAO {
         orderBy: { [sortBy]: sortOrder },
         include: {
           organization: true,
-          user: true,
+          user: { select: { id: true, username: true } },
         },
       }),
       prisma.otherExpense.count({ where }),
@@ -131,7 +131,7 @@ export class OtherExpenseDAO {
         orderBy: { [sortBy]: sortOrder },
         include: {
           organization: true,
-          user: true,
+          user: { select: { id: true, username: true } },
         },
       }),
       prisma.otherExpense.count({ where }),
@@ -156,7 +156,7 @@ export class OtherExpenseDAO {
       data,
       include: {
         organization: true,
-        user: true,
+        user: { select: { id: true, username: true } },
       },
     });
 
@@ -172,7 +172,7 @@ export class OtherExpenseDAO {
       where: { id },
       include: {
         organization: true,
-        user: true,
+        user: { select: { id: true, username: true } },
       },
     });
 
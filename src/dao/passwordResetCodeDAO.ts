@@ -0,0 +1,65 @@
+import { PasswordResetCode, Prisma } from "@prisma/client";
+import { prisma } from "../utils/database";
+import { logger } from "../utils/logger";
+
+export class PasswordResetCodeDAO {
+  async create(
+    data: Prisma.PasswordResetCodeCreateInput
+  ): Promise<PasswordResetCode> {
+    const result = await prisma.passwordResetCode.create({ data });
+    logger.info("Password reset code created in DAO", {
+      passwordResetCodeId: result.id,
+      userId: result.userId,
+    });
+    return result;
+  }
+
+  // The code the user can currently redeem, if any. Issuing a new code
+  // expires the earlier ones, so there is at most one
+  async findOutstandingForUser(
+    userId: string
+  ): Promise<PasswordResetCode | null> {
+    return await prisma.passwordResetCode.findFirst({
+      where: { userId, usedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  async expireOutstandingForUser(userId: string): Promise<number> {
+    const now = new Date();
+    const { count } = await prisma.passwordResetCode.updateMany({
+      where: { userId, usedAt: null, expiresAt: { gt: now } },
+      data: { expiresAt: now },
+    });
+    return count;
+  }
+
+  // Counts a wrong code against the outstanding one and expires it once
+  // the limit is reached
+  async recordFailedAttempt(
+    id: string,
+    maxAttempts: number
+  ): Promise<PasswordResetCode> {
+    const result = await prisma.passwordResetCode.update({
+      where: { id },
+      data: { attempts: { increment: 1 } },
+    });
+    if (result.attempts >= maxAttempts) {
+      return await prisma.passwordResetCode.update({
+        where: { id },
+        data: { expiresAt: new Date() },
+      });
+    }
+    return result;
+  }
+
+  // Marks the code used. Only matches while it is still outstanding, so two
+  // concurrent resets cannot both use it
+  async consume(id: string): Promise<boolean> {
+    const { count } = await prisma.passwordResetCode.updateMany({
+      where: { id, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() },
+    });
+    return count === 1;
+  }
+}
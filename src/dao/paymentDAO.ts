@@ -0,0 +1,263 @@
+import { Payment, PaymentMode, Prisma } from "@prisma/client";
+import { prisma, TransactionClient } from "../utils/database";
+import { GstUtil } from "../utils/gst";
+import { logger } from "../utils/logger";
+
+export interface AllocationInput {
+  truckEntryId: string;
+  amount: number;
+}
+
+export type PaymentWithAllocations = Payment & {
+  allocations: { truckEntryId: string; amount: Prisma.Decimal }[];
+};
+
+export class PaymentDAO {
+  async create(data: Prisma.PaymentCreateInput): Promise<Payment> {
+    logger.info("Creating payment in DAO", { amount: data.amount });
+    const result = await prisma.payment.create({ data });
+    logger.info("Payment created successfully in DAO", {
+      paymentId: result.id,
+    });
+    return result;
+  }
+
+  // Creates the payment and its allocations together so entry balances never
+  // drift from the payments recorded against them
+  async createWithAllocations(
+    data: Prisma.PaymentCreateInput,
+    allocations: AllocationInput[]
+  ): Promise<Payment> {
+    logger.info("Creating payment with allocations in DAO", {
+      amount: data.amount,
+      allocations: allocations.length,
+    });
+    const result = await prisma.$transaction(async (tx) => {
+      const payment = await tx.payment.create({ data });
+      await this.applyAllocations(tx, payment.id, allocations);
+      return payment;
+    });
+    logger.info("Payment created successfully in DAO", {
+      paymentId: result.id,
+    });
+    return result;
+  }
+
+  async createAllocations(
+    paymentId: string,
+    allocations: AllocationInput[]
+  ): Promise<void> {
+    logger.info("Allocating payment in DAO", {
+      paymentId,
+      allocations: allocations.length,
+    });
+    await prisma.$transaction(async (tx) => {
+      await this.applyAllocations(tx, paymentId, allocations);
+    });
+  }
+
+  async findById(id: string): Promise<Payment | null> {
+    return await prisma.payment.findUnique({
+      where: { id },
+      include: {
+        customer: { select: { id: true, name: true } },
+        allocations: {
+          include: {
+            truckEntry: {
+              select: {
+                id: true,
+                truckNumber: true,
+                materialType: true,
+                entryDate: true,
+                totalAmount: true,
+                cgstAmount: true,
+                sgstAmount: true,
+                igstAmount: true,
+                amountPaid: true,
+                paymentStatus: true,
+              },
+            },
+          },
+        },
+      },
+    });
+  }
+
+  async findByCustomerId(
+    customerId: string,
+    endDate?: Date
+  ): Promise<Payment[]> {
+    return await prisma.payment.findMany({
+      where: {
+        customerId,
+        ...(endDate && { paymentDate: { lte: endDate } }),
+      },
+      orderBy: [{ paymentDate: "asc" }, { createdAt: "asc" }],
+    });
+  }
+
+  async findByOrganizationId(
+    organizationId: string,
+    filters: {
+      page: number;
+      limit: number;
+      customerId?: string;
+      mode?: PaymentMode;
+      startDate?: Date;
+      endDate?: Date;
+    }
+  ): Promise<{ payments: Payment[]; total: number }> {
+    const where: Prisma.PaymentWhereInput = { organizationId };
+
+    if (filters.customerId) where.customerId = filters.customerId;
+    if (filters.mode) where.mode = filters.mode;
+    if (filters.startDate || filters.endDate) {
+      where.paymentDate = {};
+      if (filters.startDate) where.paymentDate.gte = filters.startDate;
+      if (filters.endDate) where.paymentDate.lte = filters.endDate;
+    }
+
+    const [payments, total] = await Promise.all([
+      prisma.payment.findMany({
+        where,
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+        orderBy: [{ paymentDate: "desc" }, { createdAt: "desc" }],
+        include: {
+          customer: { select: { id: true, name: true } },
+          allocations: { select: { truckEntryId: true, amount: true } },
+        },
+      }),
+      prisma.payment.count({ where }),
+    ]);
+
+    return { payments, total };
+  }
+
+  async findWithAllocations(where: {
+    organizationId?: string;
+    customerId?: string;
+  }): Promise<PaymentWithAllocations[]> {
+    return await prisma.payment.findMany({
+      where,
+      orderBy: [{ paymentDate: "asc" }, { createdAt: "asc" }],
+      include: {
+        allocations: { select: { truckEntryId: true, amount: true } },
+      },
+    });
+  }
+
+  // Active Sales entries that still have an unpaid balance, oldest first
+  async findOutstandingEntries(
+    organizationId: string,
+    filters: { customerId?: string; entryIds?: string[]; asOf?: Date } = {}
+  ): Promise<any[]> {
+    return await prisma.truckEntry.findMany({
+      where: {
+        organizationId,
+        entryType: "Sales",
+        status: "active",
+        paymentStatus: { in: ["unpaid", "partial"] },
+        ...(filters.customerId && { customerId: filters.customerId }),
+        ...(filters.entryIds && { id: { in: filters.entryIds } }),
+        ...(filters.asOf && { entryDate: { lte: filters.asOf } }),
+      },
+      orderBy: [{ entryDate: "asc" }, { createdAt: "asc" }],
+      include: {
+        customer: { select: { id: true, name: true } },
+      },
+    });
+  }
+
+  // Balances are checked by the service first, but only the row locks taken
+  // here stop two allocations made at the same time from both passing and
+  // overpaying an entry or allocating more than the payment
+  private async applyAllocations(
+    tx: TransactionClient,
+    paymentId: string,
+    allocations: AllocationInput[]
+  ): Promise<void> {
+    if (allocations.length === 0) {
+      return;
+    }
+
+    await tx.$queryRaw`SELECT id FROM payments WHERE id = ${paymentId} FOR UPDATE`;
+    const payment = await tx.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      include: { allocations: { select: { amount: true } } },
+    });
+    const allocated = payment.allocations.reduce(
+      (sum, allocation) => sum + Number(allocation.amount),
+      0
+    );
+    const requested = allocations.reduce(
+      (sum, allocation) => sum + allocation.amount,
+      0
+    );
+    const available = GstUtil.round(Number(payment.amount) - allocated);
+    if (GstUtil.round(requested) > available) {
+      throw new Error(
+        `Allocations total ${GstUtil.round(
+          requested
+        )} exceeds the available ${available}`
+      );
+    }
+
+    // Entries are locked in a fixed order so concurrent allocations over the
+    // same entries cannot deadlock
+    const entryIds = allocations.map((allocation) => allocation.truckEntryId);
+    await tx.$queryRaw`SELECT id FROM truck_entries WHERE id IN (${Prisma.join(
+      [...entryIds].sort()
+    )}) ORDER BY id FOR UPDATE`;
+    const entries = await tx.truckEntry.findMany({
+      where: { id: { in: entryIds } },
+    });
+    const entriesById = new Map(entries.map((entry) => [entry.id, entry]));
+    for (const allocation of allocations) {
+      const entry = entriesById.get(allocation.truckEntryId);
+      if (!entry) {
+        throw new Error(`Entry ${allocation.truckEntryId} not found`);
+      }
+      const outstanding = GstUtil.round(
+        GstUtil.getInvoiceTotal(entry) - Number(entry.amountPaid)
+      );
+      if (allocation.amount > outstanding) {
+        throw new Error(
+          `Allocation for entry ${entry.id} exceeds its outstanding ${outstanding}`
+        );
+      }
+    }
+
+    for (const allocation of allocations) {
+      await tx.paymentAllocation.upsert({
+        where: {
+          paymentId_truckEntryId: {
+            paymentId,
+            truckEntryId: allocation.truckEntryId,
+          },
+        },
+        create: {
+          payment: { connect: { id: paymentId } },
+          truckEntry: { connect: { id: allocation.truckEntryId } },
+          amount: allocation.amount,
+        },
+        update: { amount: { increment: allocation.amount } },
+      });
+
+      const entry = await tx.truckEntry.update({
+        where: { id: allocation.truckEntryId },
+        data: { amountPaid: { increment: allocation.amount } },
+      });
+
+      await tx.truckEntry.update({
+        where: { id: entry.id },
+        data: {
+          paymentStatus:
+            Number(entry.amountPaid) >= GstUtil.getInvoiceTotal(entry)
+              ? "paid"
+              : "partial",
+        },
+      });
+    }
+  }
+}
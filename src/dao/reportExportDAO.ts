@@ -0,0 +1,46 @@
+import { Prisma, ReportExport } from "@prisma/client";
+import { prisma } from "../utils/database";
+import { logger } from "../utils/logger";
+
+export class ReportExportDAO {
+  async create(data: Prisma.ReportExportCreateInput): Promise<ReportExport> {
+    logger.info("Creating report export in DAO", {
+      reportType: data.reportType,
+      format: data.format,
+      fileSize: data.fileSize,
+    });
+    const result = await prisma.reportExport.create({ data });
+    logger.info("Report export created successfully in DAO", {
+      exportId: result.id,
+    });
+    return result;
+  }
+
+  async findByIdAndOrganization(
+    id: string,
+    organizationId: string
+  ): Promise<ReportExport | null> {
+    return await prisma.reportExport.findFirst({
+      where: { id, organizationId },
+    });
+  }
+
+  async incrementDownloadCount(id: string): Promise<ReportExport> {
+    return await prisma.reportExport.update({
+      where: { id },
+      data: { downloadCount: { increment: 1 } },
+    });
+  }
+
+  async deleteExpired(now: Date = new Date()): Promise<{ count: number }> {
+    const result = await prisma.reportExport.deleteMany({
+      where: { expiresAt: { lt: now } },
+    });
+    if (result.count > 0) {
+      logger.info("Expired report exports removed in DAO", {
+        count: result.count,
+      });
+    }
+    return result;
+  }
+}
@@ -0,0 +1,80 @@
+import { Prisma, ReportJob } from "@prisma/client";
+import { prisma } from "../utils/database";
+import { logger } from "../utils/logger";
+
+export class ReportJobDAO {
+  async create(data: Prisma.ReportJobCreateInput): Promise<ReportJob> {
+    logger.info("Creating report job in DAO", {
+      reportType: data.reportType,
+      format: data.format,
+    });
+    const result = await prisma.reportJob.create({ data });
+    logger.info("Report job created successfully in DAO", { jobId: result.id });
+    return result;
+  }
+
+  async findByIdAndOrganization(
+    id: string,
+    organizationId: string
+  ): Promise<ReportJob | null> {
+    return await prisma.reportJob.findFirst({
+      where: { id, organizationId },
+    });
+  }
+
+  async findByOrganization(
+    organizationId: string,
+    limit: number = 20
+  ): Promise<ReportJob[]> {
+    return await prisma.reportJob.findMany({
+      where: { organizationId },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+  }
+
+  async findQueued(limit: number): Promise<ReportJob[]> {
+    return await prisma.reportJob.findMany({
+      where: { status: "queued" },
+      orderBy: { createdAt: "asc" },
+      take: limit,
+    });
+  }
+
+  // Atomically moves a queued job to running so that only one worker picks it up
+  async claim(id: string): Promise<boolean> {
+    const result = await prisma.reportJob.updateMany({
+      where: { id, status: "queued" },
+      data: {
+        status: "running",
+        progress: 10,
+        startedAt: new Date(),
+        attempts: { increment: 1 },
+      },
+    });
+    return result.count === 1;
+  }
+
+  async update(
+    id: string,
+    data: Prisma.ReportJobUpdateInput
+  ): Promise<ReportJob> {
+    return await prisma.reportJob.update({
+      where: { id },
+      data,
+    });
+  }
+
+  async requeueRunning(): Promise<{ count: number }> {
+    const result = await prisma.reportJob.updateMany({
+      where: { status: "running" },
+      data: { status: "queued", progress: 0, startedAt: null },
+    });
+    if (result.count > 0) {
+      logger.info("Interrupted report jobs requeued in DAO", {
+        count: result.count,
+      });
+    }
+    return result;
+  }
+}
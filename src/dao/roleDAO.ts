@@ -0,0 +1,44 @@
+import { Prisma, Role } from "@prisma/client";
+import { prisma } from "../utils/database";
+import { logger } from "../utils/logger";
+
+export class RoleDAO {
+  async create(data: Prisma.RoleCreateInput): Promise<Role> {
+    const result = await prisma.role.create({ data });
+    logger.info("Role created in DAO", {
+      roleId: result.id,
+      organizationId: result.organizationId,
+    });
+    return result;
+  }
+
+  async findById(id: string): Promise<Role | null> {
+    return await prisma.role.findUnique({ where: { id } });
+  }
+
+  async findByName(organizationId: string, name: string): Promise<Role | null> {
+    return await prisma.role.findFirst({
+      where: { organizationId, name: { equals: name, mode: "insensitive" } },
+    });
+  }
+
+  async findByOrganization(organizationId: string) {
+    return await prisma.role.findMany({
+      where: { organizationId },
+      include: { _count: { select: { users: true } } },
+      orderBy: { name: "asc" },
+    });
+  }
+
+  async update(id: string, data: Prisma.RoleUpdateInput): Promise<Role> {
+    return await prisma.role.update({ where: { id }, data });
+  }
+
+  async delete(id: string): Promise<Role> {
+    return await prisma.role.delete({ where: { id } });
+  }
+
+  async countUsers(id: string): Promise<number> {
+    return await prisma.user.count({ where: { roleId: id } });
+  }
+}
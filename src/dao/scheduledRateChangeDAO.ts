@@ -0,0 +1,94 @@
+import {
+  Prisma,
+  ScheduledRateChange,
+  ScheduledRateChangeStatus,
+} from "@prisma/client";
+import { prisma } from "../utils/database";
+import { logger } from "../utils/logger";
+
+const scheduledRateChangeInclude = {
+  materialRate: { select: { id: true, materialType: true } },
+  createdBy: { select: { id: true, username: true } },
+  cancelledBy: { select: { id: true, username: true } },
+};
+
+export class ScheduledRateChangeDAO {
+  async create(
+    data: Prisma.ScheduledRateChangeCreateInput
+  ): Promise<ScheduledRateChange> {
+    const result = await prisma.scheduledRateChange.create({
+      data,
+      include: scheduledRateChangeInclude,
+    });
+    logger.info("Scheduled rate change created in DAO", {
+      scheduledRateChangeId: result.id,
+      materialRateId: result.materialRateId,
+      effectiveAt: result.effectiveAt,
+    });
+    return result;
+  }
+
+  async findById(id: string): Promise<ScheduledRateChange | null> {
+    return await prisma.scheduledRateChange.findUnique({
+      where: { id },
+      include: scheduledRateChangeInclude,
+    });
+  }
+
+  // Soonest first
+  async findByOrganization(
+    organizationId: string,
+    filters: {
+      materialRateId?: string;
+      status?: ScheduledRateChangeStatus;
+    }
+  ): Promise<ScheduledRateChange[]> {
+    const where: Prisma.ScheduledRateChangeWhereInput = { organizationId };
+    if (filters.materialRateId) where.materialRateId = filters.materialRateId;
+    if (filters.status) where.status = filters.status;
+
+    return await prisma.scheduledRateChange.findMany({
+      where,
+      include: scheduledRateChangeInclude,
+      orderBy: [{ effectiveAt: "asc" }, { createdAt: "asc" }],
+    });
+  }
+
+  // Pending changes whose time has come, oldest first, across organizations
+  async findDue(limit: number): Promise<ScheduledRateChange[]> {
+    return await prisma.scheduledRateChange.findMany({
+      where: { status: "pending", effectiveAt: { lte: new Date() } },
+      orderBy: [{ effectiveAt: "asc" }, { createdAt: "asc" }],
+      take: limit,
+    });
+  }
+
+  // Marks a pending change applied. Only one caller can take it, so a
+  // change is never applied twice
+  async claim(id: string): Promise<boolean> {
+    const { count } = await prisma.scheduledRateChange.updateMany({
+      where: { id, status: "pending" },
+      data: { status: "applied", appliedAt: new Date() },
+    });
+    return count === 1;
+  }
+
+  async markFailed(id: string, error: string): Promise<void> {
+    await prisma.scheduledRateChange.update({
+      where: { id },
+      data: { status: "failed", error },
+    });
+  }
+
+  async cancel(id: string, cancelledById: string): Promise<boolean> {
+    const { count } = await prisma.scheduledRateChange.updateMany({
+      where: { id, status: "pending" },
+      data: {
+        status: "cancelled",
+        cancelledAt: new Date(),
+        cancelledById,
+      },
+    });
+    return count === 1;
+  }
+}
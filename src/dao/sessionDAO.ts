@@ -0,0 +1,127 @@
+import { Prisma, Session } from "@prisma/client";
+import { prisma } from "../utils/database";
+import { logger } from "../utils/logger";
+
+export class SessionDAO {
+  async create(data: Prisma.SessionCreateInput): Promise<Session> {
+    const result = await prisma.session.create({ data });
+    logger.info("Session created in DAO", {
+      sessionId: result.id,
+      userId: result.userId,
+    });
+    return result;
+  }
+
+  async findById(id: string): Promise<Session | null> {
+    return await prisma.session.findUnique({ where: { id } });
+  }
+
+  async findByIdWithUser(id: string) {
+    return await prisma.session.findUnique({
+      where: { id },
+      include: {
+        user: { select: { id: true, username: true, organizationId: true } },
+      },
+    });
+  }
+
+  // Sessions that can still be used, most recently active first
+  async findActive(where: Prisma.SessionWhereInput) {
+    return await prisma.session.findMany({
+      where: {
+        ...where,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      include: {
+        user: { select: { id: true, username: true, organizationId: true } },
+      },
+      orderBy: { lastUsedAt: "desc" },
+    });
+  }
+
+  async touch(id: string): Promise<void> {
+    await prisma.session.update({
+      where: { id },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  async findByRefreshTokenHash(
+    refreshTokenHash: string
+  ): Promise<Session | null> {
+    return await prisma.session.findUnique({ where: { refreshTokenHash } });
+  }
+
+  async findByPreviousTokenHash(
+    previousTokenHash: string
+  ): Promise<Session | null> {
+    return await prisma.session.findUnique({ where: { previousTokenHash } });
+  }
+
+  // Swaps in the new refresh token only if the presented one is still current,
+  // so two concurrent refreshes with the same token cannot both succeed
+  async rotate(
+    id: string,
+    currentTokenHash: string,
+    newTokenHash: string,
+    expiresAt: Date
+  ): Promise<boolean> {
+    const { count } = await prisma.session.updateMany({
+      where: {
+        id,
+        refreshTokenHash: currentTokenHash,
+        revokedAt: null,
+      },
+      data: {
+        refreshTokenHash: newTokenHash,
+        previousTokenHash: currentTokenHash,
+        expiresAt,
+        lastUsedAt: new Date(),
+      },
+    });
+    return count === 1;
+  }
+
+  async revoke(id: string, reason: string): Promise<{ count: number }> {
+    return await prisma.session.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+  }
+
+  async revokeAllForUser(
+    userId: string,
+    reason: string,
+    exceptSessionId?: string
+  ): Promise<{ count: number }> {
+    const result = await prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { id: { not: exceptSessionId } }),
+      },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+    logger.info("User sessions revoked in DAO", {
+      userId,
+      reason,
+      count: result.count,
+    });
+    return result;
+  }
+
+  // Expired and revoked sessions are kept for a while so refresh token reuse
+  // can still be recognised, then removed
+  async deleteStale(before: Date): Promise<{ count: number }> {
+    const result = await prisma.session.deleteMany({
+      where: {
+        OR: [{ expiresAt: { lt: before } }, { revokedAt: { lt: before } }],
+      },
+    });
+    if (result.count > 0) {
+      logger.info("Stale sessions removed in DAO", { count: result.count });
+    }
+    return result;
+  }
+}
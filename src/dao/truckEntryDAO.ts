@@ -1,4 +1,4 @@
-import { Prisma, TruckEntry } from "@prisma/client";
+import { EntryType, Prisma, TruckEntry } from "@prisma/client";
 import { TruckEntryFilters } from "../types";
 import { prisma } from "../utils/database";
 
@@ -8,17 +8,30 @@ export class TruckEntryDAO {
       data,
       include: {
         organization: true,
-        user: true,
+        user: { select: { id: true, username: true } },
+        customer: true,
+        vehicle: true,
       },
     });
   }
 
+  // Creates every entry or none of them
+  async createMany(
+    data: Prisma.TruckEntryCreateInput[]
+  ): Promise<TruckEntry[]> {
+    return await prisma.$transaction(
+      data.map((entry) => prisma.truckEntry.create({ data: entry }))
+    );
+  }
+
   async findById(id: string): Promise<TruckEntry | null> {
     return await prisma.truckEntry.findUnique({
       where: { id },
       include: {
         organization: true,
-        user: true,
+        user: { select: { id: true, username: true } },
+        customer: true,
+        vehicle: true,
       },
     });
   }
@@ -37,6 +50,8 @@ export class TruckEntryDAO {
       startDate,
       endDate,
       userId,
+      paymentStatus,
+      needsReview,
     } = filters;
 
     const skip = (page - 1) * limit;
@@ -46,6 +61,8 @@ export class TruckEntryDAO {
     if (materialType) where.materialType = materialType;
     if (status) where.status = status as any;
     if (userId) where.userId = userId;
+    if (paymentStatus) where.paymentStatus = paymentStatus as any;
+    if (needsReview !== undefined) where.needsReview = needsReview;
 
     if (startDate || endDate) {
       where.entryDate = {};
@@ -61,7 +78,9 @@ export class TruckEntryDAO {
         orderBy: { [sortBy]: sortOrder },
         include: {
           organization: true,
-          user: true,
+          user: { select: { id: true, username: true } },
+          customer: true,
+          vehicle: true,
         },
       }),
       prisma.truckEntry.count({ where }),
@@ -85,6 +104,8 @@ export class TruckEntryDAO {
       startDate,
       endDate,
       userId,
+      paymentStatus,
+      needsReview,
     } = filters;
 
     const skip = (page - 1) * limit;
@@ -94,6 +115,8 @@ export class TruckEntryDAO {
     if (materialType) where.materialType = materialType;
     if (status) where.status = status as any;
     if (userId) where.userId = userId;
+    if (paymentStatus) where.paymentStatus = paymentStatus as any;
+    if (needsReview !== undefined) where.needsReview = needsReview;
 
     if (startDate || endDate) {
       where.entryDate = {};
@@ -109,7 +132,9 @@ export class TruckEntryDAO {
         orderBy: { [sortBy]: sortOrder },
         include: {
           organization: true,
-          user: true,
+          user: { select: { id: true, username: true } },
+          customer: true,
+          vehicle: true,
         },
       }),
       prisma.truckEntry.count({ where }),
@@ -127,21 +152,97 @@ export class TruckEntryDAO {
       data,
       include: {
         organization: true,
-        user: true,
+        user: { select: { id: true, username: true } },
+        customer: true,
+        vehicle: true,
+      },
+    });
+  }
+
+  async softDelete(
+    id: string,
+    deletedById: string,
+    deleteReason: string
+  ): Promise<TruckEntry> {
+    return await prisma.truckEntry.update({
+      where: { id },
+      data: {
+        status: "deleted",
+        deletedAt: new Date(),
+        deletedBy: { connect: { id: deletedById } },
+        deleteReason,
+      },
+      include: {
+        organization: true,
+        user: { select: { id: true, username: true } },
+        customer: true,
+        vehicle: true,
       },
     });
   }
 
-  async delete(id: string): Promise<TruckEntry> {
-    return await prisma.truckEntry.delete({
+  async restore(id: string): Promise<TruckEntry> {
+    return await prisma.truckEntry.update({
       where: { id },
+      data: {
+        status: "active",
+        deletedAt: null,
+        deletedBy: { disconnect: true },
+        deleteReason: null,
+      },
       include: {
         organization: true,
-        user: true,
+        user: { select: { id: true, username: true } },
+        customer: true,
+        vehicle: true,
       },
     });
   }
 
+  async findDeleted(
+    organizationId: string,
+    filters: { page: number; limit: number }
+  ): Promise<{ entries: TruckEntry[]; total: number }> {
+    const where: Prisma.TruckEntryWhereInput = {
+      organizationId,
+      status: "deleted",
+    };
+
+    const [entries, total] = await Promise.all([
+      prisma.truckEntry.findMany({
+        where,
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+        orderBy: { deletedAt: "desc" },
+        include: {
+          user: { select: { id: true, username: true } },
+          deletedBy: { select: { id: true, username: true } },
+          customer: { select: { id: true, name: true } },
+        },
+      }),
+      prisma.truckEntry.count({ where }),
+    ]);
+
+    return { entries, total };
+  }
+
+  // Permanently removes entries that have been in the trash since before the
+  // cutoff; entries deleted before deletedAt was recorded are left alone
+  async purgeDeleted(
+    organizationId: string,
+    deletedBefore: Date
+  ): Promise<number> {
+    const { count } = await prisma.truckEntry.deleteMany({
+      where: {
+        organizationId,
+        status: "deleted",
+        deletedAt: { lt: deletedBefore },
+        paymentAllocations: { none: {} },
+      },
+    });
+    return count;
+  }
+
   async getStatsByOrganization(
     organizationId: string,
     startDate?: Date,
@@ -180,4 +281,46 @@ export class TruckEntryDAO {
       rawStoneEntries,
     };
   }
+
+  // Active sales in a date range with the customer details needed for tax returns
+  async findSalesForPeriod(
+    organizationId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<any[]> {
+    return await prisma.truckEntry.findMany({
+      where: {
+        organizationId,
+        entryType: "Sales",
+        status: "active",
+        entryDate: { gte: startDate, lte: endDate },
+      },
+      orderBy: [{ entryDate: "asc" }, { createdAt: "asc" }],
+      include: {
+        customer: {
+          select: { id: true, name: true, gstin: true, stateCode: true },
+        },
+      },
+    });
+  }
+
+  // Active entries in a date range, used to flag likely duplicates on import
+  async findForDuplicateCheck(
+    organizationId: string,
+    entryType: EntryType,
+    startDate: Date,
+    endDate: Date
+  ): Promise<
+    { truckNumber: string; entryDate: Date; units: Prisma.Decimal }[]
+  > {
+    return await prisma.truckEntry.findMany({
+      where: {
+        organizationId,
+        entryType,
+        status: "active",
+        entryDate: { gte: startDate, lte: endDate },
+      },
+      select: { truckNumber: true, entryDate: true, units: true },
+    });
+  }
 }
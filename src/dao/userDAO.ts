@@ -137,6 +137,74 @@ export class UserDAO {
     );
   }
 
+  // Counts the failure atomically; the returned user has the new count
+  async recordLoginFailure(id: string): Promise<User> {
+    return await DatabaseWrapper.executeWithRetry(
+      () =>
+        prisma.user.update({
+          where: { id },
+          data: { loginFailures: { increment: 1 } },
+        }),
+      "UserDAO.recordLoginFailure"
+    );
+  }
+
+  async lockAccount(id: string, lockedUntil: Date): Promise<User> {
+    return await DatabaseWrapper.executeWithRetry(
+      () =>
+        prisma.user.update({
+          where: { id },
+          data: { lockedUntil },
+        }),
+      "UserDAO.lockAccount"
+    );
+  }
+
+  async clearLoginFailures(id: string): Promise<User> {
+    return await DatabaseWrapper.executeWithRetry(
+      () =>
+        prisma.user.update({
+          where: { id },
+          data: { loginFailures: 0, lockedUntil: null },
+        }),
+      "UserDAO.clearLoginFailures"
+    );
+  }
+
+  // Marks a TOTP time step as used. Only matches while no later step has been
+  // accepted, so the same code cannot sign in twice
+  async acceptTotpStep(id: string, step: number): Promise<boolean> {
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id,
+        OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }],
+      },
+      data: { totpLastStep: step },
+    });
+    return count === 1;
+  }
+
+  // Removes a used recovery code. Only matches while the code is still unused
+  async consumeRecoveryCode(id: string, codeHash: string): Promise<boolean> {
+    const user = await prisma.user.findFirst({
+      where: { id, totpRecoveryCodes: { has: codeHash } },
+      select: { totpRecoveryCodes: true },
+    });
+    if (!user) {
+      return false;
+    }
+
+    const { count } = await prisma.user.updateMany({
+      where: { id, totpRecoveryCodes: { has: codeHash } },
+      data: {
+        totpRecoveryCodes: user.totpRecoveryCodes.filter(
+          (hash) => hash !== codeHash
+        ),
+      },
+    });
+    return count === 1;
+  }
+
   async delete(id: string): Promise<User> {
     return await DatabaseWrapper.executeWithRetry(
       () =>
@@ -0,0 +1,161 @@
+import { Prisma, TruckEntry, Vehicle } from "@prisma/client";
+import { VehicleFilters } from "../types";
+import { prisma } from "../utils/database";
+import { logger } from "../utils/logger";
+
+export class VehicleDAO {
+  async create(data: Prisma.VehicleCreateInput): Promise<Vehicle> {
+    logger.info("Creating vehicle in DAO", {
+      registrationNumber: data.registrationNumber,
+    });
+    const result = await prisma.vehicle.create({ data });
+    logger.info("Vehicle created successfully in DAO", {
+      vehicleId: result.id,
+    });
+    return result;
+  }
+
+  async findById(id: string): Promise<Vehicle | null> {
+    return await prisma.vehicle.findUnique({
+      where: { id },
+    });
+  }
+
+  async findByRegistrationNumber(
+    organizationId: string,
+    registrationNumber: string
+  ): Promise<Vehicle | null> {
+    return await prisma.vehicle.findUnique({
+      where: {
+        organizationId_registrationNumber: {
+          organizationId,
+          registrationNumber,
+        },
+      },
+    });
+  }
+
+  async findByOrganizationId(
+    organizationId: string,
+    filters: VehicleFilters
+  ): Promise<{ vehicles: Vehicle[]; total: number }> {
+    const {
+      page = 1,
+      limit = 10,
+      sortBy = "registrationNumber",
+      sortOrder = "asc",
+      search,
+      isActive,
+    } = filters;
+
+    const skip = (page - 1) * limit;
+    const where: Prisma.VehicleWhereInput = { organizationId };
+
+    if (typeof isActive === "boolean") where.isActive = isActive;
+    if (search) {
+      where.OR = [
+        { registrationNumber: { contains: search, mode: "insensitive" } },
+        { ownerName: { contains: search, mode: "insensitive" } },
+        { defaultDriver: { contains: search, mode: "insensitive" } },
+      ];
+    }
+
+    const [vehicles, total] = await Promise.all([
+      prisma.vehicle.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { [sortBy]: sortOrder },
+      }),
+      prisma.vehicle.count({ where }),
+    ]);
+
+    return { vehicles, total };
+  }
+
+  // Prefix matches on the registration number for auto-complete
+  async search(
+    organizationId: string,
+    query: string,
+    limit: number
+  ): Promise<Vehicle[]> {
+    return await prisma.vehicle.findMany({
+      where: {
+        organizationId,
+        isActive: true,
+        registrationNumber: { startsWith: query, mode: "insensitive" },
+      },
+      orderBy: { registrationNumber: "asc" },
+      take: limit,
+    });
+  }
+
+  async update(id: string, data: Prisma.VehicleUpdateInput): Promise<Vehicle> {
+    logger.info("Updating vehicle in DAO", { id });
+    return await prisma.vehicle.update({
+      where: { id },
+      data,
+    });
+  }
+
+  async findTrips(
+    vehicleId: string,
+    filters: { page: number; limit: number; startDate?: Date; endDate?: Date }
+  ): Promise<{ entries: TruckEntry[]; total: number }> {
+    const where: Prisma.TruckEntryWhereInput = {
+      vehicleId,
+      status: "active",
+    };
+
+    if (filters.startDate || filters.endDate) {
+      where.entryDate = {};
+      if (filters.startDate) where.entryDate.gte = filters.startDate;
+      if (filters.endDate) where.entryDate.lte = filters.endDate;
+    }
+
+    const [entries, total] = await Promise.all([
+      prisma.truckEntry.findMany({
+        where,
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+        orderBy: [{ entryDate: "desc" }, { createdAt: "desc" }],
+        include: {
+          user: { select: { id: true, username: true } },
+          customer: { select: { id: true, name: true } },
+        },
+      }),
+      prisma.truckEntry.count({ where }),
+    ]);
+
+    return { entries, total };
+  }
+
+  async getTripStats(
+    vehicleId: string,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<{ totalTrips: number; totalUnits: number; totalAmount: number }> {
+    const where: Prisma.TruckEntryWhereInput = {
+      vehicleId,
+      status: "active",
+    };
+
+    if (startDate || endDate) {
+      where.entryDate = {};
+      if (startDate) where.entryDate.gte = startDate;
+      if (endDate) where.entryDate.lte = endDate;
+    }
+
+    const stats = await prisma.truckEntry.aggregate({
+      where,
+      _count: { _all: true },
+      _sum: { units: true, totalAmount: true },
+    });
+
+    return {
+      totalTrips: stats._count._all,
+      totalUnits: Number(stats._sum.units || 0),
+      totalAmount: Number(stats._sum.totalAmount || 0),
+    };
+  }
+}
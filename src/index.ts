@@ -1,5 +1,7 @@
 import app from "./app";
 import { logger } from "./utils/logger";
+import { rateChangeScheduler } from "./workers/rateChangeScheduler";
+import { reportJobWorker } from "./workers/reportJobWorker";
 
 const PORT = process.env.PORT || 3000;
 
@@ -20,6 +22,16 @@ if (require.main === module) {
         logger.warn(`Authentication bypassed for development`);
       }
     }
+
+    // Background report generation (disable with REPORT_WORKER_ENABLED=false)
+    if (process.env.REPORT_WORKER_ENABLED !== "false") {
+      reportJobWorker.start();
+    }
+
+    // Applies scheduled rate changes (disable with RATE_SCHEDULER_ENABLED=false)
+    if (process.env.RATE_SCHEDULER_ENABLED !== "false") {
+      rateChangeScheduler.start();
+    }
   });
 
   // Handle server errors
@@ -35,6 +47,8 @@ if (require.main === module) {
   // Graceful shutdown handlers
   process.on("SIGTERM", async () => {
     logger.info("SIGTERM received, shutting down gracefully");
+    reportJobWorker.stop();
+    rateChangeScheduler.stop();
     server.close(() => {
       logger.info("HTTP server closed");
       process.exit(0);
@@ -43,6 +57,8 @@ if (require.main === module) {
 
   process.on("SIGINT", async () => {
     logger.info(" SIGINT received, shutting down gracefully");
+    reportJobWorker.stop();
+    rateChangeScheduler.stop();
     server.close(() => {
       logger.info("HTTP server closed");
       process.exit(0);
@@ -1,9 +1,14 @@
 import { NextFunction, Response } from "express";
 import jwt from "jsonwebtoken";
+import { ApiKeyService } from "../services/apiKeyService";
+import { RoleService } from "../services/roleService";
+import { SessionService } from "../services/sessionService";
 import { UserService } from "../services/userService";
 import { AuthenticatedRequest } from "../types";
 import { logger } from "../utils/logger";
+import { Permission, PermissionUtil } from "../utils/permissions";
 import { ResponseUtil } from "../utils/response";
+import { TenantContext } from "../utils/tenantContext";
 
 export class AuthMiddleware {
   static authenticate = async (
@@ -21,6 +26,13 @@ export class AuthMiddleware {
 
     try {
       const authHeader = req.headers.authorization;
+      const apiKey = req.headers["x-api-key"];
+
+      // Integrations send an organization API key instead of a user token
+      if (!authHeader && typeof apiKey === "string" && apiKey) {
+        await AuthMiddleware.authenticateApiKey(req, res, next, apiKey);
+        return;
+      }
 
       if (!authHeader || !authHeader.startsWith("Bearer ")) {
         logger.warn(
@@ -71,9 +83,32 @@ export class AuthMiddleware {
         return;
       }
 
+      // Every access token belongs to a server-side session; tokens from
+      // revoked or expired sessions are rejected even before they expire
+      const sessionService = new SessionService();
+      const sessionActive = decoded.sessionId
+        ? await sessionService.isSessionActive(
+            decoded.sessionId,
+            decoded.userId
+          )
+        : false;
+
+      if (!sessionActive) {
+        logger.warn("❌ Authentication failed: Session is not active", {
+          path: req.path,
+          method: req.method,
+          userId: decoded.userId,
+          sessionId: decoded.sessionId,
+          ip: req.ip || req.connection.remoteAddress,
+        });
+        ResponseUtil.unauthorized(res, "Session has been revoked");
+        return;
+      }
+
       logger.debug("✅ JWT token verified successfully", {
         userId: decoded.userId,
         organizationId: decoded.organizationId,
+        sessionId: decoded.sessionId,
         tokenExp: decoded.exp
           ? new Date(decoded.exp * 1000).toISOString()
           : "No expiration",
@@ -110,6 +145,8 @@ export class AuthMiddleware {
       // Attach user and organization to request
       req.user = user;
       req.organizationId = decoded.organizationId || user.organizationId;
+      req.sessionId = decoded.sessionId;
+      req.permissions = await new RoleService().getUserPermissions(user);
 
       const processingTime = Date.now() - startTime;
       logger.info("✅ Authentication successful", {
@@ -123,7 +160,12 @@ export class AuthMiddleware {
         ip: req.ip || req.connection.remoteAddress,
       });
 
-      next();
+      // Everything the request does from here on only sees its organization
+      // and is attributed to the user
+      TenantContext.run(req.organizationId, next, {
+        userId: user.id,
+        ipAddress: req.ip || req.connection.remoteAddress,
+      });
     } catch (error: any) {
       const processingTime = Date.now() - startTime;
       logger.error("🚨 Authentication error occurred", {
@@ -160,6 +202,84 @@ export class AuthMiddleware {
     }
   };
 
+  // Requests made with an API key act as the key's creator, holding only the
+  // key's permissions that the creator still has
+  private static authenticateApiKey = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+    key: string
+  ): Promise<void> => {
+    const apiKey = await new ApiKeyService().authenticate(key);
+    if (!apiKey) {
+      logger.warn("❌ Authentication failed: Invalid API key", {
+        path: req.path,
+        method: req.method,
+        ip: req.ip || req.connection.remoteAddress,
+      });
+      ResponseUtil.unauthorized(res, "Invalid or expired API key");
+      return;
+    }
+
+    const user = await new UserService().getUserById(apiKey.createdById);
+    if (!user || !user.isActive) {
+      logger.warn("❌ Authentication failed: API key creator is inactive", {
+        path: req.path,
+        method: req.method,
+        apiKeyId: apiKey.id,
+        userId: apiKey.createdById,
+        ip: req.ip || req.connection.remoteAddress,
+      });
+      ResponseUtil.unauthorized(res, "API key is no longer valid");
+      return;
+    }
+
+    const held = await new RoleService().getUserPermissions(user);
+    req.user = user;
+    req.organizationId = apiKey.organizationId;
+    req.apiKeyId = apiKey.id;
+    req.permissions = apiKey.permissions.filter((permission) =>
+      held.includes(permission as Permission)
+    );
+
+    logger.info("✅ API key authentication successful", {
+      apiKeyId: apiKey.id,
+      userId: user.id,
+      organizationId: req.organizationId,
+      path: req.path,
+      method: req.method,
+      ip: req.ip || req.connection.remoteAddress,
+    });
+
+    TenantContext.run(req.organizationId, next, {
+      userId: user.id,
+      ipAddress: req.ip || req.connection.remoteAddress,
+    });
+  };
+
+  // For actions on the signed-in user's own account and sessions, which API
+  // keys cannot take
+  static requireSession = () => {
+    return (
+      req: AuthenticatedRequest,
+      res: Response,
+      next: NextFunction
+    ): void => {
+      if (!req.sessionId) {
+        logger.warn("❌ Session check failed: Request has no user session", {
+          path: req.path,
+          method: req.method,
+          apiKeyId: req.apiKeyId,
+          ip: req.ip || req.connection.remoteAddress,
+        });
+        ResponseUtil.forbidden(res, "This action requires signing in");
+        return;
+      }
+
+      next();
+    };
+  };
+
   static requireActiveUser = () => {
     return (
       req: AuthenticatedRequest,
@@ -234,7 +354,7 @@ export class AuthMiddleware {
         return;
       }
 
-      if (req.user.role !== "owner") {
+      if (!PermissionUtil.isOwner(req)) {
         logger.warn("❌ Owner check failed: Insufficient privileges", {
           path: req.path,
           method: req.method,
@@ -242,6 +362,7 @@ export class AuthMiddleware {
           username: req.user.username,
           currentRole: req.user.role,
           requiredRole: "owner",
+          apiKeyId: req.apiKeyId,
           organizationId: req.organizationId,
           ip: req.ip || req.connection.remoteAddress,
         });
@@ -261,4 +382,54 @@ export class AuthMiddleware {
       next();
     };
   };
+
+  // Requires every listed permission. Prefer this over requireOwner so custom
+  // roles can be granted the access
+  static requirePermission = (...permissions: Permission[]) => {
+    return (
+      req: AuthenticatedRequest,
+      res: Response,
+      next: NextFunction
+    ): void => {
+      if (!req.user) {
+        logger.warn("❌ Permission check failed: No authenticated user", {
+          path: req.path,
+          method: req.method,
+          ip: req.ip || req.connection.remoteAddress,
+        });
+        ResponseUtil.unauthorized(res, "Authentication required");
+        return;
+      }
+
+      const held = req.permissions || [];
+      const missing = permissions.filter(
+        (permission) => !held.includes(permission)
+      );
+
+      if (missing.length > 0) {
+        logger.warn("❌ Permission check failed: Missing permissions", {
+          path: req.path,
+          method: req.method,
+          userId: req.user.id,
+          role: req.user.role,
+          missing,
+          organizationId: req.organizationId,
+        });
+        ResponseUtil.forbidden(
+          res,
+          `Missing permission: ${missing.join(", ")}`
+        );
+        return;
+      }
+
+      logger.debug("✅ Permission check passed", {
+        userId: req.user.id,
+        permissions,
+        path: req.path,
+        method: req.method,
+      });
+
+      next();
+    };
+  };
 }
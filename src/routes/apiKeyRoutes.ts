@@ -0,0 +1,32 @@
+import { Router } from "express";
+import { ApiKeyController } from "../controllers/apiKeyController";
+import { AuthMiddleware } from "../middlewares/auth";
+import { ErrorMiddleware } from "../middlewares/error";
+import { ValidationMiddleware } from "../middlewares/validation";
+
+const router = Router();
+const apiKeyController = new ApiKeyController();
+
+// Apply authentication middleware to all routes
+router.use(AuthMiddleware.authenticate);
+router.use(AuthMiddleware.requireActiveUser());
+router.use(AuthMiddleware.requirePermission("api-keys:manage"));
+
+// List active API keys (includeRevoked=true for revoked ones too)
+router.get("/", ErrorMiddleware.asyncHandler(apiKeyController.getApiKeys));
+
+// Create an API key. The key itself is only returned here
+router.post(
+  "/",
+  ValidationMiddleware.validateRequired(["name", "permissions"]),
+  ErrorMiddleware.asyncHandler(apiKeyController.createApiKey)
+);
+
+// Revoke an API key
+router.delete(
+  "/:id",
+  ValidationMiddleware.validateUUID("id"),
+  ErrorMiddleware.asyncHandler(apiKeyController.revokeApiKey)
+);
+
+export { router as apiKeyRoutes };
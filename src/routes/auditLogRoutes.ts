@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { AuditLogController } from "../controllers/auditLogController";
+import { AuthMiddleware } from "../middlewares/auth";
+import { ErrorMiddleware } from "../middlewares/error";
+
+const router = Router();
+const auditLogController = new AuditLogController();
+
+// Apply authentication middleware to all routes
+router.use(AuthMiddleware.authenticate);
+router.use(AuthMiddleware.requireActiveUser());
+router.use(AuthMiddleware.requirePermission("audit:view"));
+
+// GET /api/audit-logs?entityType=TruckEntry&entityId=...&userId=...&startDate=2025-01-01
+router.get("/", ErrorMiddleware.asyncHandler(auditLogController.getAuditLogs));
+
+export { router as auditLogRoutes };
@@ -20,6 +20,33 @@ router.post(
   ErrorMiddleware.asyncHandler(authController.login)
 );
 
+// Second login step for accounts with two-factor authentication
+router.post(
+  "/login/2fa",
+  ValidationMiddleware.validateRequired(["challengeToken", "code"]),
+  ErrorMiddleware.asyncHandler(authController.loginTwoFactor)
+);
+
+// Enrolment during login, when the organization requires two-factor sign-in
+router.post(
+  "/login/2fa/setup",
+  ValidationMiddleware.validateRequired(["challengeToken"]),
+  ErrorMiddleware.asyncHandler(authController.loginTwoFactorSetup)
+);
+
+// Set a new password with a one-time code issued by the organization owner
+router.post(
+  "/reset-password",
+  ValidationMiddleware.validateRequired(["username", "code", "newPassword"]),
+  ErrorMiddleware.asyncHandler(authController.resetPassword)
+);
+
+router.post(
+  "/refresh",
+  ValidationMiddleware.validateRequired(["refreshToken"]),
+  ErrorMiddleware.asyncHandler(authController.refresh)
+);
+
 // Protected routes - authentication required
 router.get(
   "/verify-token",
@@ -30,9 +57,74 @@ router.get(
 router.post(
   "/logout",
   AuthMiddleware.authenticate,
+  AuthMiddleware.requireSession(),
   ErrorMiddleware.asyncHandler(authController.logout)
 );
 
+router.post(
+  "/logout-all",
+  AuthMiddleware.authenticate,
+  AuthMiddleware.requireSession(),
+  ErrorMiddleware.asyncHandler(authController.logoutAll)
+);
+
+router.get(
+  "/sessions",
+  AuthMiddleware.authenticate,
+  AuthMiddleware.requireSession(),
+  AuthMiddleware.requireActiveUser(),
+  ErrorMiddleware.asyncHandler(authController.getSessions)
+);
+
+router.delete(
+  "/sessions/:id",
+  AuthMiddleware.authenticate,
+  AuthMiddleware.requireSession(),
+  AuthMiddleware.requireActiveUser(),
+  ValidationMiddleware.validateUUID("id"),
+  ErrorMiddleware.asyncHandler(authController.revokeSession)
+);
+
+router.get(
+  "/login-attempts",
+  AuthMiddleware.authenticate,
+  AuthMiddleware.requireActiveUser(),
+  ValidationMiddleware.validatePagination(),
+  AuthMiddleware.requirePermission("security:manage"),
+  ErrorMiddleware.asyncHandler(authController.getLoginAttempts)
+);
+
+router.post(
+  "/2fa/setup",
+  AuthMiddleware.authenticate,
+  AuthMiddleware.requireSession(),
+  ErrorMiddleware.asyncHandler(authController.setupTwoFactor)
+);
+
+router.post(
+  "/2fa/enable",
+  AuthMiddleware.authenticate,
+  AuthMiddleware.requireSession(),
+  ValidationMiddleware.validateRequired(["code"]),
+  ErrorMiddleware.asyncHandler(authController.enableTwoFactor)
+);
+
+router.post(
+  "/2fa/disable",
+  AuthMiddleware.authenticate,
+  AuthMiddleware.requireSession(),
+  ValidationMiddleware.validateRequired(["code"]),
+  ErrorMiddleware.asyncHandler(authController.disableTwoFactor)
+);
+
+router.post(
+  "/2fa/recovery-codes",
+  AuthMiddleware.authenticate,
+  AuthMiddleware.requireSession(),
+  ValidationMiddleware.validateRequired(["code"]),
+  ErrorMiddleware.asyncHandler(authController.regenerateRecoveryCodes)
+);
+
 router.get(
   "/profile",
   AuthMiddleware.authenticate,
@@ -42,12 +134,14 @@ router.get(
 router.put(
   "/profile",
   AuthMiddleware.authenticate,
+  AuthMiddleware.requireSession(),
   ErrorMiddleware.asyncHandler(authController.updateProfile)
 );
 
 router.delete(
   "/profile",
   AuthMiddleware.authenticate,
+  AuthMiddleware.requireSession(),
   ValidationMiddleware.validateRequired(["password"]),
   ErrorMiddleware.asyncHandler(authController.deleteProfile)
 );
@@ -24,6 +24,7 @@ router.get(
 router.post(
   "/calculate",
   ValidationMiddleware.validateRequired(["units", "ratePerUnit"]),
+  AuthMiddleware.requirePermission("entries:create"),
   ErrorMiddleware.asyncHandler(configController.calculateTotal)
 );
 
@@ -36,6 +37,7 @@ router.post(
     "units",
     "ratePerUnit",
   ]),
+  AuthMiddleware.requirePermission("entries:create"),
   ErrorMiddleware.asyncHandler(configController.validateTruckEntry)
 );
 
@@ -0,0 +1,80 @@
+import { Router } from "express";
+import { CustomerController } from "../controllers/customerController";
+import { AuthMiddleware } from "../middlewares/auth";
+import { ErrorMiddleware } from "../middlewares/error";
+import { ValidationMiddleware } from "../middlewares/validation";
+
+const router = Router();
+const customerController = new CustomerController();
+
+// Apply authentication middleware to all routes
+router.use(AuthMiddleware.authenticate);
+router.use(AuthMiddleware.requireActiveUser());
+
+// Get customers with search and pagination
+router.get(
+  "/",
+  ValidationMiddleware.validatePagination(),
+  AuthMiddleware.requirePermission("customers:view"),
+  ErrorMiddleware.asyncHandler(customerController.getCustomers)
+);
+
+// Create customer
+router.post(
+  "/",
+  ValidationMiddleware.validateRequired(["name"]),
+  AuthMiddleware.requirePermission("customers:manage"),
+  ErrorMiddleware.asyncHandler(customerController.createCustomer)
+);
+
+// Link existing truck entries to customers by truck name
+router.post(
+  "/migrate-truck-names",
+  AuthMiddleware.requirePermission("customers:admin"),
+  ErrorMiddleware.asyncHandler(customerController.migrateTruckNames)
+);
+
+// Get customer by ID
+router.get(
+  "/:id",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("customers:view"),
+  ErrorMiddleware.asyncHandler(customerController.getCustomerById)
+);
+
+// Update customer
+router.put(
+  "/:id",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("customers:manage"),
+  ErrorMiddleware.asyncHandler(customerController.updateCustomer)
+);
+
+// Delete customer (soft delete)
+router.delete(
+  "/:id",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("customers:admin"),
+  ErrorMiddleware.asyncHandler(customerController.deleteCustomer)
+);
+
+// Get customer ledger with running balance
+router.get(
+  "/:id/ledger",
+  ValidationMiddleware.validateUUID("id"),
+  ValidationMiddleware.validateDateRange(),
+  AuthMiddleware.requirePermission("payments:view"),
+  ErrorMiddleware.asyncHandler(customerController.getCustomerLedger)
+);
+
+// Record a payment received from the customer
+router.post(
+  "/:id/payments",
+  ValidationMiddleware.validateUUID("id"),
+  ValidationMiddleware.validateRequired(["amount"]),
+  ValidationMiddleware.validateNumeric(["amount"]),
+  AuthMiddleware.requirePermission("payments:manage"),
+  ErrorMiddleware.asyncHandler(customerController.recordPayment)
+);
+
+export { router as customerRoutes };
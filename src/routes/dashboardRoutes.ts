@@ -32,6 +32,7 @@ router.get(
 router.get(
   "/",
   ValidationMiddleware.validateDateRange(),
+  AuthMiddleware.requirePermission("dashboard:view"),
   ErrorMiddleware.asyncHandler(
     dashboardController.getComprehensiveDashboardSummary
   )
@@ -41,6 +42,7 @@ router.get(
 router.get(
   "/summary",
   ValidationMiddleware.validateDateRange(),
+  AuthMiddleware.requirePermission("dashboard:view"),
   ErrorMiddleware.asyncHandler(dashboardController.getDashboardSummary)
 );
 
@@ -48,14 +50,15 @@ router.get(
 router.get(
   "/financial",
   ValidationMiddleware.validateDateRange(),
+  AuthMiddleware.requirePermission("dashboard:view"),
   ErrorMiddleware.asyncHandler(dashboardController.getFinancialMetrics)
 );
 
-// Get dashboard statistics (owner only)
+// Get dashboard statistics
 router.get(
   "/stats",
-  AuthMiddleware.requireOwner(),
   ValidationMiddleware.validateDateRange(),
+  AuthMiddleware.requirePermission("dashboard:stats"),
   ErrorMiddleware.asyncHandler(dashboardController.getDashboardStats)
 );
 
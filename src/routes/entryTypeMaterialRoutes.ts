@@ -39,6 +39,7 @@ router.get(
 router.post(
   "/",
   ValidationMiddleware.validateRequired(["entryType", "materialRateId"]),
+  AuthMiddleware.requirePermission("rates:manage"),
   ErrorMiddleware.asyncHandler(
     entryTypeMaterialController.createEntryTypeMaterial
   )
@@ -48,6 +49,7 @@ router.post(
 router.post(
   "/bulk",
   ValidationMiddleware.validateRequired(["mappings"]),
+  AuthMiddleware.requirePermission("rates:manage"),
   ErrorMiddleware.asyncHandler(
     entryTypeMaterialController.createBulkEntryTypeMaterials
   )
@@ -66,6 +68,7 @@ router.get(
 router.put(
   "/:id",
   ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("rates:manage"),
   ErrorMiddleware.asyncHandler(
     entryTypeMaterialController.updateEntryTypeMaterial
   )
@@ -75,6 +78,7 @@ router.put(
 router.delete(
   "/:id",
   ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("rates:manage"),
   ErrorMiddleware.asyncHandler(
     entryTypeMaterialController.deleteEntryTypeMaterial
   )
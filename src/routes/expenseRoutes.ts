@@ -15,12 +15,14 @@ router.use(AuthMiddleware.requireActiveUser());
 router.get(
   "/",
   ValidationMiddleware.validateDateRange(),
+  AuthMiddleware.requirePermission("expenses:view"),
   ErrorMiddleware.asyncHandler(otherExpenseController.getExpenseSummary)
 );
 
 // Get expense types
 router.get(
   "/types",
+  AuthMiddleware.requirePermission("expenses:view"),
   ErrorMiddleware.asyncHandler(otherExpenseController.getExpenseTypes)
 );
 
@@ -28,6 +30,7 @@ router.get(
 router.post(
   "/",
   ValidationMiddleware.validateRequired(["expensesName", "amount"]),
+  AuthMiddleware.requirePermission("expenses:manage"),
   ErrorMiddleware.asyncHandler(otherExpenseController.createExpense)
 );
 
@@ -35,6 +38,7 @@ router.post(
 router.get(
   "/:id",
   ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("expenses:view"),
   ErrorMiddleware.asyncHandler(otherExpenseController.getExpenseById)
 );
 
@@ -42,6 +46,7 @@ router.get(
 router.put(
   "/:id",
   ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("expenses:manage"),
   ErrorMiddleware.asyncHandler(otherExpenseController.updateExpense)
 );
 
@@ -49,6 +54,7 @@ router.put(
 router.delete(
   "/:id",
   ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("expenses:manage"),
   ErrorMiddleware.asyncHandler(otherExpenseController.deleteExpense)
 );
 
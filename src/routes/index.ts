@@ -2,17 +2,24 @@ import { Router } from "express";
 import { MaterialRateController } from "../controllers/materialRateController";
 import { AuthMiddleware } from "../middlewares/auth";
 import { ErrorMiddleware } from "../middlewares/error";
+import { apiKeyRoutes } from "./apiKeyRoutes";
+import { auditLogRoutes } from "./auditLogRoutes";
 import { authRoutes } from "./authRoutes";
 import { configRoutes } from "./configRoutes";
+import { customerRoutes } from "./customerRoutes";
 import { dashboardRoutes } from "./dashboardRoutes";
 import { entryTypeMaterialRoutes } from "./entryTypeMaterialRoutes";
 import { expenseRoutes } from "./expenseRoutes";
+import { inviteRoutes } from "./inviteRoutes";
 import { materialRateRoutes } from "./materialRateRoutes";
 import { organizationRoutes } from "./organizationRoutes";
+import { paymentRoutes } from "./paymentRoutes";
 import { reportRoutes } from "./reportRoutes";
 import { reportsRoutes } from "./reportsRoutes";
+import { roleRoutes } from "./roleRoutes";
 import { truckEntryRoutes } from "./truckEntryRoutes";
 import { userRoutes } from "./userRoutes";
+import { vehicleRoutes } from "./vehicleRoutes";
 
 const router = Router();
 const materialRateController = new MaterialRateController();
@@ -36,16 +43,23 @@ router.get(
 );
 
 // Mount route modules
+router.use("/api-keys", apiKeyRoutes);
+router.use("/audit-logs", auditLogRoutes);
 router.use("/auth", authRoutes);
 router.use("/config", configRoutes);
+router.use("/customers", customerRoutes);
 router.use("/dashboard", dashboardRoutes);
 router.use("/entry-type-materials", entryTypeMaterialRoutes);
 router.use("/expenses", expenseRoutes);
+router.use("/invites", inviteRoutes);
 router.use("/material-rates", materialRateRoutes);
 router.use("/organizations", organizationRoutes);
+router.use("/payments", paymentRoutes);
 router.use("/business-reports", reportRoutes);
 router.use("/reports", reportsRoutes);
+router.use("/roles", roleRoutes);
 router.use("/truck-entries", truckEntryRoutes);
 router.use("/users", userRoutes);
+router.use("/vehicles", vehicleRoutes);
 
 export { router as apiRoutes };
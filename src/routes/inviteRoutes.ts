@@ -0,0 +1,28 @@
+import { Router } from "express";
+import { InviteController } from "../controllers/inviteController";
+import { AuthMiddleware } from "../middlewares/auth";
+import { ErrorMiddleware } from "../middlewares/error";
+import { ValidationMiddleware } from "../middlewares/validation";
+
+const router = Router();
+const inviteController = new InviteController();
+
+// Apply authentication middleware to all routes
+router.use(AuthMiddleware.authenticate);
+router.use(AuthMiddleware.requireActiveUser());
+router.use(AuthMiddleware.requirePermission("invites:manage"));
+
+// List outstanding invites (includeInactive=true for expired, used and revoked)
+router.get("/", ErrorMiddleware.asyncHandler(inviteController.getInvites));
+
+// Create an invite code
+router.post("/", ErrorMiddleware.asyncHandler(inviteController.createInvite));
+
+// Revoke an invite
+router.delete(
+  "/:id",
+  ValidationMiddleware.validateUUID("id"),
+  ErrorMiddleware.asyncHandler(inviteController.revokeInvite)
+);
+
+export { router as inviteRoutes };
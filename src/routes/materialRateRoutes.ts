@@ -17,12 +17,69 @@ router.get(
   ErrorMiddleware.asyncHandler(materialRateController.getMaterialRates)
 );
 
+// Rate changes scheduled ahead of time (pending ones unless ?status= is set)
+router.get(
+  "/scheduled-changes",
+  AuthMiddleware.requirePermission("rates:manage"),
+  ErrorMiddleware.asyncHandler(materialRateController.getScheduledRateChanges)
+);
+
+// Cancel a pending scheduled rate change
+router.delete(
+  "/scheduled-changes/:changeId",
+  ValidationMiddleware.validateUUID("changeId"),
+  AuthMiddleware.requirePermission("rates:manage"),
+  ErrorMiddleware.asyncHandler(materialRateController.cancelScheduledRateChange)
+);
+
+// Remove a customer's or vehicle's rate
+router.delete(
+  "/overrides/:overrideId",
+  ValidationMiddleware.validateUUID("overrideId"),
+  AuthMiddleware.requirePermission("rates:manage"),
+  ErrorMiddleware.asyncHandler(materialRateController.deleteRateOverride)
+);
+
 // Get individual material rate
 router.get(
   "/:id",
   ErrorMiddleware.asyncHandler(materialRateController.getMaterialRateById)
 );
 
+// Every rate the material has had, with when it applied and who set it
+router.get(
+  "/:id/history",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("financials:view"),
+  ErrorMiddleware.asyncHandler(materialRateController.getMaterialRateHistory)
+);
+
+// Schedule a new rate from a future local date-time
+router.post(
+  "/:id/scheduled-changes",
+  ValidationMiddleware.validateUUID("id"),
+  ValidationMiddleware.validateRequired(["ratePerUnit", "effectiveAt"]),
+  AuthMiddleware.requirePermission("rates:manage"),
+  ErrorMiddleware.asyncHandler(materialRateController.scheduleRateChange)
+);
+
+// Rates agreed with customers and vehicles for the material
+router.get(
+  "/:id/overrides",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("financials:view"),
+  ErrorMiddleware.asyncHandler(materialRateController.getRateOverrides)
+);
+
+// Set the rate for one customer or one vehicle
+router.put(
+  "/:id/overrides",
+  ValidationMiddleware.validateUUID("id"),
+  ValidationMiddleware.validateRequired(["ratePerUnit"]),
+  AuthMiddleware.requirePermission("rates:manage"),
+  ErrorMiddleware.asyncHandler(materialRateController.setRateOverride)
+);
+
 // Get standard material types
 // router.get(
 //   "/types",
@@ -49,25 +106,25 @@ router.get(
   )
 );
 
-// Create or update material rate (owner only)
+// Create or update material rate
 router.post(
   "/",
   ValidationMiddleware.validateRequired(["materialType", "rate"]),
-  AuthMiddleware.requireOwner(),
+  AuthMiddleware.requirePermission("rates:manage"),
   ErrorMiddleware.asyncHandler(materialRateController.updateMaterialRate)
 );
 
-// Update individual material rate (owner only)
+// Update individual material rate
 router.put(
   "/:id",
-  AuthMiddleware.requireOwner(),
+  AuthMiddleware.requirePermission("rates:manage"),
   ErrorMiddleware.asyncHandler(materialRateController.updateMaterialRateById)
 );
 
-// Delete individual material rate (owner only)
+// Delete individual material rate
 router.delete(
   "/:id",
-  AuthMiddleware.requireOwner(),
+  AuthMiddleware.requirePermission("rates:manage"),
   ErrorMiddleware.asyncHandler(materialRateController.deleteMaterialRateById)
 );
 
@@ -49,7 +49,7 @@ router.put(
   AuthMiddleware.requireActiveUser(),
   ValidationMiddleware.validateUUID("id"),
   ValidationMiddleware.validateRequired(["name"]),
-  AuthMiddleware.requireOwner(),
+  AuthMiddleware.requirePermission("organization:manage"),
   ErrorMiddleware.asyncHandler(organizationController.updateOrganization)
 );
 
@@ -58,6 +58,7 @@ router.delete(
   "/:id",
   AuthMiddleware.authenticate,
   AuthMiddleware.requireActiveUser(),
+  AuthMiddleware.requireSession(),
   ValidationMiddleware.validateUUID("id"),
   AuthMiddleware.requireOwner(),
   ErrorMiddleware.asyncHandler(organizationController.deleteOrganization)
@@ -0,0 +1,46 @@
+import { Router } from "express";
+import { PaymentController } from "../controllers/paymentController";
+import { AuthMiddleware } from "../middlewares/auth";
+import { ErrorMiddleware } from "../middlewares/error";
+import { ValidationMiddleware } from "../middlewares/validation";
+
+const router = Router();
+const paymentController = new PaymentController();
+
+// Apply authentication middleware to all routes
+router.use(AuthMiddleware.authenticate);
+router.use(AuthMiddleware.requireActiveUser());
+
+// Get payments with filtering and pagination
+router.get(
+  "/",
+  ValidationMiddleware.validatePagination(),
+  ValidationMiddleware.validateDateRange(),
+  AuthMiddleware.requirePermission("payments:view"),
+  ErrorMiddleware.asyncHandler(paymentController.getPayments)
+);
+
+// Outstanding receivables by customer with aging buckets
+router.get(
+  "/receivables",
+  AuthMiddleware.requirePermission("receivables:view"),
+  ErrorMiddleware.asyncHandler(paymentController.getReceivables)
+);
+
+// Get payment by ID with its allocations
+router.get(
+  "/:id",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("payments:view"),
+  ErrorMiddleware.asyncHandler(paymentController.getPaymentById)
+);
+
+// Allocate the unallocated balance of a payment to entries
+router.post(
+  "/:id/allocations",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("payments:manage"),
+  ErrorMiddleware.asyncHandler(paymentController.allocatePayment)
+);
+
+export { router as paymentRoutes };
@@ -25,12 +25,21 @@ router.use(AuthMiddleware.requireActiveUser());
 // GET /api/reports/summary?startDate=2025-01-01&endDate=2025-01-31
 router.get(
   "/summary",
+  AuthMiddleware.requirePermission("reports:view"),
   ErrorMiddleware.asyncHandler(reportController.getReportSummary)
 );
 
+// GET /api/business-reports/gstr1?startDate=2025-04-01&endDate=2025-04-30&format=csv
+router.get(
+  "/gstr1",
+  AuthMiddleware.requirePermission("reports:tax"),
+  ErrorMiddleware.asyncHandler(reportController.getGstr1Summary)
+);
+
 // GET /api/reports/date-ranges - Get predefined date ranges
 router.get(
   "/date-ranges",
+  AuthMiddleware.requirePermission("reports:view"),
   ErrorMiddleware.asyncHandler(reportController.getAvailableDateRanges)
 );
 
@@ -13,22 +13,26 @@ router.use("/data", AuthMiddleware.authenticate);
 router.use("/export", AuthMiddleware.authenticate);
 router.use("/browser-download", AuthMiddleware.authenticate);
 router.use("/test-data", AuthMiddleware.authenticate);
+router.use("/jobs", AuthMiddleware.authenticate);
 
 router.use("/templates", AuthMiddleware.requireActiveUser());
 router.use("/data", AuthMiddleware.requireActiveUser());
 router.use("/export", AuthMiddleware.requireActiveUser());
 router.use("/browser-download", AuthMiddleware.requireActiveUser());
 router.use("/test-data", AuthMiddleware.requireActiveUser());
+router.use("/jobs", AuthMiddleware.requireActiveUser());
 
 // Get report templates
 router.get(
   "/templates",
+  AuthMiddleware.requirePermission("reports:view"),
   ErrorMiddleware.asyncHandler(reportsController.getReportTemplates)
 );
 
 // Get report data
 router.get(
   "/data",
+  AuthMiddleware.requirePermission("reports:view"),
   ErrorMiddleware.asyncHandler(reportsController.getReportData)
 );
 
@@ -36,12 +40,14 @@ router.get(
 router.post(
   "/export",
   ValidationMiddleware.validateRequired(["reportType", "format"]),
+  AuthMiddleware.requirePermission("reports:export"),
   ErrorMiddleware.asyncHandler(reportsController.generateExport)
 );
 
 // Generate export (GET)
 router.get(
   "/export",
+  AuthMiddleware.requirePermission("reports:export"),
   ErrorMiddleware.asyncHandler(reportsController.generateExportViaGet)
 );
 
@@ -49,9 +55,41 @@ router.get(
 router.post(
   "/browser-download",
   ValidationMiddleware.validateRequired(["reportType", "format"]),
+  AuthMiddleware.requirePermission("reports:export"),
   ErrorMiddleware.asyncHandler(reportsController.generateBrowserDownloadToken)
 );
 
+// Queue a report job for background generation
+router.post(
+  "/jobs",
+  ValidationMiddleware.validateRequired(["reportType", "format"]),
+  AuthMiddleware.requirePermission("reports:export"),
+  ErrorMiddleware.asyncHandler(reportsController.createReportJob)
+);
+
+// List recent report jobs for the organization
+router.get(
+  "/jobs",
+  AuthMiddleware.requirePermission("reports:export"),
+  ErrorMiddleware.asyncHandler(reportsController.getReportJobs)
+);
+
+// Poll report job status and progress
+router.get(
+  "/jobs/:id",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("reports:export"),
+  ErrorMiddleware.asyncHandler(reportsController.getReportJobStatus)
+);
+
+// Download the result of a finished report job
+router.get(
+  "/jobs/:id/download",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("reports:export"),
+  ErrorMiddleware.asyncHandler(reportsController.downloadReportJob)
+);
+
 // Download report (no auth required for download)
 router.get(
   "/download/:token",
@@ -61,6 +99,7 @@ router.get(
 // Test data endpoint
 router.get(
   "/test-data",
+  AuthMiddleware.requirePermission("reports:view"),
   ErrorMiddleware.asyncHandler(reportsController.getTestData)
 );
 
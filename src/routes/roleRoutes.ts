@@ -0,0 +1,51 @@
+import { Router } from "express";
+import { RoleController } from "../controllers/roleController";
+import { AuthMiddleware } from "../middlewares/auth";
+import { ErrorMiddleware } from "../middlewares/error";
+import { ValidationMiddleware } from "../middlewares/validation";
+
+const router = Router();
+const roleController = new RoleController();
+
+// Apply authentication middleware to all routes
+router.use(AuthMiddleware.authenticate);
+router.use(AuthMiddleware.requireActiveUser());
+
+// Permission catalogue, with the permissions the caller holds
+router.get(
+  "/permissions",
+  ErrorMiddleware.asyncHandler(roleController.getPermissions)
+);
+
+// List built-in and custom roles
+router.get(
+  "/",
+  AuthMiddleware.requirePermission("roles:manage"),
+  ErrorMiddleware.asyncHandler(roleController.getRoles)
+);
+
+// Create a custom role
+router.post(
+  "/",
+  ValidationMiddleware.validateRequired(["name", "permissions"]),
+  AuthMiddleware.requirePermission("roles:manage"),
+  ErrorMiddleware.asyncHandler(roleController.createRole)
+);
+
+// Update a custom role
+router.put(
+  "/:id",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("roles:manage"),
+  ErrorMiddleware.asyncHandler(roleController.updateRole)
+);
+
+// Delete a custom role that is no longer assigned
+router.delete(
+  "/:id",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("roles:manage"),
+  ErrorMiddleware.asyncHandler(roleController.deleteRole)
+);
+
+export { router as roleRoutes };
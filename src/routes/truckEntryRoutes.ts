@@ -1,4 +1,4 @@
-import { Router } from "express";
+import express, { Router } from "express";
 import { TruckEntryController } from "../controllers/truckEntryController";
 import { AuthMiddleware } from "../middlewares/auth";
 import { ErrorMiddleware } from "../middlewares/error";
@@ -16,6 +16,7 @@ router.get(
   "/",
   ValidationMiddleware.validatePagination(),
   ValidationMiddleware.validateDateRange(),
+  AuthMiddleware.requirePermission("entries:view"),
   ErrorMiddleware.asyncHandler(truckEntryController.getTruckEntries)
 );
 
@@ -23,46 +24,101 @@ router.get(
 router.get(
   "/summary",
   ValidationMiddleware.validateDateRange(),
+  AuthMiddleware.requirePermission("entries:view"),
   ErrorMiddleware.asyncHandler(truckEntryController.getTruckEntriesSummary)
 );
 
 // Get available entry types
 router.get(
   "/entry-types",
+  AuthMiddleware.requirePermission("entries:view"),
   ErrorMiddleware.asyncHandler(truckEntryController.getEntryTypes)
 );
 
+// List deleted truck entries
+router.get(
+  "/trash",
+  ValidationMiddleware.validatePagination(),
+  AuthMiddleware.requirePermission("entries:view"),
+  ErrorMiddleware.asyncHandler(truckEntryController.getDeletedTruckEntries)
+);
+
+// Permanently remove entries past the trash retention period
+router.delete(
+  "/trash",
+  AuthMiddleware.requirePermission("entries:purge"),
+  ErrorMiddleware.asyncHandler(truckEntryController.purgeDeletedTruckEntries)
+);
+
 // Create truck entry
 router.post(
   "/",
-  ValidationMiddleware.validateRequired([
-    "truckNumber",
-    "truckName",
-    "entryType",
-    "units",
-    "ratePerUnit",
-  ]),
+  ValidationMiddleware.validateRequired(["entryType"]),
+  AuthMiddleware.requirePermission("entries:create"),
   ErrorMiddleware.asyncHandler(truckEntryController.createTruckEntry)
 );
 
+// Import truck entries from an exported entries CSV (dry run by default)
+router.post(
+  "/import",
+  express.text({ type: "text/csv", limit: "10mb" }),
+  AuthMiddleware.requirePermission("entries:create"),
+  ErrorMiddleware.asyncHandler(truckEntryController.importTruckEntries)
+);
+
 // Get truck entry by ID
 router.get(
   "/:id",
   ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("entries:view"),
   ErrorMiddleware.asyncHandler(truckEntryController.getTruckEntryById)
 );
 
+// Download the delivery challan for a sales entry
+router.get(
+  "/:id/challan.pdf",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("entries:view"),
+  ErrorMiddleware.asyncHandler(truckEntryController.getChallanPdf)
+);
+
+// Download the GST tax invoice for a sales entry
+router.get(
+  "/:id/invoice.pdf",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("entries:view", "financials:view"),
+  ErrorMiddleware.asyncHandler(truckEntryController.getInvoicePdf)
+);
+
 // Update truck entry
 router.put(
   "/:id",
   ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("entries:edit"),
   ErrorMiddleware.asyncHandler(truckEntryController.updateTruckEntry)
 );
 
+// Restore a deleted truck entry
+router.post(
+  "/:id/restore",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("entries:edit"),
+  ErrorMiddleware.asyncHandler(truckEntryController.restoreTruckEntry)
+);
+
+// Mark an entry's overridden price as reviewed
+router.put(
+  "/:id/review",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("rates:manage"),
+  ErrorMiddleware.asyncHandler(truckEntryController.reviewTruckEntry)
+);
+
 // Delete truck entry (soft delete)
 router.delete(
   "/:id",
   ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("entries:edit"),
   ErrorMiddleware.asyncHandler(truckEntryController.deleteTruckEntry)
 );
 
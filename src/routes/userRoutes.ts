@@ -21,11 +21,11 @@ router.use(AuthMiddleware.requireActiveUser());
 // Get current user
 router.get("/me", ErrorMiddleware.asyncHandler(userController.getCurrentUser));
 
-// Create user (owner only)
+// Create user
 router.post(
   "/",
   ValidationMiddleware.validateRequired(["username", "password"]),
-  AuthMiddleware.requireOwner(),
+  AuthMiddleware.requirePermission("users:manage"),
   ErrorMiddleware.asyncHandler(userController.createUser)
 );
 
@@ -33,7 +33,7 @@ router.post(
 router.get(
   "/",
   ValidationMiddleware.validatePagination(),
-  AuthMiddleware.requireOwner(),
+  AuthMiddleware.requirePermission("users:view"),
   ErrorMiddleware.asyncHandler(userController.getAllUsers)
 );
 
@@ -41,7 +41,7 @@ router.get(
 router.get(
   "/organization/:organizationId",
   ValidationMiddleware.validateUUID("organizationId"),
-  AuthMiddleware.requireOwner(),
+  AuthMiddleware.requirePermission("users:view"),
   ErrorMiddleware.asyncHandler(userController.getOrganizationUsers)
 );
 
@@ -67,20 +67,44 @@ router.put(
   ErrorMiddleware.asyncHandler(userController.updatePassword)
 );
 
-// Activate user (owner only)
+// Issue a one-time password reset code for a member (owner only)
+router.post(
+  "/:id/reset-code",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requireSession(),
+  ErrorMiddleware.asyncHandler(userController.createResetCode)
+);
+
+// Assign a built-in role and/or custom role
+router.put(
+  "/:id/role",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("roles:manage"),
+  ErrorMiddleware.asyncHandler(userController.assignRole)
+);
+
+// Activate user
 router.put(
   "/:id/activate",
   ValidationMiddleware.validateUUID("id"),
-  AuthMiddleware.requireOwner(),
+  AuthMiddleware.requirePermission("users:manage"),
   ErrorMiddleware.asyncHandler(userController.activateUser)
 );
 
-// Deactivate user (owner only)
+// Deactivate user
 router.put(
   "/:id/deactivate",
   ValidationMiddleware.validateUUID("id"),
-  AuthMiddleware.requireOwner(),
+  AuthMiddleware.requirePermission("users:manage"),
   ErrorMiddleware.asyncHandler(userController.deactivateUser)
 );
 
+// Unlock a user locked out by failed logins
+router.put(
+  "/:id/unlock",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("users:manage"),
+  ErrorMiddleware.asyncHandler(userController.unlockUser)
+);
+
 export { router as userRoutes };
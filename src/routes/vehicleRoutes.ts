@@ -0,0 +1,71 @@
+import { Router } from "express";
+import { VehicleController } from "../controllers/vehicleController";
+import { AuthMiddleware } from "../middlewares/auth";
+import { ErrorMiddleware } from "../middlewares/error";
+import { ValidationMiddleware } from "../middlewares/validation";
+
+const router = Router();
+const vehicleController = new VehicleController();
+
+// Apply authentication middleware to all routes
+router.use(AuthMiddleware.authenticate);
+router.use(AuthMiddleware.requireActiveUser());
+
+// Get vehicles with search and pagination
+router.get(
+  "/",
+  ValidationMiddleware.validatePagination(),
+  AuthMiddleware.requirePermission("vehicles:view"),
+  ErrorMiddleware.asyncHandler(vehicleController.getVehicles)
+);
+
+// Auto-complete vehicles by registration number
+router.get(
+  "/search",
+  AuthMiddleware.requirePermission("vehicles:view"),
+  ErrorMiddleware.asyncHandler(vehicleController.searchVehicles)
+);
+
+// Register vehicle
+router.post(
+  "/",
+  ValidationMiddleware.validateRequired(["registrationNumber"]),
+  AuthMiddleware.requirePermission("vehicles:manage"),
+  ErrorMiddleware.asyncHandler(vehicleController.createVehicle)
+);
+
+// Get vehicle by ID
+router.get(
+  "/:id",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("vehicles:view"),
+  ErrorMiddleware.asyncHandler(vehicleController.getVehicleById)
+);
+
+// Update vehicle
+router.put(
+  "/:id",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("vehicles:manage"),
+  ErrorMiddleware.asyncHandler(vehicleController.updateVehicle)
+);
+
+// Delete vehicle (soft delete)
+router.delete(
+  "/:id",
+  ValidationMiddleware.validateUUID("id"),
+  AuthMiddleware.requirePermission("vehicles:delete"),
+  ErrorMiddleware.asyncHandler(vehicleController.deleteVehicle)
+);
+
+// Get trip history for a vehicle
+router.get(
+  "/:id/trips",
+  ValidationMiddleware.validateUUID("id"),
+  ValidationMiddleware.validatePagination(),
+  ValidationMiddleware.validateDateRange(),
+  AuthMiddleware.requirePermission("vehicles:view"),
+  ErrorMiddleware.asyncHandler(vehicleController.getVehicleTrips)
+);
+
+export { router as vehicleRoutes };
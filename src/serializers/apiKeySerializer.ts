@@ -0,0 +1,35 @@
+import { ApiKey } from "@prisma/client";
+import { PublicApiKey, UserSummary } from "../types";
+import { UserSerializer } from "./userSerializer";
+
+type ApiKeyWithRelations = ApiKey & {
+  createdBy?: UserSummary;
+};
+
+export class ApiKeySerializer {
+  static toPublic(apiKey: ApiKeyWithRelations): PublicApiKey {
+    const publicApiKey: PublicApiKey = {
+      id: apiKey.id,
+      organizationId: apiKey.organizationId,
+      name: apiKey.name,
+      keyPrefix: apiKey.keyPrefix,
+      permissions: apiKey.permissions,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      revokedAt: apiKey.revokedAt,
+      createdById: apiKey.createdById,
+      createdAt: apiKey.createdAt,
+      updatedAt: apiKey.updatedAt,
+    };
+
+    if (apiKey.createdBy) {
+      publicApiKey.createdBy = UserSerializer.toSummary(apiKey.createdBy);
+    }
+
+    return publicApiKey;
+  }
+
+  static toPublicList(apiKeys: ApiKeyWithRelations[]): PublicApiKey[] {
+    return apiKeys.map((apiKey) => ApiKeySerializer.toPublic(apiKey));
+  }
+}
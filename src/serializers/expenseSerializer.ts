@@ -0,0 +1,42 @@
+import { OtherExpense } from "@prisma/client";
+import { OrganizationSummary, PublicExpense, UserSummary } from "../types";
+import { OrganizationSerializer } from "./organizationSerializer";
+import { UserSerializer } from "./userSerializer";
+
+type ExpenseWithRelations = OtherExpense & {
+  organization?: OrganizationSummary;
+  user?: UserSummary;
+};
+
+export class ExpenseSerializer {
+  static toPublic(expense: ExpenseWithRelations): PublicExpense {
+    const publicExpense: PublicExpense = {
+      id: expense.id,
+      organizationId: expense.organizationId,
+      userId: expense.userId,
+      expensesName: expense.expensesName,
+      amount: expense.amount,
+      others: expense.others,
+      notes: expense.notes,
+      date: expense.date,
+      isActive: expense.isActive,
+      createdAt: expense.createdAt,
+      updatedAt: expense.updatedAt,
+    };
+
+    if (expense.organization) {
+      publicExpense.organization = OrganizationSerializer.toSummary(
+        expense.organization
+      );
+    }
+    if (expense.user) {
+      publicExpense.user = UserSerializer.toSummary(expense.user);
+    }
+
+    return publicExpense;
+  }
+
+  static toPublicList(expenses: ExpenseWithRelations[]): PublicExpense[] {
+    return expenses.map((expense) => ExpenseSerializer.toPublic(expense));
+  }
+}
@@ -0,0 +1,6 @@
+export * from "./apiKeySerializer";
+export * from "./expenseSerializer";
+export * from "./materialRateSerializer";
+export * from "./organizationSerializer";
+export * from "./truckEntrySerializer";
+export * from "./userSerializer";
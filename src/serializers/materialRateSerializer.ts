@@ -0,0 +1,167 @@
+import {
+  MaterialRate,
+  MaterialRateOverride,
+  MaterialRateVersion,
+  ScheduledRateChange,
+} from "@prisma/client";
+import moment from "moment-timezone";
+import {
+  PublicMaterialRate,
+  PublicMaterialRateOverride,
+  PublicMaterialRateVersion,
+  PublicScheduledRateChange,
+  UserSummary,
+} from "../types";
+import { UserSerializer } from "./userSerializer";
+
+type MaterialRateVersionWithRelations = MaterialRateVersion & {
+  changedBy?: UserSummary | null;
+};
+
+type MaterialRateOverrideWithRelations = MaterialRateOverride & {
+  customer?: { id: string; name: string } | null;
+  vehicle?: { id: string; registrationNumber: string } | null;
+  createdBy?: UserSummary | null;
+};
+
+type ScheduledRateChangeWithRelations = ScheduledRateChange & {
+  materialRate?: { id: string; materialType: string };
+  createdBy?: UserSummary;
+  cancelledBy?: UserSummary | null;
+};
+
+export class MaterialRateSerializer {
+  static toPublic(rate: MaterialRate): PublicMaterialRate {
+    return {
+      id: rate.id,
+      organizationId: rate.organizationId,
+      materialType: rate.materialType,
+      ratePerUnit: rate.ratePerUnit,
+      unitType: rate.unitType,
+      density: rate.density,
+      hsnCode: rate.hsnCode,
+      gstRate: rate.gstRate,
+      isActive: rate.isActive,
+      createdAt: rate.createdAt,
+      updatedAt: rate.updatedAt,
+    };
+  }
+
+  static toPublicList(rates: MaterialRate[]): PublicMaterialRate[] {
+    return rates.map((rate) => MaterialRateSerializer.toPublic(rate));
+  }
+
+  static toPublicVersion(
+    version: MaterialRateVersionWithRelations
+  ): PublicMaterialRateVersion {
+    const publicVersion: PublicMaterialRateVersion = {
+      id: version.id,
+      materialRateId: version.materialRateId,
+      ratePerUnit: version.ratePerUnit,
+      effectiveFrom: version.effectiveFrom,
+      effectiveTo: version.effectiveTo,
+      changedById: version.changedById,
+      createdAt: version.createdAt,
+    };
+
+    if (version.changedBy) {
+      publicVersion.changedBy = UserSerializer.toSummary(version.changedBy);
+    }
+
+    return publicVersion;
+  }
+
+  static toPublicVersionList(
+    versions: MaterialRateVersionWithRelations[]
+  ): PublicMaterialRateVersion[] {
+    return versions.map((version) =>
+      MaterialRateSerializer.toPublicVersion(version)
+    );
+  }
+
+  static toPublicOverride(
+    override: MaterialRateOverrideWithRelations
+  ): PublicMaterialRateOverride {
+    const publicOverride: PublicMaterialRateOverride = {
+      id: override.id,
+      materialRateId: override.materialRateId,
+      customerId: override.customerId,
+      vehicleId: override.vehicleId,
+      ratePerUnit: override.ratePerUnit,
+      createdById: override.createdById,
+      createdAt: override.createdAt,
+      updatedAt: override.updatedAt,
+    };
+
+    if (override.customer) {
+      publicOverride.customer = {
+        id: override.customer.id,
+        name: override.customer.name,
+      };
+    }
+    if (override.vehicle) {
+      publicOverride.vehicle = {
+        id: override.vehicle.id,
+        registrationNumber: override.vehicle.registrationNumber,
+      };
+    }
+    if (override.createdBy) {
+      publicOverride.createdBy = UserSerializer.toSummary(override.createdBy);
+    }
+
+    return publicOverride;
+  }
+
+  static toPublicOverrideList(
+    overrides: MaterialRateOverrideWithRelations[]
+  ): PublicMaterialRateOverride[] {
+    return overrides.map((override) =>
+      MaterialRateSerializer.toPublicOverride(override)
+    );
+  }
+
+  static toPublicScheduledChange(
+    change: ScheduledRateChangeWithRelations,
+    timezone: string
+  ): PublicScheduledRateChange {
+    const publicChange: PublicScheduledRateChange = {
+      id: change.id,
+      materialRateId: change.materialRateId,
+      ratePerUnit: change.ratePerUnit,
+      effectiveAt: change.effectiveAt,
+      effectiveAtLocal: moment
+        .tz(change.effectiveAt, timezone)
+        .format("YYYY-MM-DDTHH:mm"),
+      timezone,
+      status: change.status,
+      error: change.error,
+      appliedAt: change.appliedAt,
+      cancelledAt: change.cancelledAt,
+      createdById: change.createdById,
+      createdAt: change.createdAt,
+    };
+
+    if (change.materialRate) {
+      publicChange.materialType = change.materialRate.materialType;
+    }
+    if (change.createdBy) {
+      publicChange.createdBy = UserSerializer.toSummary(change.createdBy);
+    }
+    if (change.cancelledBy !== undefined) {
+      publicChange.cancelledBy = change.cancelledBy
+        ? UserSerializer.toSummary(change.cancelledBy)
+        : null;
+    }
+
+    return publicChange;
+  }
+
+  static toPublicScheduledChangeList(
+    changes: ScheduledRateChangeWithRelations[],
+    timezone: string
+  ): PublicScheduledRateChange[] {
+    return changes.map((change) =>
+      MaterialRateSerializer.toPublicScheduledChange(change, timezone)
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { Organization, UserRole } from "@prisma/client";
+import {
+  OrganizationMember,
+  OrganizationSummary,
+  PublicOrganization,
+  UserSummary,
+} from "../types";
+import { UserSerializer } from "./userSerializer";
+
+type MemberRecord = UserSummary & {
+  role: UserRole;
+  isActive: boolean;
+  lastLogin: Date | null;
+};
+
+type OrganizationWithRelations = Organization & {
+  owner?: UserSummary | null;
+  users?: MemberRecord[];
+  _count?: Record<string, number>;
+};
+
+export class OrganizationSerializer {
+  static toPublic(organization: OrganizationWithRelations): PublicOrganization {
+    const publicOrganization: PublicOrganization = {
+      id: organization.id,
+      name: organization.name,
+      ownerId: organization.ownerId,
+      gstin: organization.gstin,
+      stateCode: organization.stateCode,
+      address: organization.address,
+      requireTwoFactor: organization.requireTwoFactor,
+      timezone: organization.timezone,
+      createdAt: organization.createdAt,
+      updatedAt: organization.updatedAt,
+    };
+
+    if (organization.owner !== undefined) {
+      publicOrganization.owner = organization.owner
+        ? UserSerializer.toSummary(organization.owner)
+        : null;
+    }
+    if (organization.users) {
+      publicOrganization.users = organization.users.map(
+        (member): OrganizationMember => ({
+          id: member.id,
+          username: member.username,
+          role: member.role,
+          isActive: member.isActive,
+          lastLogin: member.lastLogin,
+        })
+      );
+    }
+    if (organization._count) {
+      publicOrganization._count = organization._count;
+    }
+
+    return publicOrganization;
+  }
+
+  static toPublicList(
+    organizations: OrganizationWithRelations[]
+  ): PublicOrganization[] {
+    return organizations.map((organization) =>
+      OrganizationSerializer.toPublic(organization)
+    );
+  }
+
+  static toSummary(organization: OrganizationSummary): OrganizationSummary {
+    return { id: organization.id, name: organization.name };
+  }
+}
@@ -0,0 +1,102 @@
+import { TruckEntry } from "@prisma/client";
+import { OrganizationSummary, PublicTruckEntry, UserSummary } from "../types";
+import { OrganizationSerializer } from "./organizationSerializer";
+import { UserSerializer } from "./userSerializer";
+
+type TruckEntryWithRelations = TruckEntry & {
+  organization?: OrganizationSummary;
+  user?: UserSummary;
+  deletedBy?: UserSummary | null;
+  reviewedBy?: UserSummary | null;
+  customer?: unknown;
+  vehicle?: unknown;
+  entryTypeMaterial?: unknown;
+  paymentAllocations?: unknown;
+};
+
+export class TruckEntrySerializer {
+  static toPublic(entry: TruckEntryWithRelations): PublicTruckEntry {
+    const publicEntry: PublicTruckEntry = {
+      id: entry.id,
+      organizationId: entry.organizationId,
+      userId: entry.userId,
+      truckNumber: entry.truckNumber,
+      truckName: entry.truckName,
+      entryType: entry.entryType,
+      materialType: entry.materialType,
+      entryTypeMaterialId: entry.entryTypeMaterialId,
+      customerId: entry.customerId,
+      vehicleId: entry.vehicleId,
+      units: entry.units,
+      unitType: entry.unitType,
+      grossWeight: entry.grossWeight,
+      tareWeight: entry.tareWeight,
+      netWeight: entry.netWeight,
+      ratePerUnit: entry.ratePerUnit,
+      standardRate: entry.standardRate,
+      priceOverrideReason: entry.priceOverrideReason,
+      needsReview: entry.needsReview,
+      reviewedAt: entry.reviewedAt,
+      reviewedById: entry.reviewedById,
+      totalAmount: entry.totalAmount,
+      paymentMode: entry.paymentMode,
+      paymentStatus: entry.paymentStatus,
+      amountPaid: entry.amountPaid,
+      hsnCode: entry.hsnCode,
+      gstRate: entry.gstRate,
+      placeOfSupply: entry.placeOfSupply,
+      cgstAmount: entry.cgstAmount,
+      sgstAmount: entry.sgstAmount,
+      igstAmount: entry.igstAmount,
+      challanNumber: entry.challanNumber,
+      challanIssuedAt: entry.challanIssuedAt,
+      invoiceNumber: entry.invoiceNumber,
+      invoiceIssuedAt: entry.invoiceIssuedAt,
+      truckImage: entry.truckImage,
+      entryDate: entry.entryDate,
+      entryTime: entry.entryTime,
+      status: entry.status,
+      deletedAt: entry.deletedAt,
+      deletedById: entry.deletedById,
+      deleteReason: entry.deleteReason,
+      notes: entry.notes,
+      createdAt: entry.createdAt,
+      updatedAt: entry.updatedAt,
+    };
+
+    // Related users and organizations are reduced to their summaries; the
+    // other relations belong to the entry's own organization
+    if (entry.organization) {
+      publicEntry.organization = OrganizationSerializer.toSummary(
+        entry.organization
+      );
+    }
+    if (entry.user) {
+      publicEntry.user = UserSerializer.toSummary(entry.user);
+    }
+    if (entry.deletedBy !== undefined) {
+      publicEntry.deletedBy = entry.deletedBy
+        ? UserSerializer.toSummary(entry.deletedBy)
+        : null;
+    }
+    if (entry.reviewedBy !== undefined) {
+      publicEntry.reviewedBy = entry.reviewedBy
+        ? UserSerializer.toSummary(entry.reviewedBy)
+        : null;
+    }
+    if (entry.customer !== undefined) publicEntry.customer = entry.customer;
+    if (entry.vehicle !== undefined) publicEntry.vehicle = entry.vehicle;
+    if (entry.entryTypeMaterial !== undefined) {
+      publicEntry.entryTypeMaterial = entry.entryTypeMaterial;
+    }
+    if (entry.paymentAllocations !== undefined) {
+      publicEntry.paymentAllocations = entry.paymentAllocations;
+    }
+
+    return publicEntry;
+  }
+
+  static toPublicList(entries: TruckEntryWithRelations[]): PublicTruckEntry[] {
+    return entries.map((entry) => TruckEntrySerializer.toPublic(entry));
+  }
+}
@@ -0,0 +1,41 @@
+import { User } from "@prisma/client";
+import { OrganizationSummary, PublicUser, UserSummary } from "../types";
+
+type UserWithRelations = User & {
+  organization?: OrganizationSummary | null;
+};
+
+export class UserSerializer {
+  static toPublic(user: UserWithRelations): PublicUser {
+    const publicUser: PublicUser = {
+      id: user.id,
+      organizationId: user.organizationId,
+      username: user.username,
+      role: user.role,
+      roleId: user.roleId,
+      isActive: user.isActive,
+      lastLogin: user.lastLogin,
+      lockedUntil: user.lockedUntil,
+      twoFactorEnabled: !!user.totpEnabledAt,
+      profileImage: user.profileImage,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    };
+
+    if (user.organization !== undefined) {
+      publicUser.organization = user.organization
+        ? { id: user.organization.id, name: user.organization.name }
+        : null;
+    }
+
+    return publicUser;
+  }
+
+  static toPublicList(users: UserWithRelations[]): PublicUser[] {
+    return users.map((user) => UserSerializer.toPublic(user));
+  }
+
+  static toSummary(user: UserSummary): UserSummary {
+    return { id: user.id, username: user.username };
+  }
+}
@@ -0,0 +1,189 @@
+import { ApiKey } from "@prisma/client";
+import crypto from "crypto";
+import { ApiKeyDAO } from "../dao/apiKeyDAO";
+import { logger } from "../utils/logger";
+import { Permission, PermissionUtil } from "../utils/permissions";
+
+const API_KEY_PREFIX = "ak_";
+const API_KEY_PREFIX_LENGTH = 11;
+
+// Only record a key's use once a minute, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export const MAX_API_KEY_EXPIRY_DAYS = 365;
+
+// A leaked key must not be able to mint more keys
+const NON_DELEGABLE_PERMISSIONS: Permission[] = ["api-keys:manage"];
+
+export interface ApiKeyInput {
+  name?: string;
+  permissions?: string[];
+  expiresInDays?: number;
+}
+
+export class ApiKeyService {
+  private apiKeyDAO: ApiKeyDAO;
+
+  constructor() {
+    this.apiKeyDAO = new ApiKeyDAO();
+  }
+
+  // Returns the stored key along with the key itself, which is not kept and
+  // can only be shown this once
+  async createApiKey(
+    organizationId: string,
+    createdById: string,
+    data: ApiKeyInput,
+    grantorPermissions: string[]
+  ): Promise<{ apiKey: ApiKey; key: string }> {
+    logger.info("Creating API key in service layer", {
+      organizationId,
+      createdById,
+      name: data.name,
+    });
+
+    const name = (data.name || "").trim();
+    if (!name || name.length > 100) {
+      throw new Error(
+        "API key name is required and must be at most 100 characters"
+      );
+    }
+
+    const permissions = this.validatePermissions(
+      data.permissions,
+      grantorPermissions
+    );
+
+    let expiresAt: Date | null = null;
+    if (data.expiresInDays !== undefined && data.expiresInDays !== null) {
+      const expiresInDays = Number(data.expiresInDays);
+      if (
+        !Number.isInteger(expiresInDays) ||
+        expiresInDays < 1 ||
+        expiresInDays > MAX_API_KEY_EXPIRY_DAYS
+      ) {
+        throw new Error(
+          `Expiry must be a whole number of days between 1 and ${MAX_API_KEY_EXPIRY_DAYS}`
+        );
+      }
+      expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+    }
+
+    const key = API_KEY_PREFIX + crypto.randomBytes(32).toString("hex");
+    const apiKey = await this.apiKeyDAO.create({
+      organization: { connect: { id: organizationId } },
+      createdBy: { connect: { id: createdById } },
+      name,
+      keyPrefix: key.substring(0, API_KEY_PREFIX_LENGTH),
+      keyHash: this.hashKey(key),
+      permissions,
+      expiresAt,
+    });
+
+    return { apiKey, key };
+  }
+
+  async getApiKeys(
+    organizationId: string,
+    includeRevoked = false
+  ): Promise<ApiKey[]> {
+    if (!organizationId) {
+      throw new Error("Organization ID is required");
+    }
+    return await this.apiKeyDAO.findByOrganization(
+      organizationId,
+      includeRevoked
+    );
+  }
+
+  async getApiKeyById(id: string): Promise<ApiKey | null> {
+    if (!id) {
+      throw new Error("API key ID is required");
+    }
+    return await this.apiKeyDAO.findById(id);
+  }
+
+  async revokeApiKey(id: string): Promise<ApiKey> {
+    const apiKey = await this.apiKeyDAO.findById(id);
+    if (!apiKey) {
+      throw new Error("API key not found");
+    }
+    if (apiKey.revokedAt) {
+      throw new Error("API key has already been revoked");
+    }
+
+    logger.info("Revoking API key", { apiKeyId: id });
+    return await this.apiKeyDAO.revoke(id);
+  }
+
+  // Looks up a usable key and records its use. Returns null for unknown,
+  // revoked and expired keys
+  async authenticate(key: string): Promise<ApiKey | null> {
+    if (!key || !key.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const apiKey = await this.apiKeyDAO.findByHash(this.hashKey(key));
+    if (
+      !apiKey ||
+      apiKey.revokedAt ||
+      (apiKey.expiresAt && apiKey.expiresAt <= new Date())
+    ) {
+      return null;
+    }
+
+    if (
+      !apiKey.lastUsedAt ||
+      Date.now() - apiKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS
+    ) {
+      try {
+        await this.apiKeyDAO.recordUse(apiKey.id);
+      } catch (error: any) {
+        logger.warn("Failed to record API key use", {
+          apiKeyId: apiKey.id,
+          error: error.message,
+        });
+      }
+    }
+
+    return apiKey;
+  }
+
+  private validatePermissions(
+    permissions: string[] | undefined,
+    grantorPermissions: string[]
+  ): Permission[] {
+    if (!Array.isArray(permissions) || permissions.length === 0) {
+      throw new Error("Permissions must be a non-empty list");
+    }
+
+    const invalid = permissions.filter(
+      (permission) => !PermissionUtil.isValid(permission)
+    );
+    if (invalid.length > 0) {
+      throw new Error(`Unknown permissions: ${invalid.join(", ")}`);
+    }
+
+    const withheld = permissions.filter((permission) =>
+      NON_DELEGABLE_PERMISSIONS.includes(permission as Permission)
+    );
+    if (withheld.length > 0) {
+      throw new Error(
+        `API keys cannot be given these permissions: ${withheld.join(", ")}`
+      );
+    }
+
+    const missing = PermissionUtil.missing(grantorPermissions, permissions);
+    if (missing.length > 0) {
+      throw new Error(
+        `You cannot grant permissions you do not hold: ${missing.join(", ")}`
+      );
+    }
+
+    return Array.from(new Set(permissions)) as Permission[];
+  }
+
+  private hashKey(key: string): string {
+    return crypto.createHash("sha256").update(key).digest("hex");
+  }
+}
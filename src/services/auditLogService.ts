@@ -0,0 +1,164 @@
+import { AuditLog, Prisma } from "@prisma/client";
+import { AuditLogDAO } from "../dao/auditLogDAO";
+import { AuditLogFilters } from "../types";
+import { logger } from "../utils/logger";
+import { TenantContext } from "../utils/tenantContext";
+import { ValidationUtil } from "../utils/validation";
+
+export const AUDIT_ENTITY_TYPES = [
+  "TruckEntry",
+  "MaterialRate",
+  "MaterialRateOverride",
+  "OtherExpense",
+  "User",
+  "Organization",
+] as const;
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+export const AUDIT_ACTIONS = ["create", "update", "delete", "restore"] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditFieldChange = {
+  from: Prisma.JsonValue;
+  to: Prisma.JsonValue;
+};
+
+// Timestamps change on every write; secrets only show that they changed
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt"]);
+const REDACTED_FIELDS = new Set([
+  "passwordHash",
+  "totpSecret",
+  "totpRecoveryCodes",
+]);
+const REDACTED = "[redacted]";
+
+export class AuditLogService {
+  private auditLogDAO: AuditLogDAO;
+
+  constructor() {
+    this.auditLogDAO = new AuditLogDAO();
+  }
+
+  // Records a change to an entity, given as it was before and after the
+  // change (null when it did not exist). The acting user and IP come from the
+  // request. The organization defaults to the entity's, then the request's
+  async record(
+    entityType: AuditEntityType,
+    action: AuditAction,
+    before: Record<string, any> | null,
+    after: Record<string, any> | null,
+    organizationId?: string | null
+  ): Promise<void> {
+    const entity = after || before;
+    if (!entity) {
+      return;
+    }
+
+    try {
+      const changes = this.diff(entityType, before, after);
+      if (action === "update" && Object.keys(changes).length === 0) {
+        return;
+      }
+
+      const { userId, ipAddress } = TenantContext.getActor();
+      const targetOrganizationId =
+        organizationId !== undefined
+          ? organizationId
+          : entity.organizationId || TenantContext.getOrganizationId();
+
+      await this.auditLogDAO.create({
+        entityType,
+        entityId: entity.id,
+        action,
+        changes: changes as Prisma.InputJsonObject,
+        ipAddress: ipAddress?.substring(0, 45),
+        ...(userId && { user: { connect: { id: userId } } }),
+        ...(targetOrganizationId && {
+          organization: { connect: { id: targetOrganizationId } },
+        }),
+      });
+    } catch (error: any) {
+      // The change itself has already been saved; losing its log entry must
+      // not turn it into an error for the caller
+      logger.error("Failed to record audit log", {
+        entityType,
+        entityId: entity.id,
+        action,
+        error: error.message,
+      });
+    }
+  }
+
+  async getAuditLogs(filters: AuditLogFilters): Promise<{
+    logs: AuditLog[];
+    pagination: {
+      total: number;
+      page: number;
+      limit: number;
+      totalPages: number;
+    };
+  }> {
+    if (!filters.organizationId) {
+      throw new Error("Organization ID is required");
+    }
+
+    const validatedParams = ValidationUtil.validatePaginationParams(filters);
+    const { logs, total } = await this.auditLogDAO.findAll({
+      ...filters,
+      ...validatedParams,
+    });
+
+    return {
+      logs,
+      pagination: {
+        total,
+        page: validatedParams.page!,
+        limit: validatedParams.limit!,
+        totalPages: Math.ceil(total / validatedParams.limit!),
+      },
+    };
+  }
+
+  // Compares the model's own columns only; relations loaded along with the
+  // entity are not part of its change
+  private diff(
+    entityType: AuditEntityType,
+    before: Record<string, any> | null,
+    after: Record<string, any> | null
+  ): Record<string, AuditFieldChange> {
+    const model = Prisma.dmmf.datamodel.models.find(
+      (candidate) => candidate.name === entityType
+    );
+    const fields = (model?.fields || []).filter(
+      (field) =>
+        (field.kind === "scalar" || field.kind === "enum") &&
+        !IGNORED_FIELDS.has(field.name)
+    );
+
+    const changes: Record<string, AuditFieldChange> = {};
+    for (const { name } of fields) {
+      const from = this.toValue(before?.[name]);
+      const to = this.toValue(after?.[name]);
+      if (JSON.stringify(from) === JSON.stringify(to)) {
+        continue;
+      }
+      changes[name] = REDACTED_FIELDS.has(name)
+        ? { from: before ? REDACTED : null, to: after ? REDACTED : null }
+        : { from, to };
+    }
+    return changes;
+  }
+
+  private toValue(value: unknown): Prisma.JsonValue {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (Prisma.Decimal.isDecimal(value)) {
+      return value.toString();
+    }
+    return value as Prisma.JsonValue;
+  }
+}
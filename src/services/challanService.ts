@@ -0,0 +1,63 @@
+import { TruckEntry } from "@prisma/client";
+import { DocumentSequenceDAO } from "../dao/documentSequenceDAO";
+import { TruckEntryDAO } from "../dao/truckEntryDAO";
+import { logger } from "../utils/logger";
+
+export class ChallanService {
+  private documentSequenceDAO: DocumentSequenceDAO;
+  private truckEntryDAO: TruckEntryDAO;
+
+  constructor() {
+    this.documentSequenceDAO = new DocumentSequenceDAO();
+    this.truckEntryDAO = new TruckEntryDAO();
+  }
+
+  // Returns the entry with its challan number, assigning the next number in
+  // the entry's financial year if it has none yet
+  async ensureChallanNumber(entry: TruckEntry): Promise<TruckEntry> {
+    if (entry.challanNumber) {
+      return entry;
+    }
+
+    if (entry.entryType !== "Sales") {
+      throw new Error("Challans are only issued for sales entries");
+    }
+
+    const financialYear = this.getFinancialYear(entry.entryDate);
+    try {
+      await this.documentSequenceDAO.assignDocumentNumber(
+        "challan",
+        entry.id,
+        entry.organizationId,
+        financialYear,
+        (sequence) => this.formatChallanNumber(financialYear, sequence)
+      );
+    } catch (error: any) {
+      // Another request may have numbered the entry first
+      logger.warn("Challan number assignment did not complete", {
+        entryId: entry.id,
+        error: error.message,
+      });
+    }
+
+    const updated = await this.truckEntryDAO.findById(entry.id);
+    if (!updated || !updated.challanNumber) {
+      throw new Error("Failed to assign challan number");
+    }
+    return updated;
+  }
+
+  // Indian financial years run April to March, e.g. "2026-27". Entry dates
+  // are already calendar dates in the organization's timezone
+  getFinancialYear(date: Date): string {
+    const value = new Date(date);
+    const year = value.getUTCFullYear();
+    const startYear = value.getUTCMonth() >= 3 ? year : year - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+  }
+
+  formatChallanNumber(financialYear: string, sequence: number): string {
+    const prefix = process.env.CHALLAN_NUMBER_PREFIX || "CH";
+    return `${prefix}/${financialYear}/${String(sequence).padStart(6, "0")}`;
+  }
+}
@@ -0,0 +1,407 @@
+import { Customer, Prisma } from "@prisma/client";
+import { CustomerDAO } from "../dao/customerDAO";
+import { PaymentDAO } from "../dao/paymentDAO";
+import { CustomerFilters } from "../types";
+import { GstUtil } from "../utils/gst";
+import { logger } from "../utils/logger";
+import { ValidationUtil } from "../utils/validation";
+
+export interface CustomerInput {
+  name?: string;
+  contactPerson?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  gstin?: string;
+  stateCode?: string;
+  openingBalance?: number;
+  notes?: string;
+}
+
+export interface LedgerRow {
+  date: Date;
+  type: "load" | "payment";
+  referenceId: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface CustomerLedger {
+  customer: Customer;
+  openingBalance: number;
+  closingBalance: number;
+  totalDebit: number;
+  totalCredit: number;
+  rows: LedgerRow[];
+}
+
+export interface TruckNameMigrationResult {
+  dryRun: boolean;
+  customersCreated: number;
+  entriesLinked: number;
+  matches: {
+    customerName: string;
+    customerId: string | null;
+    isNew: boolean;
+    truckNames: string[];
+    entryCount: number;
+  }[];
+}
+
+export class CustomerService {
+  private customerDAO: CustomerDAO;
+  private paymentDAO: PaymentDAO;
+
+  constructor() {
+    this.customerDAO = new CustomerDAO();
+    this.paymentDAO = new PaymentDAO();
+  }
+
+  async createCustomer(
+    organizationId: string,
+    data: CustomerInput
+  ): Promise<Customer> {
+    logger.info("Creating customer in service layer", {
+      organizationId,
+      name: data.name,
+    });
+
+    const name = this.normalizeName(data.name || "");
+    if (!name) {
+      throw new Error("Customer name is required");
+    }
+    if (name.length > 100) {
+      throw new Error("Customer name must not exceed 100 characters");
+    }
+
+    if (await this.customerDAO.checkNameExists(organizationId, name)) {
+      throw new Error("A customer with this name already exists");
+    }
+
+    this.validateContactDetails(data);
+
+    return await this.customerDAO.create({
+      organization: { connect: { id: organizationId } },
+      name,
+      contactPerson: data.contactPerson,
+      phone: data.phone,
+      email: data.email,
+      address: data.address,
+      gstin: data.gstin ? data.gstin.toUpperCase() : undefined,
+      stateCode: data.stateCode || GstUtil.stateCodeFromGstin(data.gstin),
+      openingBalance: data.openingBalance ?? 0,
+      notes: data.notes,
+    });
+  }
+
+  async getCustomerById(id: string): Promise<Customer | null> {
+    if (!id) {
+      throw new Error("Customer ID is required");
+    }
+    return await this.customerDAO.findById(id);
+  }
+
+  async getCustomersByOrganization(
+    organizationId: string,
+    filters: CustomerFilters
+  ): Promise<{
+    customers: Customer[];
+    pagination: {
+      total: number;
+      page: number;
+      limit: number;
+      totalPages: number;
+    };
+  }> {
+    const validatedParams = ValidationUtil.validatePaginationParams(filters);
+    const { customers, total } = await this.customerDAO.findByOrganizationId(
+      organizationId,
+      {
+        ...validatedParams,
+        sortBy: filters.sortBy || "name",
+        search: filters.search,
+        isActive: filters.isActive,
+      }
+    );
+
+    return {
+      customers,
+      pagination: {
+        total,
+        page: validatedParams.page!,
+        limit: validatedParams.limit!,
+        totalPages: Math.ceil(total / validatedParams.limit!),
+      },
+    };
+  }
+
+  async updateCustomer(id: string, data: CustomerInput): Promise<Customer> {
+    const existing = await this.customerDAO.findById(id);
+    if (!existing) {
+      throw new Error("Customer not found");
+    }
+
+    const updateData: Prisma.CustomerUpdateInput = {};
+
+    if (data.name !== undefined) {
+      const name = this.normalizeName(data.name);
+      if (!name) {
+        throw new Error("Customer name cannot be empty");
+      }
+      if (
+        await this.customerDAO.checkNameExists(
+          existing.organizationId,
+          name,
+          id
+        )
+      ) {
+        throw new Error("A customer with this name already exists");
+      }
+      updateData.name = name;
+    }
+
+    this.validateContactDetails(data);
+
+    if (data.contactPerson !== undefined)
+      updateData.contactPerson = data.contactPerson;
+    if (data.phone !== undefined) updateData.phone = data.phone;
+    if (data.email !== undefined) updateData.email = data.email;
+    if (data.address !== undefined) updateData.address = data.address;
+    if (data.gstin !== undefined)
+      updateData.gstin = data.gstin ? data.gstin.toUpperCase() : null;
+    if (data.stateCode !== undefined || data.gstin) {
+      updateData.stateCode =
+        data.stateCode || GstUtil.stateCodeFromGstin(data.gstin) || null;
+    }
+    if (data.openingBalance !== undefined)
+      updateData.openingBalance = data.openingBalance;
+    if (data.notes !== undefined) updateData.notes = data.notes;
+
+    return await this.customerDAO.update(id, updateData);
+  }
+
+  async deactivateCustomer(id: string): Promise<Customer> {
+    const existing = await this.customerDAO.findById(id);
+    if (!existing) {
+      throw new Error("Customer not found");
+    }
+    return await this.customerDAO.update(id, { isActive: false });
+  }
+
+  async getCustomerLedger(
+    customer: Customer,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<CustomerLedger> {
+    const [entries, payments] = await Promise.all([
+      this.customerDAO.findLedgerEntries(customer.id, endDate),
+      this.paymentDAO.findByCustomerId(customer.id, endDate),
+    ]);
+
+    const movements = [
+      ...entries.map((entry: any) => ({
+        date: entry.entryDate as Date,
+        createdAt: entry.createdAt as Date,
+        type: "load" as const,
+        referenceId: entry.id as string,
+        description: `${entry.truckNumber} - ${entry.materialType || "Load"} (${
+          entry.units
+        } ${entry.unitType})`,
+        debit: GstUtil.getInvoiceTotal(entry),
+        credit: this.getPaidOnEntry(entry),
+      })),
+      ...payments.map((payment) => ({
+        date: payment.paymentDate,
+        createdAt: payment.createdAt,
+        type: "payment" as const,
+        referenceId: payment.id,
+        description: payment.reference
+          ? `Payment - ${payment.reference}`
+          : "Payment",
+        debit: 0,
+        credit: Number(payment.amount),
+      })),
+    ].sort(
+      (a, b) =>
+        a.date.getTime() - b.date.getTime() ||
+        a.createdAt.getTime() - b.createdAt.getTime()
+    );
+
+    // Movements before the requested range roll into the opening balance
+    let openingBalance = Number(customer.openingBalance);
+    const rows: LedgerRow[] = [];
+    let balance = openingBalance;
+    let totalDebit = 0;
+    let totalCredit = 0;
+
+    for (const movement of movements) {
+      balance += movement.debit - movement.credit;
+      if (startDate && movement.date < startDate) {
+        openingBalance = balance;
+        continue;
+      }
+      totalDebit += movement.debit;
+      totalCredit += movement.credit;
+      rows.push({
+        date: movement.date,
+        type: movement.type,
+        referenceId: movement.referenceId,
+        description: movement.description,
+        debit: movement.debit,
+        credit: movement.credit,
+        balance,
+      });
+    }
+
+    return {
+      customer,
+      openingBalance,
+      closingBalance: balance,
+      totalDebit,
+      totalCredit,
+      rows,
+    };
+  }
+
+  // Cash and UPI loads sold before the customer was linked were paid on the
+  // entry itself, with no payment behind them, so the load credits itself
+  private getPaidOnEntry(entry: any): number {
+    const allocated = entry.paymentAllocations.reduce(
+      (sum: number, allocation: any) => sum + Number(allocation.amount),
+      0
+    );
+    return Math.max(0, GstUtil.round(Number(entry.amountPaid) - allocated));
+  }
+
+  async migrateEntriesFromTruckNames(
+    organizationId: string,
+    dryRun: boolean = true
+  ): Promise<TruckNameMigrationResult> {
+    logger.info("Migrating truck entries to customers", {
+      organizationId,
+      dryRun,
+    });
+
+    const truckNames = await this.customerDAO.findUnlinkedTruckNames(
+      organizationId
+    );
+
+    // Spellings that only differ by case or spacing belong to the same customer
+    const groups = new Map<
+      string,
+      { truckNames: string[]; entryCount: number; preferred: string }
+    >();
+    const preferredCount = new Map<string, number>();
+
+    for (const { truckName, count } of truckNames) {
+      const name = this.normalizeName(truckName);
+      if (!name) continue;
+
+      const key = name.toLowerCase();
+      const group = groups.get(key) || {
+        truckNames: [],
+        entryCount: 0,
+        preferred: name,
+      };
+      group.truckNames.push(truckName);
+      group.entryCount += count;
+      if (count > (preferredCount.get(key) || 0)) {
+        group.preferred = name;
+        preferredCount.set(key, count);
+      }
+      groups.set(key, group);
+    }
+
+    const result: TruckNameMigrationResult = {
+      dryRun,
+      customersCreated: 0,
+      entriesLinked: 0,
+      matches: [],
+    };
+
+    for (const group of groups.values()) {
+      let customer = await this.customerDAO.findByOrganizationAndName(
+        organizationId,
+        group.preferred
+      );
+      const isNew = !customer;
+
+      if (!dryRun) {
+        if (!customer) {
+          customer = await this.customerDAO.create({
+            organization: { connect: { id: organizationId } },
+            name: group.preferred.substring(0, 100),
+          });
+          result.customersCreated++;
+        }
+        const { count } = await this.customerDAO.linkEntriesByTruckName(
+          organizationId,
+          group.truckNames,
+          customer.id
+        );
+        result.entriesLinked += count;
+      } else {
+        if (isNew) result.customersCreated++;
+        result.entriesLinked += group.entryCount;
+      }
+
+      result.matches.push({
+        customerName: customer?.name || group.preferred,
+        customerId: customer?.id || null,
+        isNew,
+        truckNames: group.truckNames,
+        entryCount: group.entryCount,
+      });
+    }
+
+    logger.info("Truck entry customer migration completed", {
+      organizationId,
+      dryRun,
+      customersCreated: result.customersCreated,
+      entriesLinked: result.entriesLinked,
+    });
+    return result;
+  }
+
+  private normalizeName(name: string): string {
+    return name.trim().replace(/\s+/g, " ");
+  }
+
+  private validateContactDetails(data: CustomerInput): void {
+    if (data.gstin) {
+      const gstinValidation = ValidationUtil.validateGstin(data.gstin);
+      if (!gstinValidation.isValid) {
+        throw new Error(gstinValidation.message);
+      }
+    }
+
+    if (data.stateCode && !GstUtil.isValidStateCode(data.stateCode)) {
+      throw new Error("State code must be a valid 2-digit GST state code");
+    }
+
+    if (
+      data.stateCode &&
+      data.gstin &&
+      GstUtil.stateCodeFromGstin(data.gstin) !== data.stateCode
+    ) {
+      throw new Error("State code does not match the customer's GSTIN");
+    }
+
+    if (data.email && !ValidationUtil.validateEmail(data.email)) {
+      throw new Error("Invalid email format");
+    }
+
+    if (data.phone && !/^[0-9+\-\s]{6,20}$/.test(data.phone)) {
+      throw new Error("Invalid phone number");
+    }
+
+    if (
+      data.openingBalance !== undefined &&
+      isNaN(Number(data.openingBalance))
+    ) {
+      throw new Error("Opening balance must be a valid number");
+    }
+  }
+}
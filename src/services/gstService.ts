@@ -0,0 +1,315 @@
+import { TruckEntry } from "@prisma/client";
+import { CustomerDAO } from "../dao/customerDAO";
+import { DocumentSequenceDAO } from "../dao/documentSequenceDAO";
+import { OrganizationDAO } from "../dao/organizationDAO";
+import { TruckEntryDAO } from "../dao/truckEntryDAO";
+import { GstBreakup, GstUtil } from "../utils/gst";
+import { logger } from "../utils/logger";
+import { ChallanService } from "./challanService";
+
+export interface EntryTax extends GstBreakup {
+  placeOfSupply: string | null;
+}
+
+interface TaxTotals {
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+export interface Gstr1B2bRow extends TaxTotals {
+  customerGstin: string;
+  customerName: string;
+  invoiceNumber: string | null;
+  invoiceDate: Date;
+  invoiceValue: number;
+  placeOfSupply: string | null;
+  gstRate: number;
+}
+
+export interface Gstr1B2cRow extends TaxTotals {
+  placeOfSupply: string | null;
+  gstRate: number;
+  invoices: number;
+}
+
+export interface Gstr1HsnRow extends TaxTotals {
+  hsnCode: string;
+  unitType: string;
+  quantity: number;
+  gstRate: number;
+}
+
+export interface Gstr1Summary {
+  organization: {
+    name: string;
+    gstin: string | null;
+    stateCode: string | null;
+  };
+  startDate: string;
+  endDate: string;
+  b2b: Gstr1B2bRow[];
+  b2c: Gstr1B2cRow[];
+  hsn: Gstr1HsnRow[];
+  totals: TaxTotals & { invoiceValue: number; invoices: number };
+}
+
+export class GstService {
+  private customerDAO: CustomerDAO;
+  private documentSequenceDAO: DocumentSequenceDAO;
+  private organizationDAO: OrganizationDAO;
+  private truckEntryDAO: TruckEntryDAO;
+  private challanService: ChallanService;
+
+  constructor() {
+    this.customerDAO = new CustomerDAO();
+    this.documentSequenceDAO = new DocumentSequenceDAO();
+    this.organizationDAO = new OrganizationDAO();
+    this.truckEntryDAO = new TruckEntryDAO();
+    this.challanService = new ChallanService();
+  }
+
+  // Place of supply is the customer's state, or the organization's own state
+  // for walk-in sales and customers without a known state
+  async calculateEntryTax(
+    organizationId: string,
+    customerId: string | null | undefined,
+    taxableAmount: number,
+    gstRate: number
+  ): Promise<EntryTax> {
+    const organization = await this.organizationDAO.findById(organizationId);
+    const customer = customerId
+      ? await this.customerDAO.findById(customerId)
+      : null;
+
+    const placeOfSupply =
+      customer?.stateCode ||
+      GstUtil.stateCodeFromGstin(customer?.gstin) ||
+      organization?.stateCode ||
+      null;
+    const interState = GstUtil.isInterState(
+      organization?.stateCode,
+      placeOfSupply
+    );
+
+    return {
+      placeOfSupply,
+      ...GstUtil.calculateTax(taxableAmount, gstRate, interState),
+    };
+  }
+
+  // Returns the entry with its tax invoice number, assigning the next number
+  // in the entry's financial year if it has none yet
+  async ensureInvoiceNumber(entry: TruckEntry): Promise<TruckEntry> {
+    if (entry.invoiceNumber) {
+      return entry;
+    }
+
+    if (entry.entryType !== "Sales") {
+      throw new Error("Tax invoices are only issued for sales entries");
+    }
+
+    const financialYear = this.challanService.getFinancialYear(entry.entryDate);
+    try {
+      await this.documentSequenceDAO.assignDocumentNumber(
+        "invoice",
+        entry.id,
+        entry.organizationId,
+        financialYear,
+        (sequence) => this.formatInvoiceNumber(financialYear, sequence)
+      );
+    } catch (error: any) {
+      // Another request may have numbered the entry first
+      logger.warn("Invoice number assignment did not complete", {
+        entryId: entry.id,
+        error: error.message,
+      });
+    }
+
+    const updated = await this.truckEntryDAO.findById(entry.id);
+    if (!updated || !updated.invoiceNumber) {
+      throw new Error("Failed to assign invoice number");
+    }
+    return updated;
+  }
+
+  formatInvoiceNumber(financialYear: string, sequence: number): string {
+    const prefix = process.env.INVOICE_NUMBER_PREFIX || "INV";
+    return `${prefix}/${financialYear}/${String(sequence).padStart(6, "0")}`;
+  }
+
+  async getGstr1Summary(
+    organizationId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<Gstr1Summary> {
+    logger.info("Building GSTR-1 summary", {
+      organizationId,
+      startDate,
+      endDate,
+    });
+
+    const organization = await this.organizationDAO.findById(organizationId);
+    if (!organization) {
+      throw new Error("Organization not found");
+    }
+
+    const entries = await this.truckEntryDAO.findSalesForPeriod(
+      organizationId,
+      new Date(startDate),
+      new Date(endDate)
+    );
+
+    const b2b: Gstr1B2bRow[] = [];
+    const b2c = new Map<string, Gstr1B2cRow>();
+    const hsn = new Map<string, Gstr1HsnRow>();
+    const totals = {
+      ...this.emptyTotals(),
+      invoiceValue: 0,
+      invoices: entries.length,
+    };
+
+    for (const entry of entries) {
+      const tax: TaxTotals = {
+        taxableValue: Number(entry.totalAmount),
+        cgstAmount: Number(entry.cgstAmount),
+        sgstAmount: Number(entry.sgstAmount),
+        igstAmount: Number(entry.igstAmount),
+      };
+      const gstRate = Number(entry.gstRate);
+      const invoiceValue = GstUtil.getInvoiceTotal(entry);
+
+      this.addTotals(totals, tax);
+      totals.invoiceValue += invoiceValue;
+
+      // Sales to GST-registered customers are reported invoice by invoice
+      if (entry.customer?.gstin) {
+        b2b.push({
+          customerGstin: entry.customer.gstin,
+          customerName: entry.customer.name,
+          invoiceNumber: entry.invoiceNumber,
+          invoiceDate: entry.entryDate,
+          invoiceValue,
+          placeOfSupply: entry.placeOfSupply,
+          gstRate,
+          ...tax,
+        });
+      } else {
+        const key = `${entry.placeOfSupply || ""}|${gstRate}`;
+        const row = b2c.get(key) || {
+          placeOfSupply: entry.placeOfSupply,
+          gstRate,
+          invoices: 0,
+          ...this.emptyTotals(),
+        };
+        row.invoices++;
+        this.addTotals(row, tax);
+        b2c.set(key, row);
+      }
+
+      const hsnKey = `${entry.hsnCode || ""}|${entry.unitType}|${gstRate}`;
+      const hsnRow = hsn.get(hsnKey) || {
+        hsnCode: entry.hsnCode || "",
+        unitType: entry.unitType,
+        quantity: 0,
+        gstRate,
+        ...this.emptyTotals(),
+      };
+      hsnRow.quantity += Number(entry.units);
+      this.addTotals(hsnRow, tax);
+      hsn.set(hsnKey, hsnRow);
+    }
+
+    return {
+      organization: {
+        name: organization.name,
+        gstin: organization.gstin,
+        stateCode: organization.stateCode,
+      },
+      startDate,
+      endDate,
+      b2b,
+      b2c: Array.from(b2c.values()),
+      hsn: Array.from(hsn.values()),
+      totals,
+    };
+  }
+
+  generateGstr1Csv(summary: Gstr1Summary): string {
+    const amount = (value: number) => value.toFixed(2);
+    const state = (stateCode: string | null) =>
+      stateCode ? `${stateCode}-${GstUtil.getStateName(stateCode)}` : "";
+    const lines: string[] = [];
+
+    lines.push("B2B INVOICES");
+    lines.push(
+      "GSTIN of Recipient,Receiver Name,Invoice Number,Invoice Date,Invoice Value,Place of Supply,Rate,Taxable Value,IGST,CGST,SGST"
+    );
+    for (const row of summary.b2b) {
+      lines.push(
+        [
+          row.customerGstin,
+          `"${row.customerName.replace(/"/g, '""')}"`,
+          row.invoiceNumber || "",
+          new Date(row.invoiceDate).toISOString().split("T")[0],
+          amount(row.invoiceValue),
+          state(row.placeOfSupply),
+          row.gstRate,
+          amount(row.taxableValue),
+          amount(row.igstAmount),
+          amount(row.cgstAmount),
+          amount(row.sgstAmount),
+        ].join(",")
+      );
+    }
+
+    lines.push("");
+    lines.push("B2C SALES");
+    lines.push("Place of Supply,Rate,Invoices,Taxable Value,IGST,CGST,SGST");
+    for (const row of summary.b2c) {
+      lines.push(
+        [
+          state(row.placeOfSupply),
+          row.gstRate,
+          row.invoices,
+          amount(row.taxableValue),
+          amount(row.igstAmount),
+          amount(row.cgstAmount),
+          amount(row.sgstAmount),
+        ].join(",")
+      );
+    }
+
+    lines.push("");
+    lines.push("HSN SUMMARY");
+    lines.push("HSN,UQC,Total Quantity,Rate,Taxable Value,IGST,CGST,SGST");
+    for (const row of summary.hsn) {
+      lines.push(
+        [
+          row.hsnCode,
+          row.unitType,
+          row.quantity.toFixed(2),
+          row.gstRate,
+          amount(row.taxableValue),
+          amount(row.igstAmount),
+          amount(row.cgstAmount),
+          amount(row.sgstAmount),
+        ].join(",")
+      );
+    }
+
+    return lines.join("\n");
+  }
+
+  private emptyTotals(): TaxTotals {
+    return { taxableValue: 0, cgstAmount: 0, sgstAmount: 0, igstAmount: 0 };
+  }
+
+  private addTotals(target: TaxTotals, tax: TaxTotals): void {
+    target.taxableValue += tax.taxableValue;
+    target.cgstAmount += tax.cgstAmount;
+    target.sgstAmount += tax.sgstAmount;
+    target.igstAmount += tax.igstAmount;
+  }
+}
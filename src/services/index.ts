@@ -1,8 +1,25 @@
+export * from "./apiKeyService";
+export * from "./auditLogService";
+export * from "./challanService";
+export * from "./customerService";
 export * from "./dashboardService";
 export * from "./entryTypeMaterialService";
+export * from "./gstService";
+export * from "./inviteService";
+export * from "./loginSecurityService";
+export * from "./materialRateOverrideService";
 export * from "./materialRateService";
 export * from "./organizationService";
 export * from "./otherExpenseService";
+export * from "./passwordResetService";
+export * from "./paymentService";
+export * from "./reportExportService";
+export * from "./reportJobService";
 export * from "./reportService";
+export * from "./roleService";
+export * from "./scheduledRateChangeService";
+export * from "./sessionService";
+export * from "./truckEntryImportService";
 export * from "./truckEntryService";
 export * from "./userService";
+export * from "./vehicleService";
@@ -0,0 +1,179 @@
+import { Invite, UserRole } from "@prisma/client";
+import crypto from "crypto";
+import { InviteDAO } from "../dao/inviteDAO";
+import { logger } from "../utils/logger";
+import { PermissionUtil } from "../utils/permissions";
+
+// Unambiguous characters only, so codes survive being read out or retyped
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const INVITE_CODE_LENGTH = 10;
+
+export const INVITE_ROLES: UserRole[] = [
+  "user",
+  "operator",
+  "accountant",
+  "manager",
+  "owner",
+];
+export const MAX_INVITE_USES = 100;
+export const MAX_INVITE_EXPIRY_HOURS = 30 * 24;
+
+export interface InviteInput {
+  role?: string;
+  maxUses?: number;
+  expiresInHours?: number;
+}
+
+export class InviteService {
+  private inviteDAO: InviteDAO;
+
+  constructor() {
+    this.inviteDAO = new InviteDAO();
+  }
+
+  async createInvite(
+    organizationId: string,
+    createdById: string,
+    data: InviteInput,
+    grantorPermissions: string[]
+  ): Promise<Invite> {
+    logger.info("Creating invite in service layer", {
+      organizationId,
+      createdById,
+      role: data.role,
+    });
+
+    const role = (data.role || "user") as UserRole;
+    if (!INVITE_ROLES.includes(role)) {
+      throw new Error(`Role must be one of: ${INVITE_ROLES.join(", ")}`);
+    }
+
+    // An invite cannot hand out more access than its creator has
+    const missing = PermissionUtil.missing(
+      grantorPermissions,
+      PermissionUtil.forRole(role)
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `You cannot grant permissions you do not hold: ${missing.join(", ")}`
+      );
+    }
+
+    const maxUses = data.maxUses === undefined ? 1 : Number(data.maxUses);
+    if (
+      !Number.isInteger(maxUses) ||
+      maxUses < 1 ||
+      maxUses > MAX_INVITE_USES
+    ) {
+      throw new Error(
+        `Max uses must be a whole number between 1 and ${MAX_INVITE_USES}`
+      );
+    }
+
+    const expiresInHours =
+      data.expiresInHours === undefined
+        ? this.getDefaultExpiryHours()
+        : Number(data.expiresInHours);
+    if (
+      isNaN(expiresInHours) ||
+      expiresInHours <= 0 ||
+      expiresInHours > MAX_INVITE_EXPIRY_HOURS
+    ) {
+      throw new Error(
+        `Expiry must be between 1 and ${MAX_INVITE_EXPIRY_HOURS} hours`
+      );
+    }
+
+    return await this.inviteDAO.create({
+      organization: { connect: { id: organizationId } },
+      createdBy: { connect: { id: createdById } },
+      code: await this.generateUniqueCode(),
+      role,
+      maxUses,
+      expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+    });
+  }
+
+  async getInvites(
+    organizationId: string,
+    includeInactive = false
+  ): Promise<Invite[]> {
+    if (!organizationId) {
+      throw new Error("Organization ID is required");
+    }
+    return await this.inviteDAO.findByOrganization(
+      organizationId,
+      includeInactive
+    );
+  }
+
+  async getInviteById(id: string): Promise<Invite | null> {
+    if (!id) {
+      throw new Error("Invite ID is required");
+    }
+    return await this.inviteDAO.findById(id);
+  }
+
+  async revokeInvite(id: string): Promise<Invite> {
+    const invite = await this.inviteDAO.findById(id);
+    if (!invite) {
+      throw new Error("Invite not found");
+    }
+    if (invite.revokedAt) {
+      throw new Error("Invite has already been revoked");
+    }
+
+    logger.info("Revoking invite", { inviteId: id });
+    return await this.inviteDAO.revoke(id);
+  }
+
+  // Takes one use of a valid invite. Callers that then fail to register the
+  // user should hand the use back with releaseInvite
+  async redeemInvite(code: string): Promise<Invite> {
+    const invite = await this.inviteDAO.findByCode(this.normalizeCode(code));
+
+    if (
+      !invite ||
+      invite.revokedAt ||
+      invite.expiresAt <= new Date() ||
+      invite.useCount >= invite.maxUses ||
+      !(await this.inviteDAO.consume(invite.id, invite.useCount))
+    ) {
+      throw new Error("Invalid or expired invite code");
+    }
+
+    logger.info("Invite redeemed", {
+      inviteId: invite.id,
+      organizationId: invite.organizationId,
+    });
+    return invite;
+  }
+
+  async releaseInvite(id: string): Promise<void> {
+    await this.inviteDAO.release(id);
+  }
+
+  private normalizeCode(code: string): string {
+    return (code || "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+  }
+
+  private async generateUniqueCode(): Promise<string> {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const bytes = crypto.randomBytes(INVITE_CODE_LENGTH);
+      const code = Array.from(
+        bytes,
+        (byte) => INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length]
+      ).join("");
+
+      if (!(await this.inviteDAO.findByCode(code))) {
+        return code;
+      }
+    }
+    throw new Error("Failed to generate a unique invite code");
+  }
+
+  private getDefaultExpiryHours(): number {
+    const hours = parseInt(process.env.INVITE_DEFAULT_EXPIRY_HOURS || "", 10);
+    return isNaN(hours) || hours <= 0 ? 72 : hours;
+  }
+}
@@ -0,0 +1,206 @@
+import { LoginAttempt, User } from "@prisma/client";
+import { LoginAttemptDAO } from "../dao/loginAttemptDAO";
+import { OrganizationDAO } from "../dao/organizationDAO";
+import { UserDAO } from "../dao/userDAO";
+import { LoginAttemptFilters } from "../types";
+import { logger } from "../utils/logger";
+import { ValidationUtil } from "../utils/validation";
+import { SessionClientInfo } from "./sessionService";
+
+// Failed attempts slow further attempts down: 0.5s, 1s, 2s... up to 8s
+const LOGIN_DELAY_BASE_MS = 500;
+const LOGIN_DELAY_MAX_MS = 8000;
+
+// A repeat lockout lasts twice as long as the one before, up to a day
+const MAX_LOCKOUT_MINUTES = 24 * 60;
+
+export interface IpLoginCheck {
+  allowed: boolean;
+  recentFailures: number;
+  retryAfterSeconds: number;
+}
+
+export class LoginSecurityService {
+  private loginAttemptDAO: LoginAttemptDAO;
+  private organizationDAO: OrganizationDAO;
+  private userDAO: UserDAO;
+
+  constructor() {
+    this.loginAttemptDAO = new LoginAttemptDAO();
+    this.organizationDAO = new OrganizationDAO();
+    this.userDAO = new UserDAO();
+  }
+
+  async checkIp(ipAddress?: string): Promise<IpLoginCheck> {
+    if (!ipAddress) {
+      return { allowed: true, recentFailures: 0, retryAfterSeconds: 0 };
+    }
+
+    const windowMinutes = this.getIpWindowMinutes();
+    const recentFailures = await this.loginAttemptDAO.countFailuresFromIp(
+      ipAddress,
+      new Date(Date.now() - windowMinutes * 60 * 1000)
+    );
+
+    const allowed = recentFailures < this.getMaxIpFailures();
+    return {
+      allowed,
+      recentFailures,
+      retryAfterSeconds: allowed ? 0 : windowMinutes * 60,
+    };
+  }
+
+  // Seconds until a locked account can try again, or 0 when it is not locked
+  getLockoutRemainingSeconds(user: User): number {
+    if (!user.lockedUntil) {
+      return 0;
+    }
+    const remaining = user.lockedUntil.getTime() - Date.now();
+    return remaining > 0 ? Math.ceil(remaining / 1000) : 0;
+  }
+
+  async applyDelay(previousFailures: number): Promise<void> {
+    if (previousFailures <= 0) {
+      return;
+    }
+    const delay = Math.min(
+      LOGIN_DELAY_BASE_MS * Math.pow(2, previousFailures - 1),
+      LOGIN_DELAY_MAX_MS
+    );
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+
+  // Counts a failed password or two-factor code against the user, locking the
+  // account once the threshold is reached. Returns the lockout end when this
+  // failure locked it
+  async recordFailure(
+    username: string,
+    user: User | null,
+    reason: string,
+    clientInfo: SessionClientInfo = {}
+  ): Promise<Date | null> {
+    let lockedUntil: Date | null = null;
+
+    if (
+      user &&
+      (reason === "invalid_password" || reason === "invalid_two_factor_code")
+    ) {
+      // Concurrent failures each get their own count from the increment
+      const { loginFailures: failures } = await this.userDAO.recordLoginFailure(
+        user.id
+      );
+      const maxFailures = this.getMaxFailedAttempts();
+
+      if (failures >= maxFailures) {
+        const minutes = Math.min(
+          this.getLockoutMinutes() * Math.pow(2, failures - maxFailures),
+          MAX_LOCKOUT_MINUTES
+        );
+        lockedUntil = new Date(Date.now() + minutes * 60 * 1000);
+        logger.warn("Account locked after repeated failed logins", {
+          userId: user.id,
+          failures,
+          lockedUntil,
+        });
+        await this.userDAO.lockAccount(user.id, lockedUntil);
+      }
+    }
+
+    await this.recordAttempt(username, user, false, reason, clientInfo);
+    return lockedUntil;
+  }
+
+  async recordSuccess(
+    user: User,
+    clientInfo: SessionClientInfo = {}
+  ): Promise<void> {
+    if (user.loginFailures > 0 || user.lockedUntil) {
+      await this.userDAO.clearLoginFailures(user.id);
+    }
+    await this.recordAttempt(user.username, user, true, null, clientInfo);
+  }
+
+  async getLoginAttempts(filters: LoginAttemptFilters): Promise<{
+    attempts: LoginAttempt[];
+    pagination: {
+      total: number;
+      page: number;
+      limit: number;
+      totalPages: number;
+    };
+  }> {
+    if (!filters.organizationId) {
+      throw new Error("Organization ID is required");
+    }
+
+    const validatedParams = ValidationUtil.validatePaginationParams(filters);
+    const { attempts, total } = await this.loginAttemptDAO.findAll({
+      ...filters,
+      ...validatedParams,
+    });
+
+    return {
+      attempts,
+      pagination: {
+        total,
+        page: validatedParams.page!,
+        limit: validatedParams.limit!,
+        totalPages: Math.ceil(total / validatedParams.limit!),
+      },
+    };
+  }
+
+  private async recordAttempt(
+    username: string,
+    user: User | null,
+    success: boolean,
+    failureReason: string | null,
+    clientInfo: SessionClientInfo
+  ): Promise<void> {
+    try {
+      const organizationId =
+        user?.organizationId ||
+        (user?.role === "owner"
+          ? (await this.organizationDAO.findByOwnerId(user.id))?.id
+          : undefined);
+
+      await this.loginAttemptDAO.create({
+        username: (username || "").toLowerCase().substring(0, 50),
+        success,
+        failureReason,
+        ipAddress: clientInfo.ipAddress?.substring(0, 45),
+        userAgent: clientInfo.userAgent?.substring(0, 255),
+        ...(user && { user: { connect: { id: user.id } } }),
+        ...(organizationId && {
+          organization: { connect: { id: organizationId } },
+        }),
+      });
+    } catch (error: any) {
+      // The security log must never stand in the way of a login
+      logger.error("Failed to record login attempt", {
+        username,
+        error: error.message,
+      });
+    }
+  }
+
+  private getMaxFailedAttempts(): number {
+    const attempts = parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || "", 10);
+    return isNaN(attempts) || attempts <= 0 ? 5 : attempts;
+  }
+
+  private getLockoutMinutes(): number {
+    const minutes = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || "", 10);
+    return isNaN(minutes) || minutes <= 0 ? 15 : minutes;
+  }
+
+  private getMaxIpFailures(): number {
+    const failures = parseInt(process.env.LOGIN_MAX_IP_FAILURES || "", 10);
+    return isNaN(failures) || failures <= 0 ? 20 : failures;
+  }
+
+  private getIpWindowMinutes(): number {
+    const minutes = parseInt(process.env.LOGIN_IP_WINDOW_MINUTES || "", 10);
+    return isNaN(minutes) || minutes <= 0 ? 15 : minutes;
+  }
+}
@@ -0,0 +1,142 @@
+import { MaterialRate, MaterialRateOverride } from "@prisma/client";
+import { MaterialRateOverrideDAO } from "../dao/materialRateOverrideDAO";
+import { logger } from "../utils/logger";
+import { AuditLogService } from "./auditLogService";
+import { MaterialRateService } from "./materialRateService";
+
+export interface MaterialRateOverrideInput {
+  customerId?: string;
+  vehicleId?: string;
+  ratePerUnit?: number;
+}
+
+export class MaterialRateOverrideService {
+  private materialRateOverrideDAO: MaterialRateOverrideDAO;
+  private materialRateService: MaterialRateService;
+  private auditLogService: AuditLogService;
+
+  constructor() {
+    this.materialRateOverrideDAO = new MaterialRateOverrideDAO();
+    this.materialRateService = new MaterialRateService();
+    this.auditLogService = new AuditLogService();
+  }
+
+  async getRateOverrides(
+    materialRate: MaterialRate
+  ): Promise<MaterialRateOverride[]> {
+    return await this.materialRateOverrideDAO.findByMaterialRate(
+      materialRate.id
+    );
+  }
+
+  async getRateOverrideById(id: string): Promise<MaterialRateOverride | null> {
+    if (!id) {
+      throw new Error("Rate override ID is required");
+    }
+    return await this.materialRateOverrideDAO.findById(id);
+  }
+
+  // Sets the customer's or the vehicle's rate for the material, replacing
+  // the one they had
+  async setRateOverride(
+    materialRate: MaterialRate,
+    data: MaterialRateOverrideInput,
+    createdById: string
+  ): Promise<MaterialRateOverride> {
+    logger.info("Setting material rate override in service layer", {
+      materialRateId: materialRate.id,
+      customerId: data.customerId,
+      vehicleId: data.vehicleId,
+      createdById,
+    });
+
+    if (!data.customerId === !data.vehicleId) {
+      throw new Error("Give either a customer or a vehicle, not both");
+    }
+    const ratePerUnit = Number(data.ratePerUnit);
+    if (isNaN(ratePerUnit) || ratePerUnit <= 0) {
+      throw new Error("Rate must be a valid number greater than 0");
+    }
+
+    const existing = data.customerId
+      ? await this.materialRateOverrideDAO.findForCustomer(
+          materialRate.id,
+          data.customerId
+        )
+      : await this.materialRateOverrideDAO.findForVehicle(
+          materialRate.id,
+          data.vehicleId!
+        );
+
+    if (existing) {
+      const updated = await this.materialRateOverrideDAO.update(existing.id, {
+        ratePerUnit,
+      });
+      await this.auditLogService.record(
+        "MaterialRateOverride",
+        "update",
+        existing,
+        updated
+      );
+      return updated;
+    }
+
+    const created = await this.materialRateOverrideDAO.create({
+      organization: { connect: { id: materialRate.organizationId } },
+      materialRate: { connect: { id: materialRate.id } },
+      ...(data.customerId
+        ? { customer: { connect: { id: data.customerId } } }
+        : { vehicle: { connect: { id: data.vehicleId! } } }),
+      ratePerUnit,
+      createdBy: { connect: { id: createdById } },
+    });
+    await this.auditLogService.record(
+      "MaterialRateOverride",
+      "create",
+      null,
+      created
+    );
+    return created;
+  }
+
+  async deleteRateOverride(id: string): Promise<void> {
+    const existing = await this.materialRateOverrideDAO.findById(id);
+    if (!existing) {
+      throw new Error("Rate override not found");
+    }
+
+    await this.materialRateOverrideDAO.delete(id);
+    await this.auditLogService.record(
+      "MaterialRateOverride",
+      "delete",
+      existing,
+      null
+    );
+  }
+
+  // The rate an entry for this customer and vehicle is priced at: the
+  // vehicle's rate, else the customer's, else the material's rate in effect
+  // on the entry date
+  async getRateForEntry(
+    materialRate: MaterialRate,
+    at: Date,
+    parties: { customerId?: string | null; vehicleId?: string | null }
+  ): Promise<number> {
+    const override =
+      (parties.vehicleId &&
+        (await this.materialRateOverrideDAO.findForVehicle(
+          materialRate.id,
+          parties.vehicleId
+        ))) ||
+      (parties.customerId &&
+        (await this.materialRateOverrideDAO.findForCustomer(
+          materialRate.id,
+          parties.customerId
+        ))) ||
+      null;
+
+    return override
+      ? Number(override.ratePerUnit)
+      : await this.materialRateService.getRateInEffect(materialRate, at);
+  }
+}
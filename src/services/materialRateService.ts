@@ -1,17 +1,25 @@
-import { MaterialRate } from "@prisma/client";
+import { MaterialRate, MaterialRateVersion } from "@prisma/client";
 import { MaterialRateDAO } from "../dao/materialRateDAO";
+import { MaterialRateVersionDAO } from "../dao/materialRateVersionDAO";
+import { AuditLogService } from "./auditLogService";
 
 export class MaterialRateService {
   private materialRateDAO: MaterialRateDAO;
+  private materialRateVersionDAO: MaterialRateVersionDAO;
+  private auditLogService: AuditLogService;
 
   constructor() {
     this.materialRateDAO = new MaterialRateDAO();
+    this.materialRateVersionDAO = new MaterialRateVersionDAO();
+    this.auditLogService = new AuditLogService();
   }
 
   async createOrUpdateMaterialRate(data: {
     organizationId: string;
     materialType: string;
     ratePerUnit: number;
+    hsnCode?: string;
+    gstRate?: number;
     updatedBy: string;
   }): Promise<MaterialRate> {
     if (!data.materialType || !data.organizationId) {
@@ -31,18 +39,38 @@ export class MaterialRateService {
 
     if (existingRate) {
       // Update existing rate
-      return await this.materialRateDAO.update(existingRate.id, {
+      const updated = await this.materialRateDAO.update(existingRate.id, {
         ratePerUnit: data.ratePerUnit,
+        ...(data.hsnCode !== undefined && { hsnCode: data.hsnCode || null }),
+        ...(data.gstRate !== undefined && { gstRate: data.gstRate }),
         isActive: true,
       });
+      await this.recordRateChange(existingRate, updated, data.updatedBy);
+      await this.auditLogService.record(
+        "MaterialRate",
+        "update",
+        existingRate,
+        updated
+      );
+      return updated;
     } else {
       // Create new rate
-      return await this.materialRateDAO.create({
+      const created = await this.materialRateDAO.create({
         organization: { connect: { id: data.organizationId } },
         materialType: data.materialType,
         ratePerUnit: data.ratePerUnit,
+        hsnCode: data.hsnCode || null,
+        gstRate: data.gstRate ?? 0,
         isActive: true,
       });
+      await this.recordRateChange(null, created, data.updatedBy);
+      await this.auditLogService.record(
+        "MaterialRate",
+        "create",
+        null,
+        created
+      );
+      return created;
     }
   }
 
@@ -80,12 +108,93 @@ export class MaterialRateService {
     return await this.materialRateDAO.findById(id);
   }
 
-  async updateMaterialRateById(id: string, data: any): Promise<MaterialRate> {
+  async updateMaterialRateById(
+    id: string,
+    data: any,
+    updatedBy?: string
+  ): Promise<MaterialRate> {
     if (!id) {
       throw new Error("Material rate ID is required");
     }
 
-    return await this.materialRateDAO.update(id, data);
+    const existingRate = await this.materialRateDAO.findById(id);
+    const updated = await this.materialRateDAO.update(id, data);
+    await this.recordRateChange(existingRate, updated, updatedBy);
+    await this.auditLogService.record(
+      "MaterialRate",
+      "update",
+      existingRate,
+      updated
+    );
+    return updated;
+  }
+
+  // Sets a rate that was scheduled ahead of time. Its version starts at the
+  // scheduled time, or at the material's last change when that came later,
+  // so versions never overlap
+  async applyScheduledRate(
+    id: string,
+    ratePerUnit: number,
+    effectiveAt: Date,
+    changedById?: string
+  ): Promise<MaterialRate> {
+    const existingRate = await this.materialRateDAO.findById(id);
+    if (!existingRate) {
+      throw new Error("Material rate not found");
+    }
+
+    const updated = await this.materialRateDAO.update(id, { ratePerUnit });
+    await this.recordRateChange(
+      existingRate,
+      updated,
+      changedById,
+      existingRate.updatedAt > effectiveAt
+        ? existingRate.updatedAt
+        : effectiveAt
+    );
+    await this.auditLogService.record(
+      "MaterialRate",
+      "update",
+      existingRate,
+      updated
+    );
+    return updated;
+  }
+
+  // Every rate the material has had, newest first
+  async getRateHistory(
+    materialRate: MaterialRate
+  ): Promise<MaterialRateVersion[]> {
+    const versions = await this.materialRateVersionDAO.findByMaterialRate(
+      materialRate.id
+    );
+    if (versions.length > 0) {
+      return versions;
+    }
+
+    // Never changed since versions were introduced: the current rate has
+    // applied since the material was created
+    return [
+      {
+        id: materialRate.id,
+        organizationId: materialRate.organizationId,
+        materialRateId: materialRate.id,
+        ratePerUnit: materialRate.ratePerUnit,
+        effectiveFrom: materialRate.createdAt,
+        effectiveTo: null,
+        changedById: null,
+        createdAt: materialRate.createdAt,
+      },
+    ];
+  }
+
+  // The rate that applied at the given time. Times before the first
+  // recorded version get the earliest rate known
+  async getRateInEffect(materialRate: MaterialRate, at: Date): Promise<number> {
+    const version =
+      (await this.materialRateVersionDAO.findInEffect(materialRate.id, at)) ||
+      (await this.materialRateVersionDAO.findEarliest(materialRate.id));
+    return Number(version?.ratePerUnit ?? materialRate.ratePerUnit);
   }
 
   async deactivateMaterialRate(id: string): Promise<MaterialRate> {
@@ -93,7 +202,15 @@ export class MaterialRateService {
       throw new Error("Material rate ID is required");
     }
 
-    return await this.materialRateDAO.deactivate(id);
+    const existingRate = await this.materialRateDAO.findById(id);
+    const deactivated = await this.materialRateDAO.deactivate(id);
+    await this.auditLogService.record(
+      "MaterialRate",
+      "update",
+      existingRate,
+      deactivated
+    );
+    return deactivated;
   }
 
   async activateMaterialRate(id: string): Promise<MaterialRate> {
@@ -101,7 +218,15 @@ export class MaterialRateService {
       throw new Error("Material rate ID is required");
     }
 
-    return await this.materialRateDAO.activate(id);
+    const existingRate = await this.materialRateDAO.findById(id);
+    const activated = await this.materialRateDAO.activate(id);
+    await this.auditLogService.record(
+      "MaterialRate",
+      "update",
+      existingRate,
+      activated
+    );
+    return activated;
   }
 
   async getAllMaterialRatesWithFilters(filters: any): Promise<{
@@ -125,4 +250,23 @@ export class MaterialRateService {
       },
     };
   }
+
+  // Keeps a version for each new rate; other changes to the material do not
+  // start one
+  private async recordRateChange(
+    before: MaterialRate | null,
+    after: MaterialRate,
+    changedById?: string,
+    effectiveFrom: Date = new Date()
+  ): Promise<void> {
+    if (before && Number(before.ratePerUnit) === Number(after.ratePerUnit)) {
+      return;
+    }
+    await this.materialRateVersionDAO.recordChange(
+      before || after,
+      Number(after.ratePerUnit),
+      before ? effectiveFrom : after.createdAt,
+      changedById
+    );
+  }
 }
@@ -1,17 +1,22 @@
 import { Organization, Prisma } from "@prisma/client";
+import moment from "moment-timezone";
 import { OrganizationDAO } from "../dao/organizationDAO";
 import { UserDAO } from "../dao/userDAO";
 import { PaginationParams } from "../types";
+import { GstUtil } from "../utils/gst";
 import { logger } from "../utils/logger";
 import { ValidationUtil } from "../utils/validation";
+import { AuditLogService } from "./auditLogService";
 
 export class OrganizationService {
   private organizationDAO: OrganizationDAO;
   private userDAO: UserDAO;
+  private auditLogService: AuditLogService;
 
   constructor() {
     this.organizationDAO = new OrganizationDAO();
     this.userDAO = new UserDAO();
+    this.auditLogService = new AuditLogService();
   }
 
   async createOrganization(data: { name: string }): Promise<Organization> {
@@ -47,6 +52,13 @@ export class OrganizationService {
     logger.info("Organization created successfully in service layer", {
       result,
     });
+    await this.auditLogService.record(
+      "Organization",
+      "create",
+      null,
+      result,
+      result.id
+    );
     return result;
   }
 
@@ -124,7 +136,14 @@ export class OrganizationService {
 
   async updateOrganization(
     id: string,
-    data: { name?: string }
+    data: {
+      name?: string;
+      gstin?: string;
+      stateCode?: string;
+      address?: string;
+      requireTwoFactor?: boolean;
+      timezone?: string;
+    }
   ): Promise<Organization> {
     logger.info("Updating organization in service layer", { id, data });
 
@@ -173,10 +192,50 @@ export class OrganizationService {
       updateData.name = data.name.trim();
     }
 
+    // GST registration details printed on tax invoices
+    if (data.gstin) {
+      const gstinValidation = ValidationUtil.validateGstin(data.gstin);
+      if (!gstinValidation.isValid) {
+        throw new Error(gstinValidation.message);
+      }
+    }
+    if (data.stateCode && !GstUtil.isValidStateCode(data.stateCode)) {
+      throw new Error("State code must be a valid 2-digit GST state code");
+    }
+    if (data.gstin !== undefined) {
+      updateData.gstin = data.gstin ? data.gstin.toUpperCase() : null;
+    }
+    if (data.stateCode !== undefined || data.gstin) {
+      updateData.stateCode =
+        data.stateCode || GstUtil.stateCodeFromGstin(data.gstin) || null;
+    }
+    if (data.address !== undefined) {
+      updateData.address = data.address || null;
+    }
+    if (data.requireTwoFactor !== undefined) {
+      if (typeof data.requireTwoFactor !== "boolean") {
+        throw new Error("requireTwoFactor must be true or false");
+      }
+      updateData.requireTwoFactor = data.requireTwoFactor;
+    }
+    if (data.timezone !== undefined) {
+      if (!data.timezone || !moment.tz.zone(data.timezone)) {
+        throw new Error(`Invalid timezone: ${data.timezone}`);
+      }
+      updateData.timezone = data.timezone;
+    }
+
     const result = await this.organizationDAO.update(id, updateData);
     logger.info("Organization updated successfully in service layer", {
       result,
     });
+    await this.auditLogService.record(
+      "Organization",
+      "update",
+      existingOrg,
+      result,
+      id
+    );
     return result;
   }
 
@@ -201,6 +260,14 @@ export class OrganizationService {
     logger.info("Organization deleted successfully in service layer", {
       result,
     });
+    // The organization is gone, so the record is kept without it
+    await this.auditLogService.record(
+      "Organization",
+      "delete",
+      existingOrg,
+      null,
+      null
+    );
     return result;
   }
 
@@ -2,12 +2,15 @@ import { OtherExpense, Prisma } from "@prisma/client";
 import { OtherExpenseDAO } from "../dao/otherExpenseDAO";
 import { ExpenseFilters } from "../types";
 import { logger } from "../utils/logger";
+import { AuditLogService } from "./auditLogService";
 
 export class OtherExpenseService {
   private otherExpenseDAO: OtherExpenseDAO;
+  private auditLogService: AuditLogService;
 
   constructor() {
     this.otherExpenseDAO = new OtherExpenseDAO();
+    this.auditLogService = new AuditLogService();
   }
 
   async createExpense(
@@ -39,6 +42,7 @@ export class OtherExpenseService {
     logger.info("Expense created successfully in service layer", {
       expenseId: result.id,
     });
+    await this.auditLogService.record("OtherExpense", "create", null, result);
     return result;
   }
 
@@ -89,10 +93,17 @@ export class OtherExpenseService {
     if (updateData.notes !== undefined) data.notes = updateData.notes;
     // Note: We don't allow updating the date after creation
 
+    const existingExpense = await this.otherExpenseDAO.findById(id);
     const result = await this.otherExpenseDAO.update(id, data);
     logger.info("Expense updated successfully in service layer", {
       expenseId: result.id,
     });
+    await this.auditLogService.record(
+      "OtherExpense",
+      "update",
+      existingExpense,
+      result
+    );
     return result;
   }
 
@@ -102,6 +113,7 @@ export class OtherExpenseService {
     logger.info("Expense deleted successfully in service layer", {
       expenseId: result.id,
     });
+    await this.auditLogService.record("OtherExpense", "delete", result, null);
     return result;
   }
 
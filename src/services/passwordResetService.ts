@@ -0,0 +1,142 @@
+import { User } from "@prisma/client";
+import crypto from "crypto";
+import { PasswordResetCodeDAO } from "../dao/passwordResetCodeDAO";
+import { UserDAO } from "../dao/userDAO";
+import { logger } from "../utils/logger";
+import { AuditLogService } from "./auditLogService";
+
+// Same unambiguous characters as invite codes, since these are read out too
+const RESET_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const RESET_CODE_LENGTH = 10;
+
+export interface IssuedResetCode {
+  code: string;
+  expiresAt: Date;
+}
+
+export class PasswordResetService {
+  private passwordResetCodeDAO: PasswordResetCodeDAO;
+  private userDAO: UserDAO;
+  private auditLogService: AuditLogService;
+
+  constructor() {
+    this.passwordResetCodeDAO = new PasswordResetCodeDAO();
+    this.userDAO = new UserDAO();
+    this.auditLogService = new AuditLogService();
+  }
+
+  // Issues a code the member redeems to set their own password. Any code
+  // issued to them before stops working. The code itself is not kept and
+  // can only be shown this once
+  async createResetCode(
+    organizationId: string,
+    user: User,
+    createdById: string
+  ): Promise<IssuedResetCode> {
+    logger.info("Creating password reset code in service layer", {
+      organizationId,
+      userId: user.id,
+      createdById,
+    });
+
+    if (user.id === createdById) {
+      throw new Error(
+        "You cannot issue a reset code for yourself; change your password from your profile"
+      );
+    }
+    if (!user.isActive) {
+      throw new Error("Cannot issue a reset code for a deactivated user");
+    }
+
+    await this.passwordResetCodeDAO.expireOutstandingForUser(user.id);
+
+    const code = this.generateCode();
+    const expiresAt = new Date(Date.now() + this.getTtlMinutes() * 60 * 1000);
+    await this.passwordResetCodeDAO.create({
+      organization: { connect: { id: organizationId } },
+      user: { connect: { id: user.id } },
+      createdBy: { connect: { id: createdById } },
+      codeHash: this.hashCode(code),
+      expiresAt,
+    });
+
+    return { code, expiresAt };
+  }
+
+  // Sets the new password when the code matches the user's outstanding one,
+  // and clears any login lockout. Returns null for wrong, used or expired
+  // codes. Each wrong code counts against the outstanding one, which stops
+  // working after a few
+  async resetPassword(
+    user: User,
+    code: string,
+    passwordHash: string
+  ): Promise<User | null> {
+    const resetCode = await this.passwordResetCodeDAO.findOutstandingForUser(
+      user.id
+    );
+    if (!resetCode) {
+      return null;
+    }
+
+    if (
+      !crypto.timingSafeEqual(
+        Buffer.from(resetCode.codeHash),
+        Buffer.from(this.hashCode(code))
+      )
+    ) {
+      const updated = await this.passwordResetCodeDAO.recordFailedAttempt(
+        resetCode.id,
+        this.getMaxAttempts()
+      );
+      logger.warn("Wrong password reset code", {
+        userId: user.id,
+        attempts: updated.attempts,
+      });
+      return null;
+    }
+
+    if (!(await this.passwordResetCodeDAO.consume(resetCode.id))) {
+      return null;
+    }
+
+    const updated = await this.userDAO.update(user.id, {
+      passwordHash,
+      loginFailures: 0,
+      lockedUntil: null,
+    });
+    await this.auditLogService.record("User", "update", user, updated);
+
+    logger.info("Password reset with code", { userId: user.id });
+    return updated;
+  }
+
+  private generateCode(): string {
+    return Array.from(
+      crypto.randomBytes(RESET_CODE_LENGTH),
+      (byte) => RESET_CODE_ALPHABET[byte % RESET_CODE_ALPHABET.length]
+    ).join("");
+  }
+
+  // Codes are compared without dashes, spaces or case
+  private hashCode(code: string): string {
+    const normalized = (code || "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+    return crypto.createHash("sha256").update(normalized).digest("hex");
+  }
+
+  private getTtlMinutes(): number {
+    const minutes = parseInt(
+      process.env.PASSWORD_RESET_CODE_TTL_MINUTES || "",
+      10
+    );
+    return isNaN(minutes) || minutes <= 0 ? 30 : minutes;
+  }
+
+  private getMaxAttempts(): number {
+    const attempts = parseInt(
+      process.env.PASSWORD_RESET_MAX_ATTEMPTS || "",
+      10
+    );
+    return isNaN(attempts) || attempts <= 0 ? 5 : attempts;
+  }
+}
@@ -0,0 +1,464 @@
+import { Customer, Payment, PaymentMode } from "@prisma/client";
+import {
+  AllocationInput,
+  PaymentDAO,
+  PaymentWithAllocations,
+} from "../dao/paymentDAO";
+import { GstUtil } from "../utils/gst";
+import { logger } from "../utils/logger";
+import { ValidationUtil } from "../utils/validation";
+
+export const PAYMENT_MODES: PaymentMode[] = [
+  "cash",
+  "credit",
+  "upi",
+  "advance",
+];
+
+export const AGING_BUCKETS = ["0-30", "31-60", "61-90", "90+"] as const;
+
+type AgingBucket = (typeof AGING_BUCKETS)[number];
+
+export interface RecordPaymentRequest {
+  amount: number;
+  mode?: string;
+  paymentDate?: string;
+  reference?: string;
+  notes?: string;
+  allocations?: AllocationInput[];
+  autoAllocate?: boolean;
+}
+
+export interface CustomerReceivable {
+  customerId: string | null;
+  customerName: string;
+  outstanding: number;
+  unallocatedCredit: number;
+  entryCount: number;
+  oldestEntryDate: Date | null;
+  buckets: Record<AgingBucket, number>;
+}
+
+export interface ReceivablesReport {
+  asOf: Date;
+  totals: {
+    outstanding: number;
+    unallocatedCredit: number;
+    buckets: Record<AgingBucket, number>;
+  };
+  customers: CustomerReceivable[];
+}
+
+export class PaymentService {
+  private paymentDAO: PaymentDAO;
+
+  constructor() {
+    this.paymentDAO = new PaymentDAO();
+  }
+
+  async recordPayment(
+    customer: Customer,
+    data: RecordPaymentRequest,
+    userId: string
+  ): Promise<Payment | null> {
+    logger.info("Recording customer payment in service layer", {
+      customerId: customer.id,
+      amount: data.amount,
+      mode: data.mode,
+    });
+
+    if (!data.amount || isNaN(data.amount) || data.amount <= 0) {
+      throw new Error("Payment amount must be greater than 0");
+    }
+
+    const mode = (data.mode || "cash") as PaymentMode;
+    if (!PAYMENT_MODES.includes(mode) || mode === "credit") {
+      throw new Error("Payment mode must be one of: cash, upi, advance");
+    }
+
+    const paymentDate = data.paymentDate
+      ? new Date(data.paymentDate)
+      : new Date();
+    if (isNaN(paymentDate.getTime())) {
+      throw new Error("Invalid payment date");
+    }
+
+    // Advances stay unallocated until later loads draw them down
+    let allocations: AllocationInput[] = [];
+    if (data.allocations && data.allocations.length > 0) {
+      allocations = await this.validateAllocations(
+        customer,
+        data.allocations,
+        data.amount
+      );
+    } else if (data.autoAllocate !== false && mode !== "advance") {
+      allocations = await this.allocateOldestFirst(customer, data.amount);
+    }
+
+    const payment = await this.paymentDAO.createWithAllocations(
+      {
+        organization: { connect: { id: customer.organizationId } },
+        customer: { connect: { id: customer.id } },
+        user: { connect: { id: userId } },
+        amount: data.amount,
+        mode,
+        paymentDate,
+        reference: data.reference,
+        notes: data.notes,
+      },
+      allocations
+    );
+
+    return await this.paymentDAO.findById(payment.id);
+  }
+
+  async allocatePayment(
+    payment: Payment,
+    customer: Customer,
+    requested?: AllocationInput[]
+  ): Promise<Payment | null> {
+    const available = await this.getUnallocatedAmount(payment.id);
+    if (available <= 0) {
+      throw new Error("Payment is already fully allocated");
+    }
+
+    const allocations =
+      requested && requested.length > 0
+        ? await this.validateAllocations(customer, requested, available)
+        : await this.allocateOldestFirst(customer, available);
+
+    if (allocations.length === 0) {
+      throw new Error("No outstanding entries to allocate this payment to");
+    }
+
+    await this.paymentDAO.createAllocations(payment.id, allocations);
+    return await this.paymentDAO.findById(payment.id);
+  }
+
+  // Settles a Sales entry at the point of sale: cash/UPI loads get their own
+  // payment, advance loads draw down the customer's unallocated payments
+  async settleEntry(
+    entry: {
+      id: string;
+      organizationId: string;
+      customerId: string;
+      truckNumber: string;
+      entryDate: Date;
+      totalAmount: number;
+    },
+    mode: PaymentMode,
+    userId: string
+  ): Promise<void> {
+    if (mode === "cash" || mode === "upi") {
+      await this.paymentDAO.createWithAllocations(
+        {
+          organization: { connect: { id: entry.organizationId } },
+          customer: { connect: { id: entry.customerId } },
+          user: { connect: { id: userId } },
+          amount: entry.totalAmount,
+          mode,
+          paymentDate: entry.entryDate,
+          reference: `Load ${entry.truckNumber}`,
+        },
+        [{ truckEntryId: entry.id, amount: entry.totalAmount }]
+      );
+      return;
+    }
+
+    if (mode === "advance") {
+      const payments = await this.paymentDAO.findWithAllocations({
+        customerId: entry.customerId,
+      });
+
+      let remaining = entry.totalAmount;
+      for (const payment of payments) {
+        if (remaining <= 0) break;
+        const available = this.calculateUnallocated(payment);
+        if (available <= 0) continue;
+
+        const amount = this.round(Math.min(available, remaining));
+        await this.paymentDAO.createAllocations(payment.id, [
+          { truckEntryId: entry.id, amount },
+        ]);
+        remaining = this.round(remaining - amount);
+      }
+
+      if (remaining > 0) {
+        logger.warn("Advance balance did not cover the full load", {
+          entryId: entry.id,
+          customerId: entry.customerId,
+          remaining,
+        });
+      }
+    }
+  }
+
+  async getPaymentById(id: string): Promise<Payment | null> {
+    if (!id) {
+      throw new Error("Payment ID is required");
+    }
+    return await this.paymentDAO.findById(id);
+  }
+
+  async getPaymentsByOrganization(
+    organizationId: string,
+    filters: {
+      page?: number;
+      limit?: number;
+      customerId?: string;
+      mode?: string;
+      startDate?: Date;
+      endDate?: Date;
+    }
+  ): Promise<{
+    payments: Payment[];
+    pagination: {
+      total: number;
+      page: number;
+      limit: number;
+      totalPages: number;
+    };
+  }> {
+    const { page, limit } = ValidationUtil.validatePaginationParams(filters);
+
+    if (filters.mode && !PAYMENT_MODES.includes(filters.mode as PaymentMode)) {
+      throw new Error(`Invalid payment mode: ${filters.mode}`);
+    }
+
+    const { payments, total } = await this.paymentDAO.findByOrganizationId(
+      organizationId,
+      {
+        page: page!,
+        limit: limit!,
+        customerId: filters.customerId,
+        mode: filters.mode as PaymentMode | undefined,
+        startDate: filters.startDate,
+        endDate: filters.endDate,
+      }
+    );
+
+    return {
+      payments,
+      pagination: {
+        total,
+        page: page!,
+        limit: limit!,
+        totalPages: Math.ceil(total / limit!),
+      },
+    };
+  }
+
+  async getReceivables(
+    organizationId: string,
+    asOf: Date = new Date()
+  ): Promise<ReceivablesReport> {
+    const [entries, payments] = await Promise.all([
+      this.paymentDAO.findOutstandingEntries(organizationId, { asOf }),
+      this.paymentDAO.findWithAllocations({ organizationId }),
+    ]);
+
+    const customers = new Map<string, CustomerReceivable>();
+    const getRow = (customerId: string | null, customerName: string) => {
+      // Walk-in sales without a customer are grouped by the typed name
+      const key = customerId || `name:${customerName.toLowerCase()}`;
+      let row = customers.get(key);
+      if (!row) {
+        row = {
+          customerId,
+          customerName,
+          outstanding: 0,
+          unallocatedCredit: 0,
+          entryCount: 0,
+          oldestEntryDate: null,
+          buckets: this.emptyBuckets(),
+        };
+        customers.set(key, row);
+      }
+      return row;
+    };
+
+    const totals = {
+      outstanding: 0,
+      unallocatedCredit: 0,
+      buckets: this.emptyBuckets(),
+    };
+
+    for (const entry of entries) {
+      const outstanding = this.round(
+        GstUtil.getInvoiceTotal(entry) - Number(entry.amountPaid)
+      );
+      if (outstanding <= 0) continue;
+
+      const row = getRow(
+        entry.customerId,
+        entry.customer?.name || entry.truckName
+      );
+      const bucket = this.getAgingBucket(entry.entryDate, asOf);
+
+      row.outstanding += outstanding;
+      row.buckets[bucket] += outstanding;
+      row.entryCount += 1;
+      if (!row.oldestEntryDate || entry.entryDate < row.oldestEntryDate) {
+        row.oldestEntryDate = entry.entryDate;
+      }
+      totals.outstanding += outstanding;
+      totals.buckets[bucket] += outstanding;
+    }
+
+    for (const payment of payments) {
+      const unallocated = this.calculateUnallocated(payment);
+      const row = payment.customerId
+        ? customers.get(payment.customerId)
+        : undefined;
+      if (unallocated <= 0 || !row) continue;
+      row.unallocatedCredit += unallocated;
+      totals.unallocatedCredit += unallocated;
+    }
+
+    const rows = Array.from(customers.values())
+      .map((row) => ({
+        ...row,
+        outstanding: this.round(row.outstanding),
+        unallocatedCredit: this.round(row.unallocatedCredit),
+        buckets: this.roundBuckets(row.buckets),
+      }))
+      .sort((a, b) => b.outstanding - a.outstanding);
+
+    return {
+      asOf,
+      totals: {
+        outstanding: this.round(totals.outstanding),
+        unallocatedCredit: this.round(totals.unallocatedCredit),
+        buckets: this.roundBuckets(totals.buckets),
+      },
+      customers: rows,
+    };
+  }
+
+  private async getUnallocatedAmount(paymentId: string): Promise<number> {
+    const payment = (await this.paymentDAO.findById(
+      paymentId
+    )) as PaymentWithAllocations | null;
+    return payment ? this.calculateUnallocated(payment) : 0;
+  }
+
+  private calculateUnallocated(payment: PaymentWithAllocations): number {
+    const allocated = payment.allocations.reduce(
+      (sum, allocation) => sum + Number(allocation.amount),
+      0
+    );
+    return this.round(Number(payment.amount) - allocated);
+  }
+
+  private async allocateOldestFirst(
+    customer: Customer,
+    amount: number
+  ): Promise<AllocationInput[]> {
+    const entries = await this.paymentDAO.findOutstandingEntries(
+      customer.organizationId,
+      { customerId: customer.id }
+    );
+
+    const allocations: AllocationInput[] = [];
+    let remaining = amount;
+    for (const entry of entries) {
+      if (remaining <= 0) break;
+      const outstanding = this.round(
+        GstUtil.getInvoiceTotal(entry) - Number(entry.amountPaid)
+      );
+      if (outstanding <= 0) continue;
+
+      const allocated = this.round(Math.min(outstanding, remaining));
+      allocations.push({ truckEntryId: entry.id, amount: allocated });
+      remaining = this.round(remaining - allocated);
+    }
+    return allocations;
+  }
+
+  private async validateAllocations(
+    customer: Customer,
+    requested: AllocationInput[],
+    available: number
+  ): Promise<AllocationInput[]> {
+    const allocations = requested.map((allocation) => ({
+      truckEntryId: allocation.truckEntryId,
+      amount: this.round(Number(allocation.amount)),
+    }));
+
+    const ids = new Set(allocations.map((a) => a.truckEntryId));
+    if (ids.size !== allocations.length) {
+      throw new Error("Each entry can only be allocated once per payment");
+    }
+
+    for (const allocation of allocations) {
+      if (!allocation.truckEntryId || !(allocation.amount > 0)) {
+        throw new Error(
+          "Each allocation needs a truckEntryId and an amount greater than 0"
+        );
+      }
+    }
+
+    const total = allocations.reduce((sum, a) => sum + a.amount, 0);
+    if (this.round(total) > available) {
+      throw new Error(
+        `Allocations total ${this.round(
+          total
+        )} exceeds the available ${available}`
+      );
+    }
+
+    const entries = await this.paymentDAO.findOutstandingEntries(
+      customer.organizationId,
+      { customerId: customer.id, entryIds: Array.from(ids) }
+    );
+    const entriesById = new Map(entries.map((entry) => [entry.id, entry]));
+
+    for (const allocation of allocations) {
+      const entry = entriesById.get(allocation.truckEntryId);
+      if (!entry) {
+        throw new Error(
+          `Entry ${allocation.truckEntryId} is not an outstanding sale for this customer`
+        );
+      }
+      const outstanding = this.round(
+        GstUtil.getInvoiceTotal(entry) - Number(entry.amountPaid)
+      );
+      if (allocation.amount > outstanding) {
+        throw new Error(
+          `Allocation for entry ${entry.id} exceeds its outstanding ${outstanding}`
+        );
+      }
+    }
+
+    return allocations;
+  }
+
+  private getAgingBucket(entryDate: Date, asOf: Date): AgingBucket {
+    const days = Math.floor(
+      (asOf.getTime() - new Date(entryDate).getTime()) / (24 * 60 * 60 * 1000)
+    );
+    if (days <= 30) return "0-30";
+    if (days <= 60) return "31-60";
+    if (days <= 90) return "61-90";
+    return "90+";
+  }
+
+  private emptyBuckets(): Record<AgingBucket, number> {
+    return { "0-30": 0, "31-60": 0, "61-90": 0, "90+": 0 };
+  }
+
+  private roundBuckets(
+    buckets: Record<AgingBucket, number>
+  ): Record<AgingBucket, number> {
+    return {
+      "0-30": this.round(buckets["0-30"]),
+      "31-60": this.round(buckets["31-60"]),
+      "61-90": this.round(buckets["61-90"]),
+      "90+": this.round(buckets["90+"]),
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,209 @@
+import { ReportExport } from "@prisma/client";
+import jwt from "jsonwebtoken";
+import { ReportExportDAO } from "../dao/reportExportDAO";
+import { logger } from "../utils/logger";
+import { ReportService } from "./reportService";
+
+export const REPORT_TEMPLATE_IDS = [
+  "truck-entries-summary",
+  "material-wise-report",
+  "financial-summary",
+  "daily-operations",
+];
+
+export const REPORT_EXPORT_FORMATS = ["PDF", "CSV"];
+
+const DOWNLOAD_TOKEN_PURPOSE = "report-download";
+
+export interface CreateReportExportRequest {
+  organizationId: string;
+  userId: string;
+  reportType: string;
+  format: string;
+  startDate: string;
+  endDate: string;
+  timezone: string;
+}
+
+export interface ReportExportOptions {
+  ttlMinutes?: number;
+  onProgress?: (progress: number) => Promise<void>;
+}
+
+export interface ReportExportResult {
+  reportExport: ReportExport;
+  token: string;
+}
+
+export class ReportExportService {
+  private reportExportDAO: ReportExportDAO;
+  private reportService: ReportService;
+
+  constructor() {
+    this.reportExportDAO = new ReportExportDAO();
+    this.reportService = new ReportService();
+  }
+
+  async createExport(
+    data: CreateReportExportRequest,
+    options: ReportExportOptions = {}
+  ): Promise<ReportExportResult> {
+    logger.info("Creating report export in service layer", {
+      organizationId: data.organizationId,
+      userId: data.userId,
+      reportType: data.reportType,
+      format: data.format,
+    });
+
+    if (!REPORT_TEMPLATE_IDS.includes(data.reportType)) {
+      throw new Error(`Unsupported report type: ${data.reportType}`);
+    }
+
+    const format = data.format.toUpperCase();
+    if (!REPORT_EXPORT_FORMATS.includes(format)) {
+      throw new Error(`Unsupported export format: ${data.format}`);
+    }
+
+    // Opportunistically clear out artifacts nobody can download any more
+    await this.reportExportDAO.deleteExpired();
+
+    const reportData = await this.reportService.generateReportData(
+      data.organizationId,
+      data.startDate,
+      data.endDate,
+      data.timezone
+    );
+    await options.onProgress?.(40);
+
+    let content: Buffer;
+    let mimeType: string;
+    let extension: string;
+
+    if (format === "PDF") {
+      content = await this.reportService.generatePdfReport(
+        reportData,
+        data.reportType
+      );
+      // generatePdfReport falls back to an HTML document when Chrome is unavailable
+      const isPdf = content.subarray(0, 5).toString("utf8") === "%PDF-";
+      mimeType = isPdf ? "application/pdf" : "text/html; charset=utf-8";
+      extension = isPdf ? "pdf" : "html";
+    } else {
+      const csv = await this.reportService.generateTemplateCsv(
+        reportData,
+        data.reportType
+      );
+      content = Buffer.from(csv, "utf8");
+      mimeType = "text/csv; charset=utf-8";
+      extension = "csv";
+    }
+
+    await options.onProgress?.(80);
+
+    const fileName = `${reportData.organization.name}_${data.reportType}_${data.startDate}_to_${data.endDate}.${extension}`;
+    const ttlMinutes = options.ttlMinutes ?? this.getTtlMinutes();
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+    const reportExport = await this.reportExportDAO.create({
+      organization: { connect: { id: data.organizationId } },
+      user: { connect: { id: data.userId } },
+      reportType: data.reportType,
+      format,
+      fileName,
+      mimeType,
+      fileSize: content.length,
+      content,
+      startDate: new Date(data.startDate),
+      endDate: new Date(data.endDate),
+      expiresAt,
+    });
+
+    const token = this.createDownloadToken(reportExport);
+
+    logger.info("Report export created successfully in service layer", {
+      exportId: reportExport.id,
+      fileSize: reportExport.fileSize,
+      expiresAt,
+    });
+
+    return { reportExport, token };
+  }
+
+  createDownloadToken(reportExport: ReportExport): string {
+    const expiresIn = Math.max(
+      1,
+      Math.floor((reportExport.expiresAt.getTime() - Date.now()) / 1000)
+    );
+
+    return jwt.sign(
+      {
+        exportId: reportExport.id,
+        organizationId: reportExport.organizationId,
+        purpose: DOWNLOAD_TOKEN_PURPOSE,
+      },
+      process.env.JWT_SECRET || "your-secret-key-here",
+      { expiresIn }
+    );
+  }
+
+  async getExportByToken(token: string): Promise<ReportExport | null> {
+    let decoded: any;
+    try {
+      decoded = jwt.verify(
+        token,
+        process.env.JWT_SECRET || "your-secret-key-here"
+      );
+    } catch (error: any) {
+      logger.warn("Invalid report download token", { error: error.message });
+      return null;
+    }
+
+    if (
+      !decoded ||
+      decoded.purpose !== DOWNLOAD_TOKEN_PURPOSE ||
+      !decoded.exportId ||
+      !decoded.organizationId
+    ) {
+      logger.warn("Report download token has an unexpected payload");
+      return null;
+    }
+
+    return await this.getExportForOrganization(
+      decoded.exportId,
+      decoded.organizationId
+    );
+  }
+
+  async getExportForOrganization(
+    id: string,
+    organizationId: string
+  ): Promise<ReportExport | null> {
+    const reportExport = await this.reportExportDAO.findByIdAndOrganization(
+      id,
+      organizationId
+    );
+
+    if (!reportExport || reportExport.expiresAt < new Date()) {
+      logger.warn("Report export not found or expired", { exportId: id });
+      return null;
+    }
+
+    await this.reportExportDAO.incrementDownloadCount(reportExport.id);
+    return reportExport;
+  }
+
+  formatFileSize(bytes: number): string {
+    if (bytes >= 1024 * 1024) {
+      return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    }
+    if (bytes >= 1024) {
+      return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${bytes} B`;
+  }
+
+  private getTtlMinutes(): number {
+    const ttl = parseInt(process.env.REPORT_EXPORT_TTL_MINUTES || "", 10);
+    return isNaN(ttl) || ttl <= 0 ? 15 : ttl;
+  }
+}
@@ -0,0 +1,208 @@
+import { ReportJob } from "@prisma/client";
+import { ReportJobDAO } from "../dao/reportJobDAO";
+import { logger } from "../utils/logger";
+import {
+  CreateReportExportRequest,
+  REPORT_EXPORT_FORMATS,
+  REPORT_TEMPLATE_IDS,
+  ReportExportService,
+} from "./reportExportService";
+
+export interface ReportJobStatusView {
+  id: string;
+  reportType: string;
+  format: string;
+  startDate: string;
+  endDate: string;
+  status: string;
+  progress: number;
+  error: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  download: {
+    downloadUrl: string;
+    fileName: string;
+    fileSize: string;
+    expiresAt: Date;
+  } | null;
+}
+
+export class ReportJobService {
+  private reportJobDAO: ReportJobDAO;
+  private reportExportService: ReportExportService;
+
+  constructor() {
+    this.reportJobDAO = new ReportJobDAO();
+    this.reportExportService = new ReportExportService();
+  }
+
+  async createJob(data: CreateReportExportRequest): Promise<ReportJob> {
+    logger.info("Creating report job in service layer", {
+      organizationId: data.organizationId,
+      reportType: data.reportType,
+      format: data.format,
+    });
+
+    if (!REPORT_TEMPLATE_IDS.includes(data.reportType)) {
+      throw new Error(`Unsupported report type: ${data.reportType}`);
+    }
+
+    const format = data.format.toUpperCase();
+    if (!REPORT_EXPORT_FORMATS.includes(format)) {
+      throw new Error(`Unsupported export format: ${data.format}`);
+    }
+
+    return await this.reportJobDAO.create({
+      organization: { connect: { id: data.organizationId } },
+      user: { connect: { id: data.userId } },
+      reportType: data.reportType,
+      format,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      timezone: data.timezone,
+    });
+  }
+
+  async getJob(id: string, organizationId: string): Promise<ReportJob | null> {
+    if (!id || !organizationId) {
+      throw new Error("Job ID and organization ID are required");
+    }
+    return await this.reportJobDAO.findByIdAndOrganization(id, organizationId);
+  }
+
+  async getJobsByOrganization(organizationId: string): Promise<ReportJob[]> {
+    if (!organizationId) {
+      throw new Error("Organization ID is required");
+    }
+    return await this.reportJobDAO.findByOrganization(organizationId);
+  }
+
+  async getJobStatus(
+    id: string,
+    organizationId: string
+  ): Promise<ReportJobStatusView | null> {
+    const job = await this.getJob(id, organizationId);
+    if (!job) {
+      return null;
+    }
+
+    let download: ReportJobStatusView["download"] = null;
+    if (job.status === "done" && job.reportExportId) {
+      const reportExport =
+        await this.reportExportService.getExportForOrganization(
+          job.reportExportId,
+          organizationId
+        );
+      if (reportExport) {
+        download = {
+          downloadUrl: `/api/reports/download/${this.reportExportService.createDownloadToken(
+            reportExport
+          )}`,
+          fileName: reportExport.fileName,
+          fileSize: this.reportExportService.formatFileSize(
+            reportExport.fileSize
+          ),
+          expiresAt: reportExport.expiresAt,
+        };
+      }
+    }
+
+    return {
+      id: job.id,
+      reportType: job.reportType,
+      format: job.format,
+      startDate: job.startDate,
+      endDate: job.endDate,
+      status: job.status,
+      progress: job.progress,
+      error: job.error,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt,
+      download,
+    };
+  }
+
+  async getQueuedJobs(limit: number): Promise<ReportJob[]> {
+    return await this.reportJobDAO.findQueued(limit);
+  }
+
+  async claimJob(id: string): Promise<boolean> {
+    return await this.reportJobDAO.claim(id);
+  }
+
+  async recoverInterruptedJobs(): Promise<number> {
+    const { count } = await this.reportJobDAO.requeueRunning();
+    return count;
+  }
+
+  async processJob(job: ReportJob): Promise<void> {
+    logger.info("Processing report job", {
+      jobId: job.id,
+      organizationId: job.organizationId,
+      reportType: job.reportType,
+      attempt: job.attempts + 1,
+    });
+
+    try {
+      const { reportExport } = await this.reportExportService.createExport(
+        {
+          organizationId: job.organizationId,
+          userId: job.userId,
+          reportType: job.reportType,
+          format: job.format,
+          startDate: job.startDate,
+          endDate: job.endDate,
+          timezone: job.timezone,
+        },
+        {
+          ttlMinutes: this.getResultTtlMinutes(),
+          onProgress: async (progress: number) => {
+            await this.reportJobDAO.update(job.id, { progress });
+          },
+        }
+      );
+
+      await this.reportJobDAO.update(job.id, {
+        status: "done",
+        progress: 100,
+        error: null,
+        completedAt: new Date(),
+        reportExport: { connect: { id: reportExport.id } },
+      });
+
+      logger.info("Report job completed", {
+        jobId: job.id,
+        exportId: reportExport.id,
+      });
+    } catch (error: any) {
+      const attempts = job.attempts + 1;
+      const exhausted = attempts >= this.getMaxAttempts();
+
+      logger.error("Report job failed", {
+        jobId: job.id,
+        attempts,
+        willRetry: !exhausted,
+        error: error.message,
+      });
+
+      await this.reportJobDAO.update(job.id, {
+        status: exhausted ? "failed" : "queued",
+        progress: 0,
+        error: error.message,
+        completedAt: exhausted ? new Date() : null,
+      });
+    }
+  }
+
+  private getResultTtlMinutes(): number {
+    const ttl = parseInt(process.env.REPORT_JOB_RESULT_TTL_MINUTES || "", 10);
+    return isNaN(ttl) || ttl <= 0 ? 24 * 60 : ttl;
+  }
+
+  private getMaxAttempts(): number {
+    const attempts = parseInt(process.env.REPORT_JOB_MAX_ATTEMPTS || "", 10);
+    return isNaN(attempts) || attempts <= 0 ? 3 : attempts;
+  }
+}
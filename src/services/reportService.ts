@@ -1,6 +1,7 @@
 import * as csvWriter from "csv-writer";
 import moment from "moment-timezone";
 import puppeteer from "puppeteer";
+import { GstUtil } from "../utils/gst";
 import { logger } from "../utils/logger";
 import { MaterialRateService } from "./materialRateService";
 import { OrganizationService } from "./organizationService";
@@ -12,7 +13,7 @@ interface DateRange {
   endDate: string;
 }
 
-interface ReportData {
+export interface ReportData {
   organization: any;
   dateRange: DateRange;
   salesEntries: any[];
@@ -25,10 +26,63 @@ interface ReportData {
     totalExpenseAmount: number;
     totalSalesQuantity: number;
     totalRawStoneQuantity: number;
+    totalSalesWeight: number;
+    totalRawStoneWeight: number;
     netProfit: number;
   };
 }
 
+interface MaterialGroup {
+  entryType: string;
+  materialType: string;
+  entries: number;
+  netWeight: number;
+  quantity: number;
+  unitType: string;
+  totalAmount: number;
+}
+
+// Sections each report template prints, matching its CSV export
+const PDF_REPORT_LAYOUTS: Record<
+  string,
+  {
+    subtitle: string;
+    summary: boolean;
+    materials: boolean;
+    entries: boolean;
+    expenses: boolean;
+  }
+> = {
+  "truck-entries-summary": {
+    subtitle: "Truck Entries Summary",
+    summary: false,
+    materials: false,
+    entries: true,
+    expenses: false,
+  },
+  "material-wise-report": {
+    subtitle: "Material-wise Report",
+    summary: false,
+    materials: true,
+    entries: false,
+    expenses: false,
+  },
+  "financial-summary": {
+    subtitle: "Financial Business Report",
+    summary: true,
+    materials: false,
+    entries: true,
+    expenses: true,
+  },
+  "daily-operations": {
+    subtitle: "Daily Operations Report",
+    summary: false,
+    materials: false,
+    entries: true,
+    expenses: true,
+  },
+};
+
 export class ReportService {
   private truckEntryService: TruckEntryService;
   private organizationService: OrganizationService;
@@ -135,6 +189,17 @@ export class ReportService {
         0
       );
 
+      // Weighbridge totals in tons, for entries recorded with weights
+      const totalSalesWeight = salesEntries.reduce(
+        (sum: number, entry: any) => sum + (parseFloat(entry.netWeight) || 0),
+        0
+      );
+
+      const totalRawStoneWeight = rawStoneEntries.reduce(
+        (sum: number, entry: any) => sum + (parseFloat(entry.netWeight) || 0),
+        0
+      );
+
       // Net profit = Sales - Raw Stone - Expenses
       const netProfit =
         totalSalesAmount - totalRawStoneAmount - totalExpenseAmount;
@@ -152,6 +217,8 @@ export class ReportService {
           totalExpenseAmount,
           totalSalesQuantity,
           totalRawStoneQuantity,
+          totalSalesWeight,
+          totalRawStoneWeight,
           netProfit,
         },
       };
@@ -176,11 +243,63 @@ export class ReportService {
     }
   }
 
-  async generatePdfReport(reportData: ReportData): Promise<Buffer> {
+  async generatePdfReport(
+    reportData: ReportData,
+    reportType: string = "financial-summary"
+  ): Promise<Buffer> {
     logger.info("Starting PDF report generation", {
       organizationId: reportData.organization?.id,
+      reportType,
     });
 
+    if (!PDF_REPORT_LAYOUTS[reportType]) {
+      throw new Error(`Unsupported report type: ${reportType}`);
+    }
+
+    logger.info("Generating PDF HTML content");
+    const html = this.generatePdfHTML(reportData, reportType);
+
+    return await this.renderPdf(html, "Report", {
+      organizationId: reportData.organization?.id,
+    });
+  }
+
+  // The rate and amount are left out for members who cannot see financials
+  async generateChallanPdf(entry: any, showAmounts: boolean): Promise<Buffer> {
+    logger.info("Starting challan PDF generation", {
+      entryId: entry.id,
+      challanNumber: entry.challanNumber,
+    });
+
+    const html = this.generateChallanHTML(entry, showAmounts);
+
+    return await this.renderPdf(html, `Challan ${entry.challanNumber}`, {
+      organizationId: entry.organizationId,
+      entryId: entry.id,
+    });
+  }
+
+  async generateInvoicePdf(entry: any): Promise<Buffer> {
+    logger.info("Starting tax invoice PDF generation", {
+      entryId: entry.id,
+      invoiceNumber: entry.invoiceNumber,
+    });
+
+    const html = this.generateInvoiceHTML(entry);
+
+    return await this.renderPdf(html, `Invoice ${entry.invoiceNumber}`, {
+      organizationId: entry.organizationId,
+      entryId: entry.id,
+    });
+  }
+
+  // Renders HTML with Puppeteer, falling back to a printable HTML document
+  // when Chrome is unavailable
+  private async renderPdf(
+    html: string,
+    title: string,
+    context: Record<string, any>
+  ): Promise<Buffer> {
     // Log environment info for debugging
     logger.info("Environment info for PDF generation", {
       nodeEnv: process.env.NODE_ENV,
@@ -262,9 +381,6 @@ export class ReportService {
       page.setDefaultTimeout(90000);
       page.setDefaultNavigationTimeout(90000);
 
-      logger.info("Generating PDF HTML content");
-      const html = this.generatePdfHTML(reportData);
-
       await page.setContent(html, {
         waitUntil: "domcontentloaded",
         timeout: 60000,
@@ -294,7 +410,7 @@ export class ReportService {
       const errorStack = (error as Error).stack || "No stack trace";
 
       logger.error("Error generating PDF - Full Details", {
-        organizationId: reportData.organization?.id,
+        ...context,
         error: errorMessage,
         stack: errorStack,
         puppeteerExecutablePath: process.env.PUPPETEER_EXECUTABLE_PATH,
@@ -303,13 +419,12 @@ export class ReportService {
 
       // Always provide HTML fallback for any PDF generation error
       logger.warn("PDF generation failed, providing HTML fallback report");
-      const html = this.generatePdfHTML(reportData);
       const htmlReport = `
 <!DOCTYPE html>
 <html>
 <head>
   <meta charset="UTF-8">
-  <title>Report - HTML Version</title>
+  <title>${title} - HTML Version</title>
   <style>
     .fallback-notice { 
       background: #ffeb3b; 
@@ -397,6 +512,139 @@ export class ReportService {
     }
   }
 
+  async generateTemplateCsv(
+    reportData: ReportData,
+    reportType: string
+  ): Promise<string> {
+    logger.info("Generating CSV for report template", {
+      organizationId: reportData.organization?.id,
+      reportType,
+    });
+
+    switch (reportType) {
+      case "truck-entries-summary": {
+        const { salesCsv, rawStoneCsv } = await this.generateCsvReports(
+          reportData
+        );
+        return `SALES TRANSACTIONS\n${salesCsv}\n\nRAW STONE PURCHASES\n${rawStoneCsv}`;
+      }
+      case "material-wise-report":
+        return this.generateMaterialWiseCsv(reportData);
+      case "financial-summary": {
+        const { salesCsv, rawStoneCsv, expensesCsv } =
+          await this.generateCsvReports(reportData);
+        const summaryCsv = this.generateSummaryCsv(reportData);
+        return `SUMMARY\n${summaryCsv}\n\nSALES TRANSACTIONS\n${salesCsv}\n\nRAW STONE PURCHASES\n${rawStoneCsv}\n\nEXPENSES\n${expensesCsv}`;
+      }
+      case "daily-operations": {
+        const { salesCsv, rawStoneCsv, expensesCsv } =
+          await this.generateCsvReports(reportData);
+        return `SALES TRANSACTIONS\n${salesCsv}\n\nRAW STONE PURCHASES\n${rawStoneCsv}\n\nEXPENSES\n${expensesCsv}`;
+      }
+      default:
+        throw new Error(`Unsupported report type: ${reportType}`);
+    }
+  }
+
+  private generateMaterialWiseCsv(reportData: ReportData): string {
+    const createCsvWriter = csvWriter.createObjectCsvStringifier;
+
+    const csvStringifier = createCsvWriter({
+      header: [
+        { id: "entryType", title: "Entry Type" },
+        { id: "materialType", title: "Material Type" },
+        { id: "entries", title: "Entries" },
+        { id: "netWeight", title: "Net Weight (Tons)" },
+        { id: "quantity", title: "Billed Quantity" },
+        { id: "unitType", title: "Unit" },
+        { id: "totalAmount", title: "Total Amount" },
+      ],
+    });
+
+    const records = this.groupEntriesByMaterial(reportData).map((group) => ({
+      ...group,
+      netWeight: group.netWeight.toFixed(3),
+      quantity: group.quantity.toFixed(2),
+      totalAmount: group.totalAmount.toFixed(2),
+    }));
+
+    return (
+      csvStringifier.getHeaderString() +
+      csvStringifier.stringifyRecords(records)
+    );
+  }
+
+  // Totals per entry type, material and unit across sales and raw stone
+  private groupEntriesByMaterial(reportData: ReportData): MaterialGroup[] {
+    const groups = new Map<string, MaterialGroup>();
+
+    const addEntries = (entries: any[], entryType: string) => {
+      entries.forEach((entry) => {
+        const materialType = entry.materialType || "Unspecified";
+        const unitType = entry.unitType || "Load";
+        const key = `${entryType}|${materialType}|${unitType}`;
+        const group = groups.get(key) || {
+          entryType,
+          materialType,
+          entries: 0,
+          netWeight: 0,
+          quantity: 0,
+          unitType,
+          totalAmount: 0,
+        };
+        group.entries += 1;
+        group.netWeight += parseFloat(entry.netWeight) || 0;
+        group.quantity += parseFloat(entry.units) || 0;
+        group.totalAmount += parseFloat(entry.totalAmount) || 0;
+        groups.set(key, group);
+      });
+    };
+
+    addEntries(reportData.salesEntries, "Sales");
+    addEntries(reportData.rawStoneEntries, "Raw Stone");
+
+    return Array.from(groups.values());
+  }
+
+  private generateSummaryCsv(reportData: ReportData): string {
+    const createCsvWriter = csvWriter.createObjectCsvStringifier;
+
+    const csvStringifier = createCsvWriter({
+      header: [
+        { id: "metric", title: "Metric" },
+        { id: "value", title: "Value" },
+      ],
+    });
+
+    const { summary, dateRange } = reportData;
+    const records = [
+      { metric: "Start Date", value: dateRange.startDate },
+      { metric: "End Date", value: dateRange.endDate },
+      { metric: "Total Sales Amount", value: summary.totalSalesAmount },
+      { metric: "Total Sales Quantity", value: summary.totalSalesQuantity },
+      {
+        metric: "Total Sales Weight (Tons)",
+        value: summary.totalSalesWeight.toFixed(3),
+      },
+      { metric: "Total Raw Stone Amount", value: summary.totalRawStoneAmount },
+      {
+        metric: "Total Raw Stone Quantity",
+        value: summary.totalRawStoneQuantity,
+      },
+      {
+        metric: "Total Raw Stone Weight (Tons)",
+        value: summary.totalRawStoneWeight.toFixed(3),
+      },
+      { metric: "Total Expense Amount", value: summary.totalExpenseAmount },
+      { metric: "Net Profit", value: summary.netProfit },
+    ];
+
+    return (
+      csvStringifier.getHeaderString() +
+      csvStringifier.stringifyRecords(records)
+    );
+  }
+
   private async generateEntriesCsv(
     entries: any[],
     type: string
@@ -408,8 +656,12 @@ export class ReportService {
         { id: "date", title: "Date" },
         { id: "vehicleNumber", title: "Vehicle Number" },
         { id: "materialType", title: "Material Type" },
-        { id: "quantity", title: "Quantity (Loads)" },
-        { id: "rate", title: "Rate per Load" },
+        { id: "grossWeight", title: "Gross Weight (Tons)" },
+        { id: "tareWeight", title: "Tare Weight (Tons)" },
+        { id: "netWeight", title: "Net Weight (Tons)" },
+        { id: "quantity", title: "Quantity" },
+        { id: "unitType", title: "Unit" },
+        { id: "rate", title: "Rate per Unit" },
         { id: "totalAmount", title: "Total Amount" },
         { id: "customerName", title: "Customer Name" },
         { id: "remarks", title: "Remarks" },
@@ -420,10 +672,14 @@ export class ReportService {
       date: moment(entry.createdAt).format("DD/MM/YYYY"),
       vehicleNumber: entry.truckNumber || "",
       materialType: entry.materialType || "",
+      grossWeight: entry.grossWeight ?? "",
+      tareWeight: entry.tareWeight ?? "",
+      netWeight: entry.netWeight ?? "",
       quantity: entry.units || 0,
+      unitType: entry.unitType || "Load",
       rate: entry.ratePerUnit || 0,
       totalAmount: entry.totalAmount || 0,
-      customerName: entry.truckName || "",
+      customerName: entry.customer?.name || entry.truckName || "",
       remarks: entry.notes || "",
     }));
 
@@ -502,7 +758,7 @@ export class ReportService {
     return amount >= 1000000000 ? "amount amount-large" : "amount";
   }
 
-  private generatePdfHTML(reportData: ReportData): string {
+  private generatePdfHTML(reportData: ReportData, reportType: string): string {
     const {
       organization,
       dateRange,
@@ -511,6 +767,10 @@ export class ReportService {
       expenses,
       summary,
     } = reportData;
+    const layout = PDF_REPORT_LAYOUTS[reportType];
+    const materialGroups = layout.materials
+      ? this.groupEntriesByMaterial(reportData)
+      : [];
 
     return `
     <!DOCTYPE html>
@@ -518,7 +778,7 @@ export class ReportService {
     <head>
         <meta charset="UTF-8">
         <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>${organization.name} - Business Report</title>
+        <title>${organization.name} - ${layout.subtitle}</title>
         <style>
             @import url('https://fonts.googleapis.com/css2?family=Noto+Sans:wght@400;600;700&display=swap');
             
@@ -859,9 +1119,10 @@ export class ReportService {
             .vehicle-col { width: 15%; }
             .material-col { width: 15%; }
             .customer-col { width: 15%; }
-            .qty-col { width: 8%; text-align: center; }
-            .rate-col { width: 18%; text-align: right; padding-right: 16px; }
-            .amount-col { width: 19%; text-align: right; padding-right: 16px; }
+            .weight-col { width: 8%; text-align: center; }
+            .qty-col { width: 10%; text-align: center; }
+            .rate-col { width: 12%; text-align: right; padding-right: 16px; }
+            .amount-col { width: 15%; text-align: right; padding-right: 16px; }
             .description-col { width: 25%; }
             .category-col { width: 15%; }
             .remarks-col { width: 20%; }
@@ -1021,7 +1282,7 @@ export class ReportService {
                     </svg>
                 </div>
                 <div class="company-name">${organization.name}</div>
-                <div class="report-subtitle">Financial Business Report</div>
+                <div class="report-subtitle">${layout.subtitle}</div>
             </div>
             
             <!-- Report Info -->
@@ -1040,6 +1301,9 @@ export class ReportService {
                 </div>
             </div>
             
+            ${
+              layout.summary
+                ? `
             <!-- Executive Summary -->
             <div class="summary-section">
                 <h2 class="summary-title">Executive Summary</h2>
@@ -1051,7 +1315,11 @@ export class ReportService {
                         )}</div>
                         <div class="summary-quantity">${
                           summary.totalSalesQuantity
-                        } Loads</div>
+                        } Units${
+                    summary.totalSalesWeight > 0
+                      ? ` · ${summary.totalSalesWeight.toFixed(2)} Tons`
+                      : ""
+                  }</div>
                     </div>
                     <div class="summary-card rawstone">
                         <div class="summary-label">Raw Material Cost</div>
@@ -1060,7 +1328,11 @@ export class ReportService {
                         )}</div>
                         <div class="summary-quantity">${
                           summary.totalRawStoneQuantity
-                        } Loads</div>
+                        } Units${
+                    summary.totalRawStoneWeight > 0
+                      ? ` · ${summary.totalRawStoneWeight.toFixed(2)} Tons`
+                      : ""
+                  }</div>
                     </div>
                     <div class="summary-card expenses">
                         <div class="summary-label">Other Expenses</div>
@@ -1076,7 +1348,70 @@ export class ReportService {
                     </div>
                 </div>
             </div>
-            
+            `
+                : ""
+            }
+
+            ${
+              layout.materials
+                ? `
+            <!-- Material-wise Section -->
+            <div class="section">
+                <div class="section-header">
+                    <h3 class="section-title">Material-wise Totals</h3>
+                </div>
+                <div class="table-container">
+                    ${
+                      materialGroups.length > 0
+                        ? `
+                        <table>
+                            <thead>
+                                <tr>
+                                    <th class="category-col">Entry Type</th>
+                                    <th class="material-col">Material</th>
+                                    <th class="qty-col">Entries</th>
+                                    <th class="weight-col">Net Wt (T)</th>
+                                    <th class="qty-col">Qty</th>
+                                    <th class="amount-col amount">Amount</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                ${materialGroups
+                                  .map(
+                                    (group) => `
+                                    <tr>
+                                        <td>${group.entryType}</td>
+                                        <td>${group.materialType}</td>
+                                        <td class="center">${group.entries}</td>
+                                        <td class="center">${group.netWeight.toFixed(
+                                          3
+                                        )}</td>
+                                        <td class="center">${group.quantity.toFixed(
+                                          2
+                                        )} ${group.unitType}</td>
+                                        <td class="${this.getAmountClass(
+                                          group.totalAmount
+                                        )}">₹ ${this.formatFullCurrency(
+                                      group.totalAmount
+                                    )}</td>
+                                    </tr>
+                                `
+                                  )
+                                  .join("")}
+                            </tbody>
+                        </table>
+                    `
+                        : '<div class="no-data">No truck entries recorded for this period</div>'
+                    }
+                </div>
+            </div>
+            `
+                : ""
+            }
+
+            ${
+              layout.entries
+                ? `
             <!-- Sales Section -->
             <div class="section">
                 <div class="section-header">
@@ -1093,8 +1428,9 @@ export class ReportService {
                                     <th class="vehicle-col">Vehicle No.</th>
                                     <th class="material-col">Material</th>
                                     <th class="customer-col">Customer</th>
-                                    <th class="qty-col">Loads</th>
-                                    <th class="rate-col amount">Rate/Load</th>
+                                    <th class="weight-col">Net Wt (T)</th>
+                                    <th class="qty-col">Qty</th>
+                                    <th class="rate-col amount">Rate</th>
                                     <th class="amount-col amount">Amount</th>
                                 </tr>
                             </thead>
@@ -1108,10 +1444,17 @@ export class ReportService {
                                         )}</td>
                                         <td>${entry.truckNumber || "-"}</td>
                                         <td>${entry.materialType || "-"}</td>
-                                        <td>${entry.truckName || "-"}</td>
+                                        <td>${
+                                          entry.customer?.name ||
+                                          entry.truckName ||
+                                          "-"
+                                        }</td>
                                         <td class="center">${
-                                          entry.units || 0
+                                          entry.netWeight ?? "-"
                                         }</td>
+                                        <td class="center">${
+                                          entry.units || 0
+                                        } ${entry.unitType || "Load"}</td>
                                         <td class="${this.getAmountClass(
                                           parseFloat(entry.ratePerUnit || 0)
                                         )}">₹ ${this.formatFullCurrency(
@@ -1150,8 +1493,9 @@ export class ReportService {
                                     <th class="vehicle-col">Vehicle No.</th>
                                     <th class="material-col">Material</th>
                                     <th class="customer-col">Supplier</th>
-                                    <th class="qty-col">Loads</th>
-                                    <th class="rate-col amount">Rate/Load</th>
+                                    <th class="weight-col">Net Wt (T)</th>
+                                    <th class="qty-col">Qty</th>
+                                    <th class="rate-col amount">Rate</th>
                                     <th class="amount-col amount">Amount</th>
                                 </tr>
                             </thead>
@@ -1165,10 +1509,17 @@ export class ReportService {
                                         )}</td>
                                         <td>${entry.truckNumber || "-"}</td>
                                         <td>${entry.materialType || "-"}</td>
-                                        <td>${entry.truckName || "-"}</td>
+                                        <td>${
+                                          entry.customer?.name ||
+                                          entry.truckName ||
+                                          "-"
+                                        }</td>
                                         <td class="center">${
-                                          entry.units || 0
+                                          entry.netWeight ?? "-"
                                         }</td>
+                                        <td class="center">${
+                                          entry.units || 0
+                                        } ${entry.unitType || "Load"}</td>
                                         <td class="${this.getAmountClass(
                                           parseFloat(entry.ratePerUnit || 0)
                                         )}">₹ ${this.formatFullCurrency(
@@ -1190,7 +1541,13 @@ export class ReportService {
                     }
                 </div>
             </div>
-            
+            `
+                : ""
+            }
+
+            ${
+              layout.expenses
+                ? `
             <!-- Expenses Section -->
             <div class="section">
                 <div class="section-header">
@@ -1241,7 +1598,10 @@ export class ReportService {
                     }
                 </div>
             </div>
-            
+            `
+                : ""
+            }
+
             <!-- Footer -->
             <div class="footer">
                 <p><strong>${
@@ -1256,4 +1616,286 @@ export class ReportService {
     </html>
     `;
   }
+
+  private escapeHtml(value: any): string {
+    return String(value ?? "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+
+  private generateChallanHTML(entry: any, showAmounts: boolean): string {
+    const organization = entry.organization || {};
+    const customer = entry.customer;
+    const vehicle = entry.vehicle;
+    const hasWeights =
+      entry.netWeight !== null && entry.netWeight !== undefined;
+    const row = (label: string, value: any) =>
+      `<tr><th>${label}</th><td>${this.escapeHtml(value) || "-"}</td></tr>`;
+
+    return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+        <meta charset="UTF-8">
+        <title>Delivery Challan ${this.escapeHtml(entry.challanNumber)}</title>
+        <style>
+            * { margin: 0; padding: 0; box-sizing: border-box; }
+            body {
+                font-family: 'Noto Sans', 'Segoe UI', Arial, sans-serif;
+                color: #1a1a1a;
+                font-size: 13px;
+                line-height: 1.5;
+            }
+            .challan { border: 2px solid #1e40af; padding: 20px; }
+            .header {
+                text-align: center;
+                border-bottom: 2px solid #1e40af;
+                padding-bottom: 12px;
+                margin-bottom: 16px;
+            }
+            .header h1 { font-size: 22px; color: #1e40af; }
+            .header h2 { font-size: 15px; letter-spacing: 2px; margin-top: 4px; }
+            .meta {
+                display: flex;
+                justify-content: space-between;
+                margin-bottom: 16px;
+                font-weight: 600;
+            }
+            table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+            th, td { border: 1px solid #cbd5e1; padding: 8px 10px; text-align: left; }
+            th { width: 35%; background: #f1f5f9; font-weight: 600; }
+            .amount { font-size: 16px; font-weight: 700; }
+            .signatures {
+                display: flex;
+                justify-content: space-between;
+                margin-top: 48px;
+            }
+            .signature {
+                width: 40%;
+                border-top: 1px solid #1a1a1a;
+                text-align: center;
+                padding-top: 6px;
+            }
+        </style>
+    </head>
+    <body>
+        <div class="challan">
+            <div class="header">
+                <h1>${this.escapeHtml(organization.name)}</h1>
+                <h2>DELIVERY CHALLAN</h2>
+            </div>
+            <div class="meta">
+                <span>Challan No: ${this.escapeHtml(entry.challanNumber)}</span>
+                <span>Date: ${moment(entry.entryDate).format(
+                  "DD/MM/YYYY"
+                )} ${moment.utc(entry.entryTime).format("HH:mm")}</span>
+            </div>
+            <table>
+                ${row("Customer", customer?.name || entry.truckName)}
+                ${customer?.address ? row("Address", customer.address) : ""}
+                ${customer?.gstin ? row("GSTIN", customer.gstin) : ""}
+                ${row("Vehicle No.", entry.truckNumber)}
+                ${
+                  vehicle?.defaultDriver
+                    ? row("Driver", vehicle.defaultDriver)
+                    : ""
+                }
+                ${row("Material", entry.materialType)}
+                ${
+                  hasWeights
+                    ? `${row("Gross Weight", `${entry.grossWeight} T`)}
+                       ${row("Tare Weight", `${entry.tareWeight} T`)}
+                       ${row("Net Weight", `${entry.netWeight} T`)}`
+                    : ""
+                }
+                ${row("Quantity", `${entry.units} ${entry.unitType || "Load"}`)}
+                ${
+                  showAmounts
+                    ? `${row(
+                        "Rate",
+                        `₹ ${this.formatFullCurrency(
+                          parseFloat(entry.ratePerUnit || 0)
+                        )} / ${entry.unitType || "Load"}`
+                      )}
+                <tr>
+                    <th>Amount</th>
+                    <td class="amount">₹ ${this.formatFullCurrency(
+                      parseFloat(entry.totalAmount || 0)
+                    )}</td>
+                </tr>`
+                    : ""
+                }
+                ${
+                  entry.paymentMode
+                    ? row("Payment", entry.paymentMode.toUpperCase())
+                    : ""
+                }
+                ${entry.notes ? row("Remarks", entry.notes) : ""}
+            </table>
+            <div class="signatures">
+                <div class="signature">Driver's Signature</div>
+                <div class="signature">For ${this.escapeHtml(
+                  organization.name
+                )}</div>
+            </div>
+        </div>
+    </body>
+    </html>
+    `;
+  }
+
+  private generateInvoiceHTML(entry: any): string {
+    const organization = entry.organization || {};
+    const customer = entry.customer;
+    const gstRate = Number(entry.gstRate || 0);
+    const cgst = Number(entry.cgstAmount || 0);
+    const sgst = Number(entry.sgstAmount || 0);
+    const igst = Number(entry.igstAmount || 0);
+    const money = (value: any) =>
+      `₹ ${this.formatFullCurrency(parseFloat(value || 0))}`;
+    const state = (stateCode?: string | null) =>
+      stateCode ? `${GstUtil.getStateName(stateCode)} (${stateCode})` : "-";
+    const taxRow = (label: string, rate: number, amount: number) => `
+                <tr>
+                    <td colspan="5" class="label">${label} @ ${rate}%</td>
+                    <td class="number">${money(amount)}</td>
+                </tr>`;
+
+    return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+        <meta charset="UTF-8">
+        <title>Tax Invoice ${this.escapeHtml(entry.invoiceNumber)}</title>
+        <style>
+            * { margin: 0; padding: 0; box-sizing: border-box; }
+            body {
+                font-family: 'Noto Sans', 'Segoe UI', Arial, sans-serif;
+                color: #1a1a1a;
+                font-size: 12px;
+                line-height: 1.5;
+            }
+            .invoice { border: 2px solid #1e40af; padding: 20px; }
+            .header {
+                text-align: center;
+                border-bottom: 2px solid #1e40af;
+                padding-bottom: 12px;
+                margin-bottom: 16px;
+            }
+            .header h1 { font-size: 22px; color: #1e40af; }
+            .header h2 { font-size: 15px; letter-spacing: 2px; margin-top: 6px; }
+            .parties {
+                display: flex;
+                justify-content: space-between;
+                gap: 16px;
+                margin-bottom: 16px;
+            }
+            .party { width: 50%; border: 1px solid #cbd5e1; padding: 10px; }
+            .party h3 { font-size: 12px; color: #1e40af; margin-bottom: 4px; }
+            table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+            th, td { border: 1px solid #cbd5e1; padding: 8px 10px; text-align: left; }
+            th { background: #f1f5f9; font-weight: 600; }
+            .number { text-align: right; }
+            .label { text-align: right; font-weight: 600; }
+            .grand-total td { font-size: 14px; font-weight: 700; background: #f1f5f9; }
+            .signature {
+                margin-top: 48px;
+                margin-left: auto;
+                width: 40%;
+                border-top: 1px solid #1a1a1a;
+                text-align: center;
+                padding-top: 6px;
+            }
+        </style>
+    </head>
+    <body>
+        <div class="invoice">
+            <div class="header">
+                <h1>${this.escapeHtml(organization.name)}</h1>
+                ${
+                  organization.address
+                    ? `<div>${this.escapeHtml(organization.address)}</div>`
+                    : ""
+                }
+                ${
+                  organization.gstin
+                    ? `<div>GSTIN: ${this.escapeHtml(organization.gstin)}</div>`
+                    : ""
+                }
+                <h2>TAX INVOICE</h2>
+            </div>
+            <div class="parties">
+                <div class="party">
+                    <h3>Bill To</h3>
+                    <div><strong>${this.escapeHtml(
+                      customer?.name || entry.truckName
+                    )}</strong></div>
+                    ${
+                      customer?.address
+                        ? `<div>${this.escapeHtml(customer.address)}</div>`
+                        : ""
+                    }
+                    <div>GSTIN: ${
+                      this.escapeHtml(customer?.gstin) || "Unregistered"
+                    }</div>
+                    <div>Place of Supply: ${state(entry.placeOfSupply)}</div>
+                </div>
+                <div class="party">
+                    <div>Invoice No: <strong>${this.escapeHtml(
+                      entry.invoiceNumber
+                    )}</strong></div>
+                    <div>Invoice Date: ${moment(entry.entryDate).format(
+                      "DD/MM/YYYY"
+                    )}</div>
+                    ${
+                      entry.challanNumber
+                        ? `<div>Challan No: ${this.escapeHtml(
+                            entry.challanNumber
+                          )}</div>`
+                        : ""
+                    }
+                    <div>Vehicle No: ${this.escapeHtml(entry.truckNumber)}</div>
+                </div>
+            </div>
+            <table>
+                <thead>
+                    <tr>
+                        <th>Description</th>
+                        <th>HSN</th>
+                        <th class="number">Qty</th>
+                        <th>Unit</th>
+                        <th class="number">Rate</th>
+                        <th class="number">Taxable Value</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    <tr>
+                        <td>${this.escapeHtml(entry.materialType) || "-"}</td>
+                        <td>${this.escapeHtml(entry.hsnCode) || "-"}</td>
+                        <td class="number">${entry.units}</td>
+                        <td>${this.escapeHtml(entry.unitType || "Load")}</td>
+                        <td class="number">${money(entry.ratePerUnit)}</td>
+                        <td class="number">${money(entry.totalAmount)}</td>
+                    </tr>
+                    ${cgst > 0 ? taxRow("CGST", gstRate / 2, cgst) : ""}
+                    ${sgst > 0 ? taxRow("SGST", gstRate / 2, sgst) : ""}
+                    ${igst > 0 ? taxRow("IGST", gstRate, igst) : ""}
+                    <tr class="grand-total">
+                        <td colspan="5" class="label">Invoice Total</td>
+                        <td class="number">${money(
+                          GstUtil.getInvoiceTotal(entry)
+                        )}</td>
+                    </tr>
+                </tbody>
+            </table>
+            <div class="signature">For ${this.escapeHtml(
+              organization.name
+            )}<br>Authorised Signatory</div>
+        </div>
+    </body>
+    </html>
+    `;
+  }
 }
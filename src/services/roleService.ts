@@ -0,0 +1,284 @@
+import { Prisma, Role, User, UserRole } from "@prisma/client";
+import { RoleDAO } from "../dao/roleDAO";
+import { UserDAO } from "../dao/userDAO";
+import { logger } from "../utils/logger";
+import {
+  BUILT_IN_ROLE_NAMES,
+  Permission,
+  PermissionUtil,
+} from "../utils/permissions";
+import { AuditLogService } from "./auditLogService";
+
+// Roles that can be assigned to members. Ownership is not handed out this way
+export const ASSIGNABLE_ROLES: UserRole[] = [
+  "manager",
+  "accountant",
+  "operator",
+  "user",
+];
+
+export interface RoleInput {
+  name?: string;
+  description?: string | null;
+  permissions?: string[];
+}
+
+export interface RoleAssignment {
+  role?: string;
+  roleId?: string | null;
+}
+
+export interface BuiltInRole {
+  role: UserRole;
+  name: string;
+  permissions: Permission[];
+}
+
+export class RoleService {
+  private roleDAO: RoleDAO;
+  private userDAO: UserDAO;
+  private auditLogService: AuditLogService;
+
+  constructor() {
+    this.roleDAO = new RoleDAO();
+    this.userDAO = new UserDAO();
+    this.auditLogService = new AuditLogService();
+  }
+
+  // A custom role replaces the permissions of the user's built-in role.
+  // Owners always hold every permission
+  async getUserPermissions(user: User): Promise<Permission[]> {
+    if (user.role === "owner" || !user.roleId) {
+      return PermissionUtil.forRole(user.role);
+    }
+
+    const role = await this.roleDAO.findById(user.roleId);
+    if (!role || role.organizationId !== user.organizationId) {
+      logger.warn("User has a custom role outside their organization", {
+        userId: user.id,
+        roleId: user.roleId,
+      });
+      return PermissionUtil.forRole(user.role);
+    }
+
+    return role.permissions.filter(PermissionUtil.isValid);
+  }
+
+  getBuiltInRoles(): BuiltInRole[] {
+    return (Object.keys(BUILT_IN_ROLE_NAMES) as UserRole[]).map((role) => ({
+      role,
+      name: BUILT_IN_ROLE_NAMES[role],
+      permissions: PermissionUtil.forRole(role),
+    }));
+  }
+
+  async getCustomRoles(organizationId: string) {
+    if (!organizationId) {
+      throw new Error("Organization ID is required");
+    }
+    return await this.roleDAO.findByOrganization(organizationId);
+  }
+
+  async getRoleById(id: string): Promise<Role | null> {
+    if (!id) {
+      throw new Error("Role ID is required");
+    }
+    return await this.roleDAO.findById(id);
+  }
+
+  async createRole(
+    organizationId: string,
+    data: RoleInput,
+    grantorPermissions: string[]
+  ): Promise<Role> {
+    logger.info("Creating role in service layer", {
+      organizationId,
+      name: data.name,
+    });
+
+    const name = (data.name || "").trim();
+    await this.validateName(organizationId, name);
+    const permissions = this.validatePermissions(
+      data.permissions,
+      grantorPermissions
+    );
+
+    return await this.roleDAO.create({
+      organization: { connect: { id: organizationId } },
+      name,
+      description: this.validateDescription(data.description),
+      permissions,
+    });
+  }
+
+  async updateRole(
+    role: Role,
+    data: RoleInput,
+    grantorPermissions: string[]
+  ): Promise<Role> {
+    logger.info("Updating role in service layer", { roleId: role.id });
+
+    const updateData: Prisma.RoleUpdateInput = {};
+
+    if (data.name !== undefined) {
+      const name = (data.name || "").trim();
+      if (name.toLowerCase() !== role.name.toLowerCase()) {
+        await this.validateName(role.organizationId, name);
+      }
+      updateData.name = name;
+    }
+    if (data.description !== undefined) {
+      updateData.description = this.validateDescription(data.description);
+    }
+    if (data.permissions !== undefined) {
+      updateData.permissions = this.validatePermissions(
+        data.permissions,
+        grantorPermissions
+      );
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      throw new Error("No valid fields provided for update");
+    }
+
+    return await this.roleDAO.update(role.id, updateData);
+  }
+
+  async deleteRole(role: Role): Promise<Role> {
+    const assignedUsers = await this.roleDAO.countUsers(role.id);
+    if (assignedUsers > 0) {
+      throw new Error(
+        `Role is assigned to ${assignedUsers} user(s). Reassign them before deleting it`
+      );
+    }
+
+    logger.info("Deleting role", { roleId: role.id });
+    return await this.roleDAO.delete(role.id);
+  }
+
+  // Changes a member's built-in role and/or custom role. Nobody can change
+  // their own role or hand out permissions they do not hold themselves
+  async assignRole(
+    target: User,
+    assignment: RoleAssignment,
+    grantor: User,
+    grantorPermissions: string[]
+  ): Promise<User> {
+    if (target.id === grantor.id) {
+      throw new Error("You cannot change your own role");
+    }
+    if (target.role === "owner") {
+      throw new Error("The owner's role cannot be changed");
+    }
+
+    const updateData: Prisma.UserUpdateInput = {};
+    let role: UserRole = target.role;
+
+    if (assignment.role !== undefined) {
+      if (!ASSIGNABLE_ROLES.includes(assignment.role as UserRole)) {
+        throw new Error(`Role must be one of: ${ASSIGNABLE_ROLES.join(", ")}`);
+      }
+      role = assignment.role as UserRole;
+      updateData.role = role;
+    }
+
+    let granted: string[] = PermissionUtil.forRole(role);
+    let roleId = target.roleId;
+
+    if (assignment.roleId !== undefined) {
+      roleId = assignment.roleId;
+      updateData.customRole = roleId
+        ? { connect: { id: roleId } }
+        : { disconnect: true };
+    }
+
+    if (roleId) {
+      const customRole = await this.roleDAO.findById(roleId);
+      if (!customRole || customRole.organizationId !== target.organizationId) {
+        throw new Error("Role not found");
+      }
+      granted = customRole.permissions;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      throw new Error("Provide a role or roleId to assign");
+    }
+
+    const missing = PermissionUtil.missing(grantorPermissions, granted);
+    if (missing.length > 0) {
+      throw new Error(
+        `You cannot grant permissions you do not hold: ${missing.join(", ")}`
+      );
+    }
+
+    logger.info("Assigning role to user", {
+      userId: target.id,
+      role,
+      roleId,
+      grantedBy: grantor.id,
+    });
+    const user = await this.userDAO.update(target.id, updateData);
+    await this.auditLogService.record("User", "update", target, user);
+    return user;
+  }
+
+  private async validateName(
+    organizationId: string,
+    name: string
+  ): Promise<void> {
+    if (!name || name.length > 50) {
+      throw new Error(
+        "Role name is required and must be at most 50 characters"
+      );
+    }
+
+    // Custom roles cannot pose as built-in ones
+    const builtInNames = Object.entries(BUILT_IN_ROLE_NAMES).flat();
+    if (
+      builtInNames.some(
+        (builtIn) => builtIn.toLowerCase() === name.toLowerCase()
+      )
+    ) {
+      throw new Error("Role name is reserved for a built-in role");
+    }
+
+    if (await this.roleDAO.findByName(organizationId, name)) {
+      throw new Error("A role with this name already exists");
+    }
+  }
+
+  private validateDescription(description?: string | null): string | null {
+    if (!description) {
+      return null;
+    }
+    if (description.length > 255) {
+      throw new Error("Description must be at most 255 characters");
+    }
+    return description;
+  }
+
+  private validatePermissions(
+    permissions: string[] | undefined,
+    grantorPermissions: string[]
+  ): Permission[] {
+    if (!Array.isArray(permissions) || permissions.length === 0) {
+      throw new Error("Permissions must be a non-empty list");
+    }
+
+    const invalid = permissions.filter(
+      (permission) => !PermissionUtil.isValid(permission)
+    );
+    if (invalid.length > 0) {
+      throw new Error(`Unknown permissions: ${invalid.join(", ")}`);
+    }
+
+    const missing = PermissionUtil.missing(grantorPermissions, permissions);
+    if (missing.length > 0) {
+      throw new Error(
+        `You cannot grant permissions you do not hold: ${missing.join(", ")}`
+      );
+    }
+
+    return Array.from(new Set(permissions)) as Permission[];
+  }
+}
@@ -0,0 +1,178 @@
+import {
+  MaterialRate,
+  ScheduledRateChange,
+  ScheduledRateChangeStatus,
+} from "@prisma/client";
+import moment from "moment-timezone";
+import { OrganizationDAO } from "../dao/organizationDAO";
+import { ScheduledRateChangeDAO } from "../dao/scheduledRateChangeDAO";
+import { logger } from "../utils/logger";
+import { MaterialRateService } from "./materialRateService";
+
+// Local date-times accepted for effectiveAt; a bare date means midnight
+const EFFECTIVE_AT_FORMATS = [
+  "YYYY-MM-DDTHH:mm",
+  "YYYY-MM-DDTHH:mm:ss",
+  "YYYY-MM-DD HH:mm",
+  "YYYY-MM-DD HH:mm:ss",
+  "YYYY-MM-DD",
+];
+
+export const SCHEDULED_RATE_CHANGE_STATUSES: ScheduledRateChangeStatus[] = [
+  "pending",
+  "applied",
+  "cancelled",
+  "failed",
+];
+export const MAX_SCHEDULE_AHEAD_DAYS = 365;
+
+export interface ScheduledRateChangeInput {
+  ratePerUnit?: number;
+  effectiveAt?: string;
+}
+
+export class ScheduledRateChangeService {
+  private scheduledRateChangeDAO: ScheduledRateChangeDAO;
+  private organizationDAO: OrganizationDAO;
+  private materialRateService: MaterialRateService;
+
+  constructor() {
+    this.scheduledRateChangeDAO = new ScheduledRateChangeDAO();
+    this.organizationDAO = new OrganizationDAO();
+    this.materialRateService = new MaterialRateService();
+  }
+
+  // effectiveAt is a local date-time in the organization's timezone
+  async scheduleRateChange(
+    materialRate: MaterialRate,
+    data: ScheduledRateChangeInput,
+    createdById: string
+  ): Promise<ScheduledRateChange> {
+    logger.info("Scheduling rate change in service layer", {
+      materialRateId: materialRate.id,
+      effectiveAt: data.effectiveAt,
+      createdById,
+    });
+
+    const ratePerUnit = Number(data.ratePerUnit);
+    if (isNaN(ratePerUnit) || ratePerUnit <= 0) {
+      throw new Error("Rate must be a valid number greater than 0");
+    }
+
+    const timezone = await this.getTimezone(materialRate.organizationId);
+    const effectiveAt = moment.tz(
+      data.effectiveAt || "",
+      EFFECTIVE_AT_FORMATS,
+      true,
+      timezone
+    );
+    if (!effectiveAt.isValid()) {
+      throw new Error(
+        `Effective time must be a local date-time like 2024-04-01T00:00 (${timezone})`
+      );
+    }
+    if (!effectiveAt.isAfter(moment())) {
+      throw new Error("Effective time must be in the future");
+    }
+    if (effectiveAt.isAfter(moment().add(MAX_SCHEDULE_AHEAD_DAYS, "days"))) {
+      throw new Error(
+        `Rate changes can be scheduled at most ${MAX_SCHEDULE_AHEAD_DAYS} days ahead`
+      );
+    }
+
+    return await this.scheduledRateChangeDAO.create({
+      organization: { connect: { id: materialRate.organizationId } },
+      materialRate: { connect: { id: materialRate.id } },
+      createdBy: { connect: { id: createdById } },
+      ratePerUnit,
+      effectiveAt: effectiveAt.toDate(),
+    });
+  }
+
+  async getScheduledRateChanges(
+    organizationId: string,
+    filters: { materialRateId?: string; status?: string }
+  ): Promise<ScheduledRateChange[]> {
+    if (!organizationId) {
+      throw new Error("Organization ID is required");
+    }
+
+    const status = filters.status as ScheduledRateChangeStatus | undefined;
+    if (status && !SCHEDULED_RATE_CHANGE_STATUSES.includes(status)) {
+      throw new Error(
+        `Status must be one of: ${SCHEDULED_RATE_CHANGE_STATUSES.join(", ")}`
+      );
+    }
+
+    return await this.scheduledRateChangeDAO.findByOrganization(
+      organizationId,
+      { materialRateId: filters.materialRateId, status }
+    );
+  }
+
+  async getScheduledRateChangeById(
+    id: string
+  ): Promise<ScheduledRateChange | null> {
+    if (!id) {
+      throw new Error("Scheduled rate change ID is required");
+    }
+    return await this.scheduledRateChangeDAO.findById(id);
+  }
+
+  async cancelScheduledRateChange(
+    id: string,
+    cancelledById: string
+  ): Promise<ScheduledRateChange> {
+    const change = await this.scheduledRateChangeDAO.findById(id);
+    if (!change) {
+      throw new Error("Scheduled rate change not found");
+    }
+    if (!(await this.scheduledRateChangeDAO.cancel(id, cancelledById))) {
+      throw new Error(
+        `Only pending changes can be cancelled; this one is ${change.status}`
+      );
+    }
+
+    logger.info("Scheduled rate change cancelled", {
+      scheduledRateChangeId: id,
+      cancelledById,
+    });
+    return (await this.scheduledRateChangeDAO.findById(id))!;
+  }
+
+  async getDueChanges(limit: number): Promise<ScheduledRateChange[]> {
+    return await this.scheduledRateChangeDAO.findDue(limit);
+  }
+
+  // Applies a due change unless another process already has. A change that
+  // cannot be applied is marked failed instead of being retried forever
+  async applyScheduledRateChange(change: ScheduledRateChange): Promise<void> {
+    if (!(await this.scheduledRateChangeDAO.claim(change.id))) {
+      return;
+    }
+
+    try {
+      await this.materialRateService.applyScheduledRate(
+        change.materialRateId,
+        Number(change.ratePerUnit),
+        change.effectiveAt,
+        change.createdById
+      );
+      logger.info("Scheduled rate change applied", {
+        scheduledRateChangeId: change.id,
+        materialRateId: change.materialRateId,
+      });
+    } catch (error: any) {
+      logger.error("Failed to apply scheduled rate change", {
+        scheduledRateChangeId: change.id,
+        error: error.message,
+      });
+      await this.scheduledRateChangeDAO.markFailed(change.id, error.message);
+    }
+  }
+
+  async getTimezone(organizationId: string): Promise<string> {
+    const organization = await this.organizationDAO.findById(organizationId);
+    return organization?.timezone || "Asia/Kolkata";
+  }
+}
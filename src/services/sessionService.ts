@@ -0,0 +1,276 @@
+import { Session, User } from "@prisma/client";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { OrganizationDAO } from "../dao/organizationDAO";
+import { SessionDAO } from "../dao/sessionDAO";
+import { UserDAO } from "../dao/userDAO";
+import { logger } from "../utils/logger";
+
+export interface SessionClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  userId: string;
+  username: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+// How stale lastUsedAt may get before an authenticated request refreshes it
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+
+export interface SessionTokens {
+  sessionId: string;
+  organizationId?: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: string;
+  refreshTokenExpiresAt: Date;
+}
+
+export class SessionService {
+  private organizationDAO: OrganizationDAO;
+  private sessionDAO: SessionDAO;
+  private userDAO: UserDAO;
+
+  constructor() {
+    this.organizationDAO = new OrganizationDAO();
+    this.sessionDAO = new SessionDAO();
+    this.userDAO = new UserDAO();
+  }
+
+  // Starts a session for a user who has just authenticated
+  async createSession(
+    user: User,
+    clientInfo: SessionClientInfo = {}
+  ): Promise<SessionTokens> {
+    logger.info("Creating session in service layer", { userId: user.id });
+
+    // Opportunistically clear out sessions nobody can use any more
+    await this.sessionDAO.deleteStale(
+      new Date(Date.now() - this.getRefreshTokenTtlMs())
+    );
+
+    const refreshToken = this.generateRefreshToken();
+    const session = await this.sessionDAO.create({
+      user: { connect: { id: user.id } },
+      refreshTokenHash: this.hashToken(refreshToken),
+      userAgent: clientInfo.userAgent?.substring(0, 255),
+      ipAddress: clientInfo.ipAddress?.substring(0, 45),
+      expiresAt: new Date(Date.now() + this.getRefreshTokenTtlMs()),
+    });
+
+    return await this.issueTokens(user, session, refreshToken);
+  }
+
+  // Exchanges a refresh token for a new access token and a new refresh token.
+  // Presenting a refresh token that has already been rotated revokes the
+  // session, since either the client or an attacker holds a stolen copy
+  async refreshSession(refreshToken: string): Promise<SessionTokens> {
+    if (!refreshToken) {
+      throw new Error("Refresh token is required");
+    }
+
+    const tokenHash = this.hashToken(refreshToken);
+    const session = await this.sessionDAO.findByRefreshTokenHash(tokenHash);
+
+    if (!session) {
+      const reused = await this.sessionDAO.findByPreviousTokenHash(tokenHash);
+      if (reused && !reused.revokedAt) {
+        logger.warn("Refresh token reuse detected, revoking session", {
+          sessionId: reused.id,
+          userId: reused.userId,
+        });
+        await this.sessionDAO.revoke(reused.id, "token_reuse");
+      }
+      throw new Error("Invalid refresh token");
+    }
+
+    if (session.revokedAt) {
+      throw new Error("Session has been revoked");
+    }
+    if (session.expiresAt <= new Date()) {
+      throw new Error("Refresh token expired");
+    }
+
+    const user = await this.userDAO.findById(session.userId);
+    if (!user || !user.isActive) {
+      await this.sessionDAO.revoke(session.id, "user_inactive");
+      throw new Error("Account is deactivated");
+    }
+
+    const newRefreshToken = this.generateRefreshToken();
+    const expiresAt = new Date(Date.now() + this.getRefreshTokenTtlMs());
+    const rotated = await this.sessionDAO.rotate(
+      session.id,
+      tokenHash,
+      this.hashToken(newRefreshToken),
+      expiresAt
+    );
+    if (!rotated) {
+      throw new Error("Invalid refresh token");
+    }
+
+    logger.info("Session refreshed", {
+      sessionId: session.id,
+      userId: user.id,
+    });
+    return await this.issueTokens(
+      user,
+      { ...session, expiresAt },
+      newRefreshToken
+    );
+  }
+
+  // Also records the session as seen, at most once per few minutes so
+  // authenticated requests do not each cost a write
+  async isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+    const session = await this.sessionDAO.findById(sessionId);
+    const active = Boolean(
+      session &&
+        session.userId === userId &&
+        !session.revokedAt &&
+        session.expiresAt > new Date()
+    );
+
+    if (
+      active &&
+      Date.now() - session!.lastUsedAt.getTime() > LAST_SEEN_RESOLUTION_MS
+    ) {
+      await this.sessionDAO.touch(sessionId);
+    }
+    return active;
+  }
+
+  async getUserSessions(
+    userId: string,
+    currentSessionId?: string
+  ): Promise<SessionSummary[]> {
+    if (!userId) {
+      throw new Error("User ID is required");
+    }
+    const sessions = await this.sessionDAO.findActive({ userId });
+    return sessions.map((session) => this.toSummary(session, currentSessionId));
+  }
+
+  async getOrganizationSessions(
+    organizationId: string,
+    currentSessionId?: string
+  ): Promise<SessionSummary[]> {
+    if (!organizationId) {
+      throw new Error("Organization ID is required");
+    }
+    const sessions = await this.sessionDAO.findActive({
+      user: { organizationId },
+    });
+    return sessions.map((session) => this.toSummary(session, currentSessionId));
+  }
+
+  async getSessionById(sessionId: string) {
+    if (!sessionId) {
+      throw new Error("Session ID is required");
+    }
+    return await this.sessionDAO.findByIdWithUser(sessionId);
+  }
+
+  async revokeSession(sessionId: string, reason = "logout"): Promise<void> {
+    if (!sessionId) {
+      throw new Error("Session ID is required");
+    }
+    await this.sessionDAO.revoke(sessionId, reason);
+    logger.info("Session revoked", { sessionId, reason });
+  }
+
+  // Revokes every session of the user, optionally keeping the current one
+  async revokeAllSessions(
+    userId: string,
+    reason = "logout_all",
+    exceptSessionId?: string
+  ): Promise<number> {
+    if (!userId) {
+      throw new Error("User ID is required");
+    }
+    const { count } = await this.sessionDAO.revokeAllForUser(
+      userId,
+      reason,
+      exceptSessionId
+    );
+    return count;
+  }
+
+  private async issueTokens(
+    user: User,
+    session: Session,
+    refreshToken: string
+  ): Promise<SessionTokens> {
+    const organizationId =
+      user.organizationId ||
+      (user.role === "owner"
+        ? (await this.organizationDAO.findByOwnerId(user.id))?.id
+        : undefined);
+    const ttlMinutes = this.getAccessTokenTtlMinutes();
+
+    const accessToken = jwt.sign(
+      {
+        userId: user.id,
+        username: user.username,
+        role: user.role,
+        organizationId,
+        sessionId: session.id,
+      },
+      process.env.JWT_SECRET || "your-secret-key-here",
+      { expiresIn: ttlMinutes * 60 }
+    );
+
+    return {
+      sessionId: session.id,
+      organizationId,
+      accessToken,
+      refreshToken,
+      expiresIn: `${ttlMinutes}m`,
+      refreshTokenExpiresAt: session.expiresAt,
+    };
+  }
+
+  private toSummary(
+    session: Session & { user: { id: string; username: string } },
+    currentSessionId?: string
+  ): SessionSummary {
+    return {
+      id: session.id,
+      userId: session.user.id,
+      username: session.user.username,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId,
+    };
+  }
+
+  private generateRefreshToken(): string {
+    return crypto.randomBytes(48).toString("hex");
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+  }
+
+  private getAccessTokenTtlMinutes(): number {
+    const ttl = parseInt(process.env.ACCESS_TOKEN_TTL_MINUTES || "", 10);
+    return isNaN(ttl) || ttl <= 0 ? 15 : ttl;
+  }
+
+  private getRefreshTokenTtlMs(): number {
+    const days = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || "", 10);
+    return (isNaN(days) || days <= 0 ? 30 : days) * 24 * 60 * 60 * 1000;
+  }
+}
@@ -0,0 +1,458 @@
+import { Customer, EntryType, Prisma, Vehicle } from "@prisma/client";
+import moment from "moment-timezone";
+import { CustomerDAO } from "../dao/customerDAO";
+import { MaterialRateDAO } from "../dao/materialRateDAO";
+import { TruckEntryDAO } from "../dao/truckEntryDAO";
+import { VehicleDAO } from "../dao/vehicleDAO";
+import { CsvUtil } from "../utils/csv";
+import { logger } from "../utils/logger";
+import { ValidationUtil } from "../utils/validation";
+import { AuditLogService } from "./auditLogService";
+import { TruckEntryService } from "./truckEntryService";
+
+// Column titles written by ReportService.generateEntriesCsv
+const IMPORT_COLUMNS = {
+  date: "Date",
+  vehicleNumber: "Vehicle Number",
+  materialType: "Material Type",
+  grossWeight: "Gross Weight (Tons)",
+  tareWeight: "Tare Weight (Tons)",
+  netWeight: "Net Weight (Tons)",
+  quantity: "Quantity",
+  unitType: "Unit",
+  rate: "Rate per Unit",
+  totalAmount: "Total Amount",
+  customerName: "Customer Name",
+  remarks: "Remarks",
+};
+
+type ImportColumn = keyof typeof IMPORT_COLUMNS;
+
+const REQUIRED_COLUMNS: ImportColumn[] = [
+  "date",
+  "vehicleNumber",
+  "rate",
+  "customerName",
+];
+
+const DATE_FORMATS = ["DD/MM/YYYY", "YYYY-MM-DD"];
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export interface ImportRowResult {
+  row: number; // Line in the file; the header is row 1
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  entry?: {
+    entryDate: string;
+    truckNumber: string;
+    truckName: string;
+    materialType: string | null;
+    customerId: string | null;
+    vehicleId: string | null;
+    units: number;
+    unitType: string;
+    ratePerUnit: number;
+    totalAmount: number;
+  };
+}
+
+export interface TruckEntryImportResult {
+  dryRun: boolean;
+  entryType: EntryType;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  importedCount: number;
+  rows: ImportRowResult[];
+}
+
+export class TruckEntryImportService {
+  private customerDAO: CustomerDAO;
+  private materialRateDAO: MaterialRateDAO;
+  private truckEntryDAO: TruckEntryDAO;
+  private vehicleDAO: VehicleDAO;
+  private truckEntryService: TruckEntryService;
+  private auditLogService: AuditLogService;
+
+  constructor() {
+    this.customerDAO = new CustomerDAO();
+    this.materialRateDAO = new MaterialRateDAO();
+    this.truckEntryDAO = new TruckEntryDAO();
+    this.vehicleDAO = new VehicleDAO();
+    this.truckEntryService = new TruckEntryService();
+    this.auditLogService = new AuditLogService();
+  }
+
+  /**
+   * Validate every row of an exported entries CSV. Outside a dry run the
+   * valid rows are saved together; invalid rows are never saved.
+   */
+  async importEntries(
+    organizationId: string,
+    userId: string,
+    csv: string,
+    options: {
+      entryType: EntryType;
+      dryRun: boolean;
+      priceOverrideReason?: string; // Applies to every row with its own rate
+      canOverridePrice?: boolean;
+    }
+  ): Promise<TruckEntryImportResult> {
+    logger.info("Importing truck entries from CSV", {
+      organizationId,
+      entryType: options.entryType,
+      dryRun: options.dryRun,
+    });
+
+    const [header, ...dataRows] = CsvUtil.parse(csv);
+    if (!header || dataRows.length === 0) {
+      throw new Error("CSV file has no data rows");
+    }
+    if (dataRows.length > MAX_IMPORT_ROWS) {
+      throw new Error(
+        `CSV file has ${dataRows.length} rows; import at most ${MAX_IMPORT_ROWS} at a time`
+      );
+    }
+    const columns = this.mapColumns(header);
+    const today = moment.utc(
+      await this.truckEntryService.getEntryDate(organizationId)
+    );
+
+    const materialRates =
+      await this.materialRateDAO.getActiveMaterialsByOrganization(
+        organizationId
+      );
+    const customers = new Map<string, Customer | null>();
+    const vehicles = new Map<string, Vehicle | null>();
+
+    const rows: ImportRowResult[] = [];
+    const prepared = new Map<number, Prisma.TruckEntryCreateInput>();
+
+    for (let i = 0; i < dataRows.length; i++) {
+      const cells = dataRows[i];
+      const value = (column: ImportColumn) =>
+        columns[column] !== undefined
+          ? (cells[columns[column]!] || "").trim()
+          : "";
+      const result: ImportRowResult = {
+        row: i + 2,
+        isValid: false,
+        errors: [],
+        warnings: [],
+      };
+      rows.push(result);
+
+      const entryDate = moment.utc(value("date"), DATE_FORMATS, true);
+      if (!entryDate.isValid()) {
+        result.errors.push("Date must be in DD/MM/YYYY format");
+      } else if (entryDate.isAfter(today, "day")) {
+        result.errors.push("Date cannot be in the future");
+      }
+
+      const truckNumber = ValidationUtil.normalizeTruckNumber(
+        value("vehicleNumber")
+      );
+      const materialType = value("materialType") || undefined;
+      // Oversized values would otherwise fail the whole import on save
+      if (truckNumber.length > 20) {
+        result.errors.push("Vehicle number must not exceed 20 characters");
+      }
+      if (materialType && materialType.length > 50) {
+        result.errors.push("Material type must not exceed 50 characters");
+      }
+      const grossWeight = this.parseNumber(
+        value("grossWeight"),
+        IMPORT_COLUMNS.grossWeight,
+        result
+      );
+      const tareWeight = this.parseNumber(
+        value("tareWeight"),
+        IMPORT_COLUMNS.tareWeight,
+        result
+      );
+      const quantity = this.parseNumber(
+        value("quantity"),
+        IMPORT_COLUMNS.quantity,
+        result
+      );
+      const ratePerUnit = this.parseNumber(
+        value("rate"),
+        IMPORT_COLUMNS.rate,
+        result
+      );
+      const totalAmount = this.parseNumber(
+        value("totalAmount"),
+        IMPORT_COLUMNS.totalAmount,
+        result
+      );
+
+      const weighed = grossWeight !== undefined || tareWeight !== undefined;
+      if (weighed && (grossWeight === undefined || tareWeight === undefined)) {
+        result.errors.push("Both gross and tare weights are required");
+      }
+
+      // Names that match a customer link the entry, anything else is kept
+      // as the truck name like a walk-in sale
+      const customerName = value("customerName");
+      let customer: Customer | null = null;
+      if (!customerName) {
+        result.errors.push("Customer name is required");
+      } else {
+        const key = customerName.toLowerCase();
+        if (!customers.has(key)) {
+          customers.set(
+            key,
+            await this.customerDAO.findByOrganizationAndName(
+              organizationId,
+              customerName
+            )
+          );
+        }
+        customer = customers.get(key) || null;
+        if (customer && !customer.isActive) {
+          result.warnings.push(
+            `Customer "${customer.name}" is inactive; the name is kept without linking`
+          );
+          customer = null;
+        } else if (!customer && options.entryType === "Sales") {
+          result.warnings.push(
+            `No customer named "${customerName}"; the name is kept as the truck name`
+          );
+        }
+      }
+
+      let vehicle: Vehicle | null = null;
+      if (truckNumber) {
+        if (!vehicles.has(truckNumber)) {
+          vehicles.set(
+            truckNumber,
+            await this.vehicleDAO.findByRegistrationNumber(
+              organizationId,
+              truckNumber
+            )
+          );
+        }
+        vehicle = vehicles.get(truckNumber) || null;
+        if (vehicle && !vehicle.isActive) vehicle = null;
+      }
+
+      let createData: Prisma.TruckEntryCreateInput | null = null;
+      if (result.errors.length === 0) {
+        try {
+          ({ createData } = await this.truckEntryService.prepareTruckEntry({
+            organizationId,
+            userId,
+            truckNumber,
+            truckName: (customer?.name || customerName).substring(0, 50),
+            entryType: options.entryType,
+            materialType,
+            customerId: customer?.id,
+            vehicleId: vehicle?.id,
+            units: weighed ? undefined : quantity,
+            grossWeight,
+            tareWeight,
+            ratePerUnit,
+            priceOverrideReason: options.priceOverrideReason,
+            canOverridePrice: options.canOverridePrice,
+            paymentMode: "credit",
+            entryDate: entryDate.toDate(),
+            entryTime: entryDate.toDate(),
+            notes: value("remarks") || undefined,
+          }));
+        } catch (error: any) {
+          result.errors.push(error.message);
+        }
+      }
+
+      // Same checks as the single entry validation endpoint
+      const billedUnits = createData ? Number(createData.units) : quantity;
+      const validation = this.truckEntryService.validateEntryInput(
+        {
+          truckNumber,
+          entryType: options.entryType,
+          materialType,
+          units: billedUnits,
+          ratePerUnit,
+        },
+        materialRates
+      );
+      result.errors = Array.from(
+        new Set([...result.errors, ...validation.errors])
+      );
+      result.warnings.push(...validation.warnings);
+
+      if (createData && result.errors.length === 0) {
+        const billedTotal = Number(createData.totalAmount);
+        const unitType = createData.unitType || "Load";
+
+        if (weighed && quantity !== undefined) {
+          if (Math.abs(quantity - billedUnits!) > 0.01) {
+            result.warnings.push(
+              `Quantity ${quantity} was recalculated from the weights as ${billedUnits}`
+            );
+          }
+        }
+        if (value("unitType") && value("unitType") !== unitType) {
+          result.warnings.push(
+            `Unit "${value(
+              "unitType"
+            )}" differs from the billing unit ${unitType}`
+          );
+        }
+        if (
+          totalAmount !== undefined &&
+          Math.abs(totalAmount - billedTotal) > 1
+        ) {
+          result.warnings.push(
+            `Total amount ${totalAmount} differs from the calculated ${billedTotal}`
+          );
+        }
+
+        result.isValid = true;
+        result.entry = {
+          entryDate: entryDate.format("YYYY-MM-DD"),
+          truckNumber,
+          truckName: createData.truckName,
+          materialType: materialType || null,
+          customerId: customer?.id || null,
+          vehicleId: vehicle?.id || null,
+          units: billedUnits!,
+          unitType,
+          ratePerUnit: Number(createData.ratePerUnit),
+          totalAmount: billedTotal,
+        };
+        prepared.set(result.row, createData);
+      }
+    }
+
+    await this.flagDuplicates(organizationId, options.entryType, rows);
+
+    const validRows = rows.filter((row) => row.isValid);
+    let importedCount = 0;
+    if (!options.dryRun && validRows.length > 0) {
+      const created = await this.truckEntryDAO.createMany(
+        validRows.map((row) => prepared.get(row.row)!)
+      );
+      importedCount = created.length;
+
+      for (const entry of created) {
+        await this.auditLogService.record("TruckEntry", "create", null, entry);
+      }
+    }
+
+    logger.info("Truck entry CSV import completed", {
+      organizationId,
+      dryRun: options.dryRun,
+      totalRows: rows.length,
+      validRows: validRows.length,
+      importedCount,
+    });
+
+    return {
+      dryRun: options.dryRun,
+      entryType: options.entryType,
+      totalRows: rows.length,
+      validRows: validRows.length,
+      invalidRows: rows.length - validRows.length,
+      importedCount,
+      rows,
+    };
+  }
+
+  private mapColumns(header: string[]): Partial<Record<ImportColumn, number>> {
+    const positions = new Map(
+      header.map((title, index) => [title.trim().toLowerCase(), index])
+    );
+    const columns: Partial<Record<ImportColumn, number>> = {};
+
+    for (const [column, title] of Object.entries(IMPORT_COLUMNS)) {
+      const index = positions.get(title.toLowerCase());
+      if (index !== undefined) {
+        columns[column as ImportColumn] = index;
+      }
+    }
+
+    const missing = REQUIRED_COLUMNS.filter(
+      (column) => columns[column] === undefined
+    ).map((column) => IMPORT_COLUMNS[column]);
+    if (missing.length > 0) {
+      throw new Error(`CSV is missing required columns: ${missing.join(", ")}`);
+    }
+    if (columns.quantity === undefined && columns.grossWeight === undefined) {
+      throw new Error(
+        `CSV needs a ${IMPORT_COLUMNS.quantity} or ${IMPORT_COLUMNS.grossWeight} column`
+      );
+    }
+
+    return columns;
+  }
+
+  private parseNumber(
+    value: string,
+    label: string,
+    result: ImportRowResult
+  ): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const parsed = Number(value.replace(/[₹,\s]/g, ""));
+    if (isNaN(parsed)) {
+      result.errors.push(`${label} must be a valid number`);
+      return undefined;
+    }
+    return parsed;
+  }
+
+  // Rows repeating each other, or matching an entry already saved for the
+  // same vehicle, date and quantity, were probably keyed in twice
+  private async flagDuplicates(
+    organizationId: string,
+    entryType: EntryType,
+    rows: ImportRowResult[]
+  ): Promise<void> {
+    const validRows = rows.filter((row) => row.isValid);
+    if (validRows.length === 0) {
+      return;
+    }
+
+    const dates = validRows.map((row) => row.entry!.entryDate).sort();
+    const existing = await this.truckEntryDAO.findForDuplicateCheck(
+      organizationId,
+      entryType,
+      new Date(dates[0]),
+      new Date(dates[dates.length - 1])
+    );
+    const key = (truckNumber: string, date: string, units: number) =>
+      `${truckNumber}|${date}|${units.toFixed(2)}`;
+    const saved = new Set(
+      existing.map((entry) =>
+        key(
+          entry.truckNumber,
+          moment.utc(entry.entryDate).format("YYYY-MM-DD"),
+          Number(entry.units)
+        )
+      )
+    );
+
+    const seen = new Map<string, number>();
+    for (const row of validRows) {
+      const rowKey = key(
+        row.entry!.truckNumber,
+        row.entry!.entryDate,
+        row.entry!.units
+      );
+      if (saved.has(rowKey)) {
+        row.warnings.push(
+          "An entry for this vehicle with the same date and quantity already exists"
+        );
+      }
+      if (seen.has(rowKey)) {
+        row.warnings.push(`Possible duplicate of row ${seen.get(rowKey)}`);
+      } else {
+        seen.set(rowKey, row.row);
+      }
+    }
+  }
+}
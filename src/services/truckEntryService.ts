@@ -1,40 +1,220 @@
-import { Prisma, TruckEntry } from "@prisma/client";
+import { MaterialRate, PaymentMode, Prisma, TruckEntry } from "@prisma/client";
+import moment from "moment-timezone";
+import { EntryTypeMaterialDAO } from "../dao/entryTypeMaterialDAO";
 import { MaterialRateDAO } from "../dao/materialRateDAO";
+import { OrganizationDAO } from "../dao/organizationDAO";
 import { TruckEntryDAO } from "../dao/truckEntryDAO";
 import { TruckEntryFilters } from "../types";
+import { GstUtil } from "../utils/gst";
+import { logger } from "../utils/logger";
+import { UnitConversionUtil } from "../utils/unitConversion";
 import { ValidationUtil } from "../utils/validation";
+import { AuditLogService } from "./auditLogService";
+import { ChallanService } from "./challanService";
+import { GstService } from "./gstService";
+import { MaterialRateOverrideService } from "./materialRateOverrideService";
+import { PAYMENT_MODES, PaymentService } from "./paymentService";
+
+export interface TruckEntryInput {
+  organizationId: string;
+  userId: string;
+  truckNumber: string;
+  truckName: string;
+  entryType: "Sales" | "RawStone";
+  materialType?: string; // Legacy field
+  entryTypeMaterialId?: string; // New bridge table field
+  customerId?: string;
+  vehicleId?: string;
+  units?: number;
+  grossWeight?: number;
+  tareWeight?: number;
+  ratePerUnit?: number; // Defaults to the material's rate on the entry date
+  priceOverrideReason?: string; // Required when ratePerUnit overrides the rate
+  canOverridePrice?: boolean;
+  paymentMode?: string;
+  entryDate: Date;
+  entryTime: Date;
+  notes?: string;
+  truckImage?: string;
+}
+
+export interface PreparedTruckEntry {
+  createData: Prisma.TruckEntryCreateInput;
+  isSale: boolean;
+  paymentMode: PaymentMode;
+  invoiceTotal: number;
+}
+
+export interface CreatedTruckEntry {
+  truckEntry: TruckEntry;
+  warnings: string[];
+}
+
+export interface EntryPrice {
+  ratePerUnit: number;
+  standardRate: number | null;
+  priceOverrideReason: string | null;
+  needsReview: boolean;
+}
+
+export interface TruckEntryValidation {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+}
 
 export class TruckEntryService {
   private truckEntryDAO: TruckEntryDAO;
   private materialRateDAO: MaterialRateDAO;
+  private entryTypeMaterialDAO: EntryTypeMaterialDAO;
+  private organizationDAO: OrganizationDAO;
+  private paymentService: PaymentService;
+  private challanService: ChallanService;
+  private gstService: GstService;
+  private materialRateOverrideService: MaterialRateOverrideService;
+  private auditLogService: AuditLogService;
 
   constructor() {
     this.truckEntryDAO = new TruckEntryDAO();
     this.materialRateDAO = new MaterialRateDAO();
+    this.entryTypeMaterialDAO = new EntryTypeMaterialDAO();
+    this.organizationDAO = new OrganizationDAO();
+    this.paymentService = new PaymentService();
+    this.challanService = new ChallanService();
+    this.gstService = new GstService();
+    this.materialRateOverrideService = new MaterialRateOverrideService();
+    this.auditLogService = new AuditLogService();
   }
 
-  async createTruckEntry(data: {
-    organizationId: string;
-    userId: string;
-    truckNumber: string;
-    truckName: string;
-    entryType: "Sales" | "RawStone";
-    materialType?: string; // Legacy field
-    entryTypeMaterialId?: string; // New bridge table field
-    units: number;
-    ratePerUnit: number;
-    entryDate: Date;
-    entryTime: Date;
-    notes?: string;
-    truckImage?: string;
-  }): Promise<TruckEntry> {
+  async createTruckEntry(data: TruckEntryInput): Promise<CreatedTruckEntry> {
+    const { createData, isSale, paymentMode, invoiceTotal } =
+      await this.prepareTruckEntry(data);
+    const warnings: string[] = [];
+
+    const entry = await this.truckEntryDAO.create(createData);
+
+    if (isSale) {
+      // The challan can still be numbered on first download if this fails
+      try {
+        await this.challanService.ensureChallanNumber(entry);
+      } catch (error: any) {
+        logger.warn("Could not assign challan number on entry creation", {
+          entryId: entry.id,
+          error: error.message,
+        });
+      }
+    }
+
+    // The entry stays unpaid if this fails; the payment can be recorded
+    // against it afterwards
+    if (isSale && data.customerId && paymentMode !== "credit") {
+      try {
+        await this.paymentService.settleEntry(
+          {
+            id: entry.id,
+            organizationId: entry.organizationId,
+            customerId: data.customerId,
+            truckNumber: entry.truckNumber,
+            entryDate: entry.entryDate,
+            totalAmount: invoiceTotal,
+          },
+          paymentMode,
+          data.userId
+        );
+      } catch (error: any) {
+        logger.error("Could not settle entry on creation", {
+          entryId: entry.id,
+          paymentMode,
+          error: error.message,
+        });
+        warnings.push(
+          `The entry was saved but its ${paymentMode} payment was not recorded; record the payment against it separately`
+        );
+      }
+    }
+
+    const created = isSale
+      ? (await this.truckEntryDAO.findById(entry.id)) || entry
+      : entry;
+    await this.auditLogService.record("TruckEntry", "create", null, created);
+    return { truckEntry: created, warnings };
+  }
+
+  // The calendar date in the organization's timezone, stored as midnight UTC
+  // like every date-only column, so an entry made just after midnight on
+  // 1 April is dated 1 April
+  async getEntryDate(
+    organizationId: string,
+    at: Date = new Date()
+  ): Promise<Date> {
+    const organization = await this.organizationDAO.findById(organizationId);
+    const timezone = organization?.timezone || "Asia/Kolkata";
+    return moment.utc(moment(at).tz(timezone).format("YYYY-MM-DD")).toDate();
+  }
+
+  // Works out the billed quantity, amount, tax and payment state of a new
+  // entry without saving it
+  async prepareTruckEntry(data: TruckEntryInput): Promise<PreparedTruckEntry> {
     // Validate required fields
     if (!data.truckNumber || !data.truckName || !data.entryType) {
       throw new Error("Missing required fields");
     }
 
+    // Only sales are collected from customers; loads default to credit
+    const isSale = data.entryType === "Sales";
+    const paymentMode = (data.paymentMode || "credit") as PaymentMode;
+    if (isSale && !PAYMENT_MODES.includes(paymentMode)) {
+      throw new Error(
+        `Payment mode must be one of: ${PAYMENT_MODES.join(", ")}`
+      );
+    }
+    if (isSale && paymentMode === "advance" && !data.customerId) {
+      throw new Error("Advance payment requires a customer");
+    }
+
+    const materialRate = await this.resolveMaterialRate(
+      data.organizationId,
+      data.entryTypeMaterialId,
+      data.materialType
+    );
+    const quantity = this.calculateBilledQuantity(
+      materialRate,
+      data.units,
+      data.grossWeight,
+      data.tareWeight
+    );
+
+    // Priced at the time the entry was made; imported entries only have a date
+    const price = await this.resolvePrice(
+      materialRate,
+      data.entryTime,
+      { customerId: data.customerId, vehicleId: data.vehicleId },
+      data.ratePerUnit,
+      data.priceOverrideReason,
+      data.canOverridePrice
+    );
+    const { ratePerUnit } = price;
+
     // Calculate total amount - ensure both values are numbers
-    const totalAmount = Number(data.units) * Number(data.ratePerUnit);
+    const totalAmount = quantity.units * ratePerUnit;
+
+    // GST applies to sales only, at the rate set on the material
+    const gstRate = isSale && materialRate ? Number(materialRate.gstRate) : 0;
+    const tax = isSale
+      ? await this.gstService.calculateEntryTax(
+          data.organizationId,
+          data.customerId,
+          totalAmount,
+          gstRate
+        )
+      : null;
+    const invoiceTotal = GstUtil.getInvoiceTotal({ totalAmount, ...tax });
+
+    // Cash/UPI sales without a customer are settled on the entry itself
+    const paidOnEntry =
+      isSale &&
+      !data.customerId &&
+      (paymentMode === "cash" || paymentMode === "upi");
 
     const createData: Prisma.TruckEntryCreateInput = {
       organization: { connect: { id: data.organizationId } },
@@ -43,9 +223,25 @@ export class TruckEntryService {
       truckName: data.truckName,
       entryType: data.entryType as any,
       materialType: data.materialType, // Keep for backward compatibility
-      units: Number(data.units),
-      ratePerUnit: Number(data.ratePerUnit),
+      units: quantity.units,
+      unitType: quantity.unitType,
+      grossWeight: quantity.grossWeight,
+      tareWeight: quantity.tareWeight,
+      netWeight: quantity.netWeight,
+      ratePerUnit,
+      standardRate: price.standardRate,
+      priceOverrideReason: price.priceOverrideReason,
+      needsReview: price.needsReview,
       totalAmount,
+      paymentMode: isSale ? paymentMode : null,
+      paymentStatus: isSale ? (paidOnEntry ? "paid" : "unpaid") : null,
+      amountPaid: paidOnEntry ? invoiceTotal : 0,
+      hsnCode: isSale ? materialRate?.hsnCode : null,
+      gstRate,
+      placeOfSupply: tax?.placeOfSupply,
+      cgstAmount: tax?.cgstAmount ?? 0,
+      sgstAmount: tax?.sgstAmount ?? 0,
+      igstAmount: tax?.igstAmount ?? 0,
       entryDate: data.entryDate,
       entryTime: data.entryTime,
       notes: data.notes,
@@ -60,7 +256,89 @@ export class TruckEntryService {
       };
     }
 
-    return await this.truckEntryDAO.create(createData);
+    if (data.customerId) {
+      createData.customer = { connect: { id: data.customerId } };
+    }
+
+    if (data.vehicleId) {
+      createData.vehicle = { connect: { id: data.vehicleId } };
+    }
+
+    return { createData, isSale, paymentMode, invoiceTotal };
+  }
+
+  // Checks shared by the entry validation endpoint and bulk imports; errors
+  // block the entry, warnings only flag it for review
+  validateEntryInput(
+    data: {
+      truckNumber?: string;
+      entryType?: string;
+      materialType?: string;
+      units?: any;
+      ratePerUnit?: any;
+    },
+    materialRates: MaterialRate[] | null
+  ): TruckEntryValidation {
+    const { truckNumber, entryType, materialType, units, ratePerUnit } = data;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    // Validate required fields
+    if (!truckNumber) {
+      errors.push("Truck number is required");
+    }
+    if (!entryType) {
+      errors.push("Entry type is required");
+    }
+    if (!units || Number(units) <= 0) {
+      errors.push("Units must be greater than 0");
+    }
+    // Without a rate the entry is priced at the material's rate
+    if (
+      ratePerUnit !== undefined &&
+      ratePerUnit !== null &&
+      ratePerUnit !== "" &&
+      !(Number(ratePerUnit) > 0)
+    ) {
+      errors.push("Rate per unit must be greater than 0");
+    }
+
+    // Validate truck number format
+    if (truckNumber && !/^[A-Z]{2}\d{2}[A-Z]{2}\d{4}$/.test(truckNumber)) {
+      warnings.push(
+        "Truck number format should be: XX00XX0000 (e.g., KA01AB1234)"
+      );
+    }
+
+    // Validate material type for sales entries
+    if (entryType === "Sales" && !materialType) {
+      errors.push("Material type is required for sales entries");
+    }
+
+    // Check if material rate exists for the given material type; rate checks
+    // are skipped when the organization's rates could not be loaded
+    if (materialRates && materialType && entryType === "Sales") {
+      const standardRate = materialRates.find(
+        (rate) => rate.materialType === materialType
+      );
+
+      if (!standardRate) {
+        warnings.push(
+          `No standard rate found for material type: ${materialType}`
+        );
+      } else if (
+        ratePerUnit !== undefined &&
+        ratePerUnit !== null &&
+        ratePerUnit !== "" &&
+        this.isOverride(Number(ratePerUnit), Number(standardRate.ratePerUnit))
+      ) {
+        warnings.push(
+          `Rate differs from the standard rate of ₹${standardRate.ratePerUnit}; unless agreed with the customer or vehicle, overriding it takes the override price permission and a reason`
+        );
+      }
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
   }
 
   async getTruckEntryById(id: string): Promise<TruckEntry | null> {
@@ -91,6 +369,8 @@ export class TruckEntryService {
       startDate: filters.startDate,
       endDate: filters.endDate,
       userId: filters.userId,
+      paymentStatus: filters.paymentStatus,
+      needsReview: filters.needsReview,
     };
 
     const { entries, total } = await this.truckEntryDAO.findByOrganizationId(
@@ -109,7 +389,12 @@ export class TruckEntryService {
     };
   }
 
-  async updateTruckEntry(id: string, data: any): Promise<TruckEntry> {
+  // canOverridePrice comes from the caller's permissions, never the body
+  async updateTruckEntry(
+    id: string,
+    data: any,
+    canOverridePrice = false
+  ): Promise<TruckEntry> {
     if (!id) {
       throw new Error("Truck entry ID is required");
     }
@@ -119,6 +404,9 @@ export class TruckEntryService {
     if (!existingEntry) {
       throw new Error("Truck entry not found");
     }
+    if (existingEntry.status === "deleted") {
+      throw new Error("Deleted truck entries must be restored before editing");
+    }
 
     const updateData: Prisma.TruckEntryUpdateInput = {};
 
@@ -130,8 +418,6 @@ export class TruckEntryService {
     if (data.materialType !== undefined)
       updateData.materialType = data.materialType;
     if (data.units !== undefined) updateData.units = data.units;
-    if (data.ratePerUnit !== undefined)
-      updateData.ratePerUnit = data.ratePerUnit;
     if (data.entryDate !== undefined)
       updateData.entryDate = new Date(data.entryDate);
     if (data.entryTime !== undefined) {
@@ -142,33 +428,329 @@ export class TruckEntryService {
     }
     if (data.notes !== undefined) updateData.notes = data.notes;
     if (data.truckImage !== undefined) updateData.truckImage = data.truckImage;
+    if (data.customerId !== undefined) {
+      updateData.customer = data.customerId
+        ? { connect: { id: data.customerId } }
+        : { disconnect: true };
+    }
+    if (data.vehicleId !== undefined) {
+      updateData.vehicle = data.vehicleId
+        ? { connect: { id: data.vehicleId } }
+        : { disconnect: true };
+    }
+
+    // Weighed entries are re-billed when their weights or material change
+    const weightsChanged =
+      data.grossWeight !== undefined || data.tareWeight !== undefined;
+    const rebill =
+      weightsChanged ||
+      (existingEntry.netWeight !== null &&
+        data.units === undefined &&
+        data.materialType !== undefined);
+
+    if (rebill) {
+      const materialRate = await this.resolveMaterialRate(
+        existingEntry.organizationId,
+        existingEntry.entryTypeMaterialId || undefined,
+        data.materialType ?? existingEntry.materialType ?? undefined
+      );
+      const quantity = this.calculateBilledQuantity(
+        materialRate,
+        undefined,
+        data.grossWeight ?? this.toOptionalNumber(existingEntry.grossWeight),
+        data.tareWeight ?? this.toOptionalNumber(existingEntry.tareWeight)
+      );
+      data.units = quantity.units;
+      updateData.units = quantity.units;
+      updateData.unitType = quantity.unitType;
+      updateData.grossWeight = quantity.grossWeight;
+      updateData.tareWeight = quantity.tareWeight;
+      updateData.netWeight = quantity.netWeight;
+    } else if (data.units !== undefined && existingEntry.netWeight !== null) {
+      // A manually entered quantity replaces the weighbridge readings
+      updateData.grossWeight = null;
+      updateData.tareWeight = null;
+      updateData.netWeight = null;
+    }
+
+    if (data.ratePerUnit !== undefined) {
+      const rate = Number(data.ratePerUnit);
+      if (
+        data.ratePerUnit === null ||
+        data.ratePerUnit === "" ||
+        !isFinite(rate) ||
+        rate < 0
+      ) {
+        throw new Error("Rate per unit must be a number of at least 0");
+      }
+    }
+
+    // A new rate, material, customer or vehicle is priced again at the
+    // entry's date
+    const customerId =
+      data.customerId !== undefined
+        ? data.customerId || null
+        : existingEntry.customerId;
+    const vehicleId =
+      data.vehicleId !== undefined
+        ? data.vehicleId || null
+        : existingEntry.vehicleId;
+    const rateChanged =
+      data.ratePerUnit !== undefined &&
+      Number(data.ratePerUnit) !== Number(existingEntry.ratePerUnit);
+    const materialChanged =
+      data.materialType !== undefined &&
+      data.materialType !== existingEntry.materialType;
+    const partiesChanged =
+      customerId !== existingEntry.customerId ||
+      vehicleId !== existingEntry.vehicleId;
+    const isSale = existingEntry.entryType === "Sales";
+    let gstRate = Number(existingEntry.gstRate);
+    if (rateChanged || materialChanged || partiesChanged) {
+      const materialRate = await this.resolveMaterialRate(
+        existingEntry.organizationId,
+        existingEntry.entryTypeMaterialId || undefined,
+        data.materialType ?? existingEntry.materialType ?? undefined
+      );
+
+      // A new material brings its own GST rate and HSN code to the invoice
+      if (materialChanged && isSale) {
+        gstRate = materialRate ? Number(materialRate.gstRate) : 0;
+        updateData.gstRate = gstRate;
+        updateData.hsnCode = materialRate?.hsnCode ?? null;
+      }
+
+      const price = await this.resolvePrice(
+        materialRate,
+        existingEntry.entryDate,
+        { customerId, vehicleId },
+        rateChanged ? Number(data.ratePerUnit) : undefined,
+        data.priceOverrideReason,
+        canOverridePrice,
+        Number(existingEntry.ratePerUnit)
+      );
+      data.ratePerUnit = price.ratePerUnit;
+      updateData.ratePerUnit = price.ratePerUnit;
+      updateData.standardRate = price.standardRate;
+      updateData.priceOverrideReason = price.priceOverrideReason;
+      updateData.needsReview = price.needsReview;
+      updateData.reviewedAt = null;
+      updateData.reviewedBy = { disconnect: true };
+    }
 
     // Recalculate total amount if units or rate changed
-    if (data.units !== undefined || data.ratePerUnit !== undefined) {
+    const amountChanged =
+      data.units !== undefined || data.ratePerUnit !== undefined;
+    let totalAmount = Number(existingEntry.totalAmount);
+    if (amountChanged) {
       const units = data.units !== undefined ? data.units : existingEntry.units;
       const ratePerUnit =
         data.ratePerUnit !== undefined
           ? data.ratePerUnit
           : existingEntry.ratePerUnit;
-      updateData.totalAmount = Number(units) * Number(ratePerUnit);
+      totalAmount = Number(units) * Number(ratePerUnit);
+      updateData.totalAmount = totalAmount;
+    }
+
+    // Tax follows the amount, the material's rate and, through the place of
+    // supply, the customer
+    if (
+      isSale &&
+      (amountChanged || materialChanged || data.customerId !== undefined)
+    ) {
+      const tax = await this.gstService.calculateEntryTax(
+        existingEntry.organizationId,
+        data.customerId !== undefined
+          ? data.customerId
+          : existingEntry.customerId,
+        totalAmount,
+        gstRate
+      );
+      updateData.placeOfSupply = tax.placeOfSupply;
+      updateData.cgstAmount = tax.cgstAmount;
+      updateData.sgstAmount = tax.sgstAmount;
+      updateData.igstAmount = tax.igstAmount;
+
+      // Keep the payment status in line with the new amount
+      if (existingEntry.paymentStatus) {
+        const invoiceTotal = GstUtil.getInvoiceTotal({ totalAmount, ...tax });
+        const settledOnEntry =
+          !existingEntry.customerId &&
+          (existingEntry.paymentMode === "cash" ||
+            existingEntry.paymentMode === "upi");
+        const amountPaid = settledOnEntry
+          ? invoiceTotal
+          : Number(existingEntry.amountPaid);
+        if (settledOnEntry) updateData.amountPaid = amountPaid;
+        updateData.paymentStatus =
+          amountPaid >= invoiceTotal
+            ? "paid"
+            : amountPaid > 0
+            ? "partial"
+            : "unpaid";
+      }
     }
 
-    return await this.truckEntryDAO.update(id, updateData);
+    const updated = await this.truckEntryDAO.update(id, updateData);
+    await this.auditLogService.record(
+      "TruckEntry",
+      "update",
+      existingEntry,
+      updated
+    );
+    return updated;
   }
 
-  async deleteTruckEntry(id: string): Promise<TruckEntry> {
+  // Clears the review flag of an entry whose price was overridden
+  async reviewTruckEntry(
+    id: string,
+    reviewedById: string
+  ): Promise<TruckEntry> {
+    const existingEntry = await this.truckEntryDAO.findById(id);
+    if (!existingEntry) {
+      throw new Error("Truck entry not found");
+    }
+    if (!existingEntry.needsReview) {
+      throw new Error("Truck entry is not waiting for review");
+    }
+
+    const reviewed = await this.truckEntryDAO.update(id, {
+      needsReview: false,
+      reviewedAt: new Date(),
+      reviewedBy: { connect: { id: reviewedById } },
+    });
+    await this.auditLogService.record(
+      "TruckEntry",
+      "update",
+      existingEntry,
+      reviewed
+    );
+    return reviewed;
+  }
+
+  async deleteTruckEntry(
+    id: string,
+    deletedById: string,
+    reason: string
+  ): Promise<TruckEntry> {
     if (!id) {
       throw new Error("Truck entry ID is required");
     }
 
+    const deleteReason = (reason || "").trim();
+    if (!deleteReason) {
+      throw new Error("A reason is required to delete a truck entry");
+    }
+    if (deleteReason.length > 255) {
+      throw new Error("Delete reason must not exceed 255 characters");
+    }
+
     // Check if truck entry exists
     const existingEntry = await this.truckEntryDAO.findById(id);
     if (!existingEntry) {
       throw new Error("Truck entry not found");
     }
+    if (existingEntry.status === "deleted") {
+      throw new Error("Truck entry is already deleted");
+    }
+
+    // Customer payments allocated to the entry would be stranded in the trash
+    if (existingEntry.customerId && Number(existingEntry.amountPaid) > 0) {
+      throw new Error(
+        "Truck entry has customer payments allocated to it and cannot be deleted"
+      );
+    }
 
     // Soft delete by setting status to 'deleted'
-    return await this.truckEntryDAO.delete(id);
+    const deleted = await this.truckEntryDAO.softDelete(
+      id,
+      deletedById,
+      deleteReason
+    );
+    await this.auditLogService.record(
+      "TruckEntry",
+      "delete",
+      existingEntry,
+      deleted
+    );
+    return deleted;
+  }
+
+  async restoreTruckEntry(id: string): Promise<TruckEntry> {
+    const existingEntry = await this.truckEntryDAO.findById(id);
+    if (!existingEntry) {
+      throw new Error("Truck entry not found");
+    }
+    if (existingEntry.status !== "deleted") {
+      throw new Error("Only deleted truck entries can be restored");
+    }
+
+    const restored = await this.truckEntryDAO.restore(id);
+    await this.auditLogService.record(
+      "TruckEntry",
+      "restore",
+      existingEntry,
+      restored
+    );
+    return restored;
+  }
+
+  async getDeletedTruckEntries(
+    organizationId: string,
+    filters: { page?: number; limit?: number }
+  ): Promise<{
+    entries: TruckEntry[];
+    pagination: {
+      total: number;
+      page: number;
+      limit: number;
+      totalPages: number;
+    };
+  }> {
+    const validatedParams = ValidationUtil.validatePaginationParams(filters);
+    const { entries, total } = await this.truckEntryDAO.findDeleted(
+      organizationId,
+      { page: validatedParams.page!, limit: validatedParams.limit! }
+    );
+
+    return {
+      entries,
+      pagination: {
+        total,
+        page: validatedParams.page!,
+        limit: validatedParams.limit!,
+        totalPages: Math.ceil(total / validatedParams.limit!),
+      },
+    };
+  }
+
+  // Permanently removes entries that have been in the trash longer than
+  // TRUCK_ENTRY_TRASH_RETENTION_DAYS
+  async purgeDeletedTruckEntries(organizationId: string): Promise<{
+    purged: number;
+    retentionDays: number;
+    deletedBefore: Date;
+  }> {
+    const parsed = parseInt(
+      process.env.TRUCK_ENTRY_TRASH_RETENTION_DAYS || "",
+      10
+    );
+    const retentionDays = isNaN(parsed) || parsed < 0 ? 30 : parsed;
+    const deletedBefore = new Date(
+      Date.now() - retentionDays * 24 * 60 * 60 * 1000
+    );
+
+    const purged = await this.truckEntryDAO.purgeDeleted(
+      organizationId,
+      deletedBefore
+    );
+    logger.info("Purged deleted truck entries", {
+      organizationId,
+      purged,
+      retentionDays,
+    });
+
+    return { purged, retentionDays, deletedBefore };
   }
 
   async getTruckEntriesSummary(
@@ -234,4 +816,162 @@ export class TruckEntryService {
 
     return entries;
   }
+
+  private async resolveMaterialRate(
+    organizationId: string,
+    entryTypeMaterialId?: string,
+    materialType?: string
+  ): Promise<MaterialRate | null> {
+    if (entryTypeMaterialId) {
+      const entryTypeMaterial = (await this.entryTypeMaterialDAO.findById(
+        entryTypeMaterialId
+      )) as any;
+      if (entryTypeMaterial?.materialRate) {
+        return entryTypeMaterial.materialRate;
+      }
+    }
+    if (materialType) {
+      return await this.materialRateDAO.findByOrganizationAndMaterial(
+        organizationId,
+        materialType
+      );
+    }
+    return null;
+  }
+
+  // Entries are priced at the rate agreed with their vehicle or customer,
+  // else the material's rate on the entry date. Any other rate is an
+  // override: it takes the override price permission and a reason, and
+  // flags the entry for review. Entries without a priced material, like raw
+  // stone bought by the load, need a rate of their own: the one given, else
+  // the rate the entry already has
+  private async resolvePrice(
+    materialRate: MaterialRate | null,
+    entryDate: Date,
+    parties: { customerId?: string | null; vehicleId?: string | null },
+    requestedRate?: number,
+    reason?: string,
+    canOverridePrice?: boolean,
+    currentRate?: number
+  ): Promise<EntryPrice> {
+    const standardRate = materialRate
+      ? await this.materialRateOverrideService.getRateForEntry(
+          materialRate,
+          entryDate,
+          parties
+        )
+      : null;
+
+    if (!standardRate || standardRate <= 0) {
+      const ratePerUnit = Number(requestedRate ?? currentRate);
+      if (isNaN(ratePerUnit) || ratePerUnit <= 0) {
+        throw new Error("Rate per unit must be greater than 0");
+      }
+      return {
+        ratePerUnit,
+        standardRate: null,
+        priceOverrideReason: null,
+        needsReview: false,
+      };
+    }
+
+    if (
+      requestedRate === undefined ||
+      !this.isOverride(Number(requestedRate), standardRate)
+    ) {
+      return {
+        ratePerUnit: standardRate,
+        standardRate,
+        priceOverrideReason: null,
+        needsReview: false,
+      };
+    }
+
+    if (!canOverridePrice) {
+      throw new Error(
+        `You do not have permission to override the standard rate of ₹${standardRate}`
+      );
+    }
+    const ratePerUnit = Number(requestedRate);
+    if (isNaN(ratePerUnit) || ratePerUnit <= 0) {
+      throw new Error("Rate per unit must be greater than 0");
+    }
+    const overrideReason = (reason || "").trim();
+    if (!overrideReason) {
+      throw new Error("A reason is required to override the standard rate");
+    }
+    if (overrideReason.length > 255) {
+      throw new Error("Price override reason must not exceed 255 characters");
+    }
+
+    return {
+      ratePerUnit,
+      standardRate,
+      priceOverrideReason: overrideReason,
+      needsReview: true,
+    };
+  }
+
+  // Rates are kept to the paisa, so smaller differences are not overrides
+  private isOverride(rate: number, standardRate: number): boolean {
+    return Math.abs(rate - standardRate) >= 0.005;
+  }
+
+  private toOptionalNumber(value: Prisma.Decimal | null): number | undefined {
+    return value === null ? undefined : Number(value);
+  }
+
+  // Converts weighbridge readings into the material's billing unit; entries
+  // without weights keep the quantity that was entered
+  private calculateBilledQuantity(
+    materialRate: MaterialRate | null,
+    units?: number,
+    grossWeight?: number,
+    tareWeight?: number
+  ): {
+    units: number;
+    unitType: string;
+    grossWeight: number | null;
+    tareWeight: number | null;
+    netWeight: number | null;
+  } {
+    const unitType = materialRate?.unitType || "Load";
+
+    if (grossWeight === undefined && tareWeight === undefined) {
+      if (units === undefined || isNaN(Number(units)) || Number(units) <= 0) {
+        throw new Error("Units or gross and tare weights are required");
+      }
+      return {
+        units: Number(units),
+        unitType,
+        grossWeight: null,
+        tareWeight: null,
+        netWeight: null,
+      };
+    }
+
+    if (grossWeight === undefined || tareWeight === undefined) {
+      throw new Error("Both gross and tare weights are required");
+    }
+    if (!materialRate) {
+      throw new Error("A material rate is required to bill by weight");
+    }
+
+    const netWeight = UnitConversionUtil.calculateNetWeight(
+      Number(grossWeight),
+      Number(tareWeight)
+    );
+
+    return {
+      units: UnitConversionUtil.convertWeight(
+        netWeight,
+        materialRate.unitType,
+        materialRate.density !== null ? Number(materialRate.density) : null
+      ),
+      unitType,
+      grossWeight: Number(grossWeight),
+      tareWeight: Number(tareWeight),
+      netWeight,
+    };
+  }
 }
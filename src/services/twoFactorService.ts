@@ -0,0 +1,246 @@
+import { User } from "@prisma/client";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { OrganizationDAO } from "../dao/organizationDAO";
+import { UserDAO } from "../dao/userDAO";
+import { logger } from "../utils/logger";
+import { TotpUtil } from "../utils/totp";
+import { AuditLogService } from "./auditLogService";
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CHALLENGE_PURPOSE = "two_factor";
+
+export interface TwoFactorEnrolment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface TwoFactorLoginChallenge {
+  twoFactorRequired: true;
+  // The user has not enrolled yet but their organization requires it
+  setupRequired: boolean;
+  challengeToken: string;
+  expiresIn: string;
+}
+
+export interface TwoFactorChallenge {
+  userId: string;
+  setupRequired: boolean;
+}
+
+export class TwoFactorService {
+  private userDAO: UserDAO;
+  private organizationDAO: OrganizationDAO;
+  private auditLogService: AuditLogService;
+
+  constructor() {
+    this.userDAO = new UserDAO();
+    this.organizationDAO = new OrganizationDAO();
+    this.auditLogService = new AuditLogService();
+  }
+
+  isEnabled(user: User): boolean {
+    return !!user.totpEnabledAt && !!user.totpSecret;
+  }
+
+  async isRequiredFor(user: User): Promise<boolean> {
+    const organization = user.organizationId
+      ? await this.organizationDAO.findById(user.organizationId)
+      : user.role === "owner"
+      ? await this.organizationDAO.findByOwnerId(user.id)
+      : null;
+    return !!organization?.requireTwoFactor;
+  }
+
+  // Users with two-factor sign-in, or whose organization requires it, get a
+  // short-lived challenge instead of tokens after their password checks out
+  async createLoginChallenge(
+    user: User
+  ): Promise<TwoFactorLoginChallenge | null> {
+    const enabled = this.isEnabled(user);
+    if (!enabled && !(await this.isRequiredFor(user))) {
+      return null;
+    }
+
+    const ttlMinutes = this.getChallengeTtlMinutes();
+    const challengeToken = jwt.sign(
+      {
+        userId: user.id,
+        purpose: CHALLENGE_PURPOSE,
+        setupRequired: !enabled,
+      },
+      process.env.JWT_SECRET || "your-secret-key-here",
+      { expiresIn: ttlMinutes * 60 }
+    );
+
+    return {
+      twoFactorRequired: true,
+      setupRequired: !enabled,
+      challengeToken,
+      expiresIn: `${ttlMinutes}m`,
+    };
+  }
+
+  verifyChallenge(challengeToken: string): TwoFactorChallenge {
+    try {
+      const decoded = jwt.verify(
+        challengeToken,
+        process.env.JWT_SECRET || "your-secret-key-here"
+      ) as any;
+      if (decoded?.purpose !== CHALLENGE_PURPOSE || !decoded.userId) {
+        throw new Error("Wrong token purpose");
+      }
+      return {
+        userId: decoded.userId,
+        setupRequired: !!decoded.setupRequired,
+      };
+    } catch (error) {
+      throw new Error("Invalid or expired two-factor challenge");
+    }
+  }
+
+  // Generates a new secret for the user to add to their authenticator app.
+  // It only takes effect once confirmed with enable
+  async startEnrolment(user: User): Promise<TwoFactorEnrolment> {
+    if (this.isEnabled(user)) {
+      throw new Error("Two-factor authentication is already enabled");
+    }
+
+    const secret = TotpUtil.generateSecret();
+    await this.userDAO.update(user.id, { totpSecret: secret });
+
+    logger.info("Two-factor enrolment started", { userId: user.id });
+    return {
+      secret,
+      otpauthUrl: TotpUtil.buildOtpauthUrl(
+        secret,
+        user.username,
+        this.getIssuer()
+      ),
+    };
+  }
+
+  // Confirms enrolment with a code from the app and returns recovery codes,
+  // which are only shown this once. Returns null when the code does not match
+  async enable(user: User, code: string): Promise<string[] | null> {
+    if (this.isEnabled(user)) {
+      throw new Error("Two-factor authentication is already enabled");
+    }
+    if (!user.totpSecret) {
+      throw new Error("Start two-factor setup before enabling it");
+    }
+
+    const step = TotpUtil.verify(user.totpSecret, code);
+    if (step === null) {
+      return null;
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    const updated = await this.userDAO.update(user.id, {
+      totpEnabledAt: new Date(),
+      totpLastStep: step,
+      totpRecoveryCodes: recoveryCodes.map((recoveryCode) =>
+        this.hashRecoveryCode(recoveryCode)
+      ),
+    });
+    await this.auditLogService.record("User", "update", user, updated);
+
+    logger.info("Two-factor authentication enabled", { userId: user.id });
+    return recoveryCodes;
+  }
+
+  async disable(user: User, code: string): Promise<void> {
+    if (!this.isEnabled(user)) {
+      throw new Error("Two-factor authentication is not enabled");
+    }
+    if (await this.isRequiredFor(user)) {
+      throw new Error("Your organization requires two-factor authentication");
+    }
+    if (!(await this.verifyCode(user, code))) {
+      throw new Error("Invalid two-factor code");
+    }
+
+    const updated = await this.userDAO.update(user.id, {
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastStep: null,
+      totpRecoveryCodes: [],
+    });
+    await this.auditLogService.record("User", "update", user, updated);
+
+    logger.info("Two-factor authentication disabled", { userId: user.id });
+  }
+
+  async regenerateRecoveryCodes(user: User, code: string): Promise<string[]> {
+    if (!this.isEnabled(user)) {
+      throw new Error("Two-factor authentication is not enabled");
+    }
+    if (!(await this.verifyCode(user, code))) {
+      throw new Error("Invalid two-factor code");
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.userDAO.update(user.id, {
+      totpRecoveryCodes: recoveryCodes.map((recoveryCode) =>
+        this.hashRecoveryCode(recoveryCode)
+      ),
+    });
+
+    logger.info("Two-factor recovery codes regenerated", { userId: user.id });
+    return recoveryCodes;
+  }
+
+  // Accepts a current code from the authenticator app, each at most once,
+  // or one of the unused recovery codes
+  async verifyCode(user: User, code: string): Promise<boolean> {
+    if (!this.isEnabled(user) || !code) {
+      return false;
+    }
+
+    const step = TotpUtil.verify(user.totpSecret!, code);
+    if (step !== null) {
+      return await this.userDAO.acceptTotpStep(user.id, step);
+    }
+
+    const used = await this.userDAO.consumeRecoveryCode(
+      user.id,
+      this.hashRecoveryCode(code)
+    );
+    if (used) {
+      logger.warn("Two-factor recovery code used", {
+        userId: user.id,
+        remaining: user.totpRecoveryCodes.length - 1,
+      });
+    }
+    return used;
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = Array.from(
+        crypto.randomBytes(10),
+        (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]
+      ).join("");
+      return `${code.substring(0, 5)}-${code.substring(5)}`;
+    });
+  }
+
+  // Recovery codes are compared without dashes, spaces or case
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+    return crypto.createHash("sha256").update(normalized).digest("hex");
+  }
+
+  private getIssuer(): string {
+    return process.env.TOTP_ISSUER || "Crusher";
+  }
+
+  private getChallengeTtlMinutes(): number {
+    const minutes = parseInt(
+      process.env.TWO_FACTOR_CHALLENGE_TTL_MINUTES || "",
+      10
+    );
+    return isNaN(minutes) || minutes <= 0 ? 5 : minutes;
+  }
+}
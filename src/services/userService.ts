@@ -1,23 +1,29 @@
-import { Prisma, User } from "@prisma/client";
+import { Prisma, User, UserRole } from "@prisma/client";
 import { OrganizationDAO } from "../dao/organizationDAO";
+import { SessionDAO } from "../dao/sessionDAO";
 import { UserDAO } from "../dao/userDAO";
 import { UserFilters } from "../types";
 import { logger } from "../utils/logger";
 import { ValidationUtil } from "../utils/validation";
+import { AuditLogService } from "./auditLogService";
 
 export class UserService {
   private userDAO: UserDAO;
   private organizationDAO: OrganizationDAO;
+  private sessionDAO: SessionDAO;
+  private auditLogService: AuditLogService;
 
   constructor() {
     this.userDAO = new UserDAO();
     this.organizationDAO = new OrganizationDAO();
+    this.sessionDAO = new SessionDAO();
+    this.auditLogService = new AuditLogService();
   }
 
   async createUser(data: {
     username: string;
     passwordHash: string;
-    role?: "owner" | "user";
+    role?: UserRole;
     organizationId?: string;
     profileImage?: string;
   }): Promise<User> {
@@ -62,6 +68,7 @@ export class UserService {
     try {
       const user = await this.userDAO.create(createData);
       logger.info("User created successfully", { userId: user.id });
+      await this.auditLogService.record("User", "create", null, user);
       return user;
     } catch (error: any) {
       logger.error("Error creating user", { error: error.message });
@@ -131,7 +138,7 @@ export class UserService {
     id: string,
     data: {
       username?: string;
-      role?: "owner" | "user";
+      role?: UserRole;
       isActive?: boolean;
       profileImage?: string;
       organizationId?: string;
@@ -199,7 +206,9 @@ export class UserService {
       }
     }
 
-    return await this.userDAO.update(id, updateData);
+    const user = await this.userDAO.update(id, updateData);
+    await this.auditLogService.record("User", "update", existingUser, user);
+    return user;
   }
 
   async updateUserPassword(id: string, passwordHash: string): Promise<User> {
@@ -217,7 +226,9 @@ export class UserService {
       throw new Error("User not found");
     }
 
-    return await this.userDAO.update(id, { passwordHash });
+    const user = await this.userDAO.update(id, { passwordHash });
+    await this.auditLogService.record("User", "update", existingUser, user);
+    return user;
   }
 
   async updateLastLogin(id: string): Promise<User> {
@@ -238,7 +249,13 @@ export class UserService {
       throw new Error("User not found");
     }
 
-    return await this.userDAO.deactivateUser(id);
+    const user = await this.userDAO.deactivateUser(id);
+
+    // Sign the user out everywhere so existing tokens stop working at once
+    await this.sessionDAO.revokeAllForUser(id, "user_deactivated");
+
+    await this.auditLogService.record("User", "update", existingUser, user);
+    return user;
   }
 
   async activateUser(id: string): Promise<User> {
@@ -252,7 +269,30 @@ export class UserService {
       throw new Error("User not found");
     }
 
-    return await this.userDAO.activateUser(id);
+    const user = await this.userDAO.activateUser(id);
+    await this.auditLogService.record("User", "update", existingUser, user);
+    return user;
+  }
+
+  async unlockUser(id: string): Promise<User> {
+    if (!id) {
+      throw new Error("User ID is required");
+    }
+
+    // Check if user exists
+    const existingUser = await this.userDAO.findById(id);
+    if (!existingUser) {
+      throw new Error("User not found");
+    }
+
+    logger.info("Unlocking user", {
+      userId: id,
+      loginFailures: existingUser.loginFailures,
+      lockedUntil: existingUser.lockedUntil,
+    });
+    const user = await this.userDAO.clearLoginFailures(id);
+    await this.auditLogService.record("User", "update", existingUser, user);
+    return user;
   }
 
   async deleteUser(id: string): Promise<User> {
@@ -267,29 +307,29 @@ export class UserService {
     }
 
     // Note: Consider soft delete vs hard delete based on business requirements
-    return await this.userDAO.delete(id);
+    const user = await this.userDAO.delete(id);
+    await this.auditLogService.record("User", "delete", existingUser, null);
+    return user;
   }
 
+  // Users can always access themselves; access to other members of the
+  // organization is decided by the caller's permissions
   async validateUserAccess(
     userId: string,
     targetUserId: string,
-    organizationId?: string
+    organizationId: string | undefined,
+    canAccessOthers: boolean
   ): Promise<boolean> {
-    const user = await this.userDAO.findById(userId);
-    if (!user) {
-      return false;
-    }
-
     // Users can access their own data
     if (userId === targetUserId) {
       return true;
     }
 
-    // Organization owners can access their organization's users
-    if (organizationId) {
-      return user.role === "owner" && user.organizationId === organizationId;
+    if (!organizationId || !canAccessOthers) {
+      return false;
     }
 
-    return false;
+    const target = await this.userDAO.findById(targetUserId);
+    return target?.organizationId === organizationId;
   }
 }
@@ -0,0 +1,229 @@
+import { Prisma, TruckEntry, Vehicle } from "@prisma/client";
+import { VehicleDAO } from "../dao/vehicleDAO";
+import { VehicleFilters } from "../types";
+import { logger } from "../utils/logger";
+import { ValidationUtil } from "../utils/validation";
+
+export interface VehicleInput {
+  registrationNumber?: string;
+  vehicleClass?: string;
+  defaultDriver?: string;
+  ownerName?: string;
+  loadCapacity?: number | null;
+  notes?: string;
+}
+
+export interface VehicleTripHistory {
+  vehicle: Vehicle;
+  summary: { totalTrips: number; totalUnits: number; totalAmount: number };
+  trips: TruckEntry[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}
+
+export class VehicleService {
+  private vehicleDAO: VehicleDAO;
+
+  constructor() {
+    this.vehicleDAO = new VehicleDAO();
+  }
+
+  async createVehicle(
+    organizationId: string,
+    data: VehicleInput
+  ): Promise<Vehicle> {
+    logger.info("Creating vehicle in service layer", {
+      organizationId,
+      registrationNumber: data.registrationNumber,
+    });
+
+    const registrationNumber = ValidationUtil.normalizeTruckNumber(
+      data.registrationNumber || ""
+    );
+    if (!ValidationUtil.validateTruckNumber(registrationNumber)) {
+      throw new Error("Invalid registration number format");
+    }
+
+    const existing = await this.vehicleDAO.findByRegistrationNumber(
+      organizationId,
+      registrationNumber
+    );
+    if (existing) {
+      throw new Error("A vehicle with this registration number already exists");
+    }
+
+    this.validateLoadCapacity(data.loadCapacity);
+
+    return await this.vehicleDAO.create({
+      organization: { connect: { id: organizationId } },
+      registrationNumber,
+      vehicleClass: data.vehicleClass,
+      defaultDriver: data.defaultDriver,
+      ownerName: data.ownerName,
+      loadCapacity: data.loadCapacity ?? undefined,
+      notes: data.notes,
+    });
+  }
+
+  async getVehicleById(id: string): Promise<Vehicle | null> {
+    if (!id) {
+      throw new Error("Vehicle ID is required");
+    }
+    return await this.vehicleDAO.findById(id);
+  }
+
+  async findByTruckNumber(
+    organizationId: string,
+    truckNumber: string
+  ): Promise<Vehicle | null> {
+    return await this.vehicleDAO.findByRegistrationNumber(
+      organizationId,
+      ValidationUtil.normalizeTruckNumber(truckNumber)
+    );
+  }
+
+  async getVehiclesByOrganization(
+    organizationId: string,
+    filters: VehicleFilters
+  ): Promise<{
+    vehicles: Vehicle[];
+    pagination: {
+      total: number;
+      page: number;
+      limit: number;
+      totalPages: number;
+    };
+  }> {
+    const validatedParams = ValidationUtil.validatePaginationParams(filters);
+    const { vehicles, total } = await this.vehicleDAO.findByOrganizationId(
+      organizationId,
+      {
+        ...validatedParams,
+        sortBy: filters.sortBy || "registrationNumber",
+        search: filters.search,
+        isActive: filters.isActive,
+      }
+    );
+
+    return {
+      vehicles,
+      pagination: {
+        total,
+        page: validatedParams.page!,
+        limit: validatedParams.limit!,
+        totalPages: Math.ceil(total / validatedParams.limit!),
+      },
+    };
+  }
+
+  async searchVehicles(
+    organizationId: string,
+    query: string,
+    limit: number = 10
+  ): Promise<Vehicle[]> {
+    const normalized = ValidationUtil.normalizeTruckNumber(query);
+    if (!normalized) {
+      return [];
+    }
+    return await this.vehicleDAO.search(
+      organizationId,
+      normalized,
+      Math.min(Math.max(limit, 1), 50)
+    );
+  }
+
+  async updateVehicle(id: string, data: VehicleInput): Promise<Vehicle> {
+    const existing = await this.vehicleDAO.findById(id);
+    if (!existing) {
+      throw new Error("Vehicle not found");
+    }
+
+    const updateData: Prisma.VehicleUpdateInput = {};
+
+    if (data.registrationNumber !== undefined) {
+      const registrationNumber = ValidationUtil.normalizeTruckNumber(
+        data.registrationNumber
+      );
+      if (!ValidationUtil.validateTruckNumber(registrationNumber)) {
+        throw new Error("Invalid registration number format");
+      }
+      const duplicate = await this.vehicleDAO.findByRegistrationNumber(
+        existing.organizationId,
+        registrationNumber
+      );
+      if (duplicate && duplicate.id !== id) {
+        throw new Error(
+          "A vehicle with this registration number already exists"
+        );
+      }
+      updateData.registrationNumber = registrationNumber;
+    }
+
+    this.validateLoadCapacity(data.loadCapacity);
+
+    if (data.vehicleClass !== undefined)
+      updateData.vehicleClass = data.vehicleClass;
+    if (data.defaultDriver !== undefined)
+      updateData.defaultDriver = data.defaultDriver;
+    if (data.ownerName !== undefined) updateData.ownerName = data.ownerName;
+    if (data.loadCapacity !== undefined)
+      updateData.loadCapacity = data.loadCapacity;
+    if (data.notes !== undefined) updateData.notes = data.notes;
+
+    return await this.vehicleDAO.update(id, updateData);
+  }
+
+  async deactivateVehicle(id: string): Promise<Vehicle> {
+    const existing = await this.vehicleDAO.findById(id);
+    if (!existing) {
+      throw new Error("Vehicle not found");
+    }
+    return await this.vehicleDAO.update(id, { isActive: false });
+  }
+
+  async getTripHistory(
+    vehicle: Vehicle,
+    filters: { page?: number; limit?: number; startDate?: Date; endDate?: Date }
+  ): Promise<VehicleTripHistory> {
+    const { page, limit } = ValidationUtil.validatePaginationParams(filters);
+
+    const [{ entries, total }, summary] = await Promise.all([
+      this.vehicleDAO.findTrips(vehicle.id, {
+        page: page!,
+        limit: limit!,
+        startDate: filters.startDate,
+        endDate: filters.endDate,
+      }),
+      this.vehicleDAO.getTripStats(
+        vehicle.id,
+        filters.startDate,
+        filters.endDate
+      ),
+    ]);
+
+    return {
+      vehicle,
+      summary,
+      trips: entries,
+      pagination: {
+        total,
+        page: page!,
+        limit: limit!,
+        totalPages: Math.ceil(total / limit!),
+      },
+    };
+  }
+
+  private validateLoadCapacity(loadCapacity?: number | null): void {
+    if (loadCapacity === undefined || loadCapacity === null) {
+      return;
+    }
+    if (isNaN(Number(loadCapacity)) || Number(loadCapacity) <= 0) {
+      throw new Error("Load capacity must be a positive number");
+    }
+  }
+}
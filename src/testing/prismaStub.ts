@@ -0,0 +1,16 @@
+import prismaClient = require("@prisma/client");
+
+// Stands in for PrismaClient in tests that stub out their services, so the
+// code under test can load the database module without a query engine or a
+// database behind it. Import it before anything that imports utils/database
+class StubPrismaClient {
+  async $connect(): Promise<void> {}
+
+  async $disconnect(): Promise<void> {}
+
+  $extends(): this {
+    return this;
+  }
+}
+
+Object.assign(prismaClient, { PrismaClient: StubPrismaClient });
@@ -1,10 +1,21 @@
-import { User } from "@prisma/client";
+import {
+  EntryStatus,
+  EntryType,
+  PaymentMode,
+  PaymentStatus,
+  Prisma,
+  User,
+  UserRole,
+} from "@prisma/client";
 import { Request } from "express";
 
 // Extend Express Request to include user information
 export interface AuthenticatedRequest extends Request {
   user?: User;
   organizationId?: string;
+  sessionId?: string;
+  apiKeyId?: string; // Set instead of sessionId for API key requests
+  permissions?: string[];
 }
 
 // API Response structure
@@ -36,6 +47,26 @@ export interface UserFilters extends PaginationParams {
   organizationId?: string;
 }
 
+export interface LoginAttemptFilters extends PaginationParams {
+  organizationId?: string;
+  username?: string;
+  userId?: string;
+  ipAddress?: string;
+  success?: boolean;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface AuditLogFilters extends PaginationParams {
+  organizationId?: string;
+  entityType?: string;
+  entityId?: string;
+  userId?: string;
+  action?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
 export interface TruckEntryFilters extends PaginationParams {
   entryType?: string;
   materialType?: string;
@@ -43,6 +74,8 @@ export interface TruckEntryFilters extends PaginationParams {
   startDate?: string;
   endDate?: string;
   userId?: string;
+  paymentStatus?: string;
+  needsReview?: boolean;
 }
 
 export interface MaterialRateFilters extends PaginationParams {
@@ -58,6 +91,16 @@ export interface ExpenseFilters extends PaginationParams {
   isActive?: boolean;
 }
 
+export interface CustomerFilters extends PaginationParams {
+  search?: string;
+  isActive?: boolean;
+}
+
+export interface VehicleFilters extends PaginationParams {
+  search?: string;
+  isActive?: boolean;
+}
+
 // Material type with rate information
 export interface MaterialTypeWithRate {
   materialType: string;
@@ -74,3 +117,198 @@ export interface MaterialTypesWithRatesResponse {
   totalCount: number;
   organizationId: string;
 }
+
+// Public response shapes. Controllers return these through src/serializers
+// rather than Prisma models, so credentials never reach a response
+export interface UserSummary {
+  id: string;
+  username: string;
+}
+
+export interface OrganizationSummary {
+  id: string;
+  name: string;
+}
+
+export interface PublicUser {
+  id: string;
+  organizationId: string | null;
+  username: string;
+  role: UserRole;
+  roleId: string | null;
+  isActive: boolean;
+  lastLogin: Date | null;
+  lockedUntil: Date | null;
+  twoFactorEnabled: boolean;
+  profileImage: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  organization?: OrganizationSummary | null;
+}
+
+export interface OrganizationMember extends UserSummary {
+  role: UserRole;
+  isActive: boolean;
+  lastLogin: Date | null;
+}
+
+export interface PublicOrganization {
+  id: string;
+  name: string;
+  ownerId: string | null;
+  gstin: string | null;
+  stateCode: string | null;
+  address: string | null;
+  requireTwoFactor: boolean;
+  timezone: string;
+  createdAt: Date;
+  updatedAt: Date;
+  owner?: UserSummary | null;
+  users?: OrganizationMember[];
+  _count?: Record<string, number>;
+}
+
+export interface PublicMaterialRate {
+  id: string;
+  organizationId: string;
+  materialType: string;
+  ratePerUnit: Prisma.Decimal;
+  unitType: string;
+  density: Prisma.Decimal | null;
+  hsnCode: string | null;
+  gstRate: Prisma.Decimal;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PublicMaterialRateVersion {
+  id: string;
+  materialRateId: string;
+  ratePerUnit: Prisma.Decimal;
+  effectiveFrom: Date;
+  effectiveTo: Date | null;
+  changedById: string | null;
+  createdAt: Date;
+  changedBy?: UserSummary;
+}
+
+export interface PublicScheduledRateChange {
+  id: string;
+  materialRateId: string;
+  materialType?: string;
+  ratePerUnit: Prisma.Decimal;
+  effectiveAt: Date;
+  // effectiveAt in the organization's timezone, as it was entered
+  effectiveAtLocal: string;
+  timezone: string;
+  status: string;
+  error: string | null;
+  appliedAt: Date | null;
+  cancelledAt: Date | null;
+  createdById: string;
+  createdAt: Date;
+  createdBy?: UserSummary;
+  cancelledBy?: UserSummary | null;
+}
+
+export interface PublicMaterialRateOverride {
+  id: string;
+  materialRateId: string;
+  customerId: string | null;
+  vehicleId: string | null;
+  ratePerUnit: Prisma.Decimal;
+  createdById: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  customer?: { id: string; name: string };
+  vehicle?: { id: string; registrationNumber: string };
+  createdBy?: UserSummary;
+}
+
+export interface PublicTruckEntry {
+  id: string;
+  organizationId: string;
+  userId: string;
+  truckNumber: string;
+  truckName: string;
+  entryType: EntryType;
+  materialType: string | null;
+  entryTypeMaterialId: string | null;
+  customerId: string | null;
+  vehicleId: string | null;
+  units: Prisma.Decimal;
+  unitType: string;
+  grossWeight: Prisma.Decimal | null;
+  tareWeight: Prisma.Decimal | null;
+  netWeight: Prisma.Decimal | null;
+  ratePerUnit: Prisma.Decimal;
+  standardRate: Prisma.Decimal | null;
+  priceOverrideReason: string | null;
+  needsReview: boolean;
+  reviewedAt: Date | null;
+  reviewedById: string | null;
+  totalAmount: Prisma.Decimal;
+  paymentMode: PaymentMode | null;
+  paymentStatus: PaymentStatus | null;
+  amountPaid: Prisma.Decimal;
+  hsnCode: string | null;
+  gstRate: Prisma.Decimal;
+  placeOfSupply: string | null;
+  cgstAmount: Prisma.Decimal;
+  sgstAmount: Prisma.Decimal;
+  igstAmount: Prisma.Decimal;
+  challanNumber: string | null;
+  challanIssuedAt: Date | null;
+  invoiceNumber: string | null;
+  invoiceIssuedAt: Date | null;
+  truckImage: string | null;
+  entryDate: Date;
+  entryTime: Date;
+  status: EntryStatus;
+  deletedAt: Date | null;
+  deletedById: string | null;
+  deleteReason: string | null;
+  notes: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  organization?: OrganizationSummary;
+  user?: UserSummary;
+  deletedBy?: UserSummary | null;
+  reviewedBy?: UserSummary | null;
+  customer?: unknown;
+  vehicle?: unknown;
+  entryTypeMaterial?: unknown;
+  paymentAllocations?: unknown;
+}
+
+export interface PublicExpense {
+  id: string;
+  organizationId: string;
+  userId: string;
+  expensesName: string;
+  amount: Prisma.Decimal;
+  others: string | null;
+  notes: string | null;
+  date: Date;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  organization?: OrganizationSummary;
+  user?: UserSummary;
+}
+
+export interface PublicApiKey {
+  id: string;
+  organizationId: string;
+  name: string;
+  keyPrefix: string;
+  permissions: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdById: string;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy?: UserSummary;
+}
@@ -0,0 +1,62 @@
+export class CsvUtil {
+  /**
+   * Parse CSV text into rows of fields. Handles quoted fields with embedded
+   * commas, quotes and line breaks, CRLF line endings and a leading BOM.
+   * Blank lines are skipped.
+   */
+  static parse(content: string): string[][] {
+    const text = (content || "").replace(/^\uFEFF/, "");
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    const endRow = () => {
+      row.push(field);
+      if (row.some((value) => value.trim() !== "")) {
+        rows.push(row);
+      }
+      row = [];
+      field = "";
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === ",") {
+        row.push(field);
+        field = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && text[i + 1] === "\n") {
+          i++;
+        }
+        endRow();
+      } else {
+        field += char;
+      }
+    }
+
+    if (inQuotes) {
+      throw new Error("CSV has an unterminated quoted field");
+    }
+    if (field !== "" || row.length > 0) {
+      endRow();
+    }
+
+    return rows;
+  }
+}
@@ -1,4 +1,5 @@
 import { PrismaClient } from "@prisma/client";
+import { TenantContext } from "./tenantContext";
 
 // Singleton Prisma Client with enhanced connection management
 class DatabaseConnection {
@@ -132,8 +133,30 @@ class DatabaseConnection {
   }
 }
 
-// Enhanced Prisma instance with additional error handling
-export const prisma = DatabaseConnection.getInstance();
+// Enhanced Prisma instance with additional error handling. Queries made
+// inside a tenant context are limited to that organization's records
+export const prisma = DatabaseConnection.getInstance().$extends({
+  name: "tenantScope",
+  query: {
+    $allModels: {
+      async $allOperations({ model, operation, args, query }) {
+        const organizationId = TenantContext.getOrganizationId();
+        if (!organizationId) {
+          return query(args);
+        }
+        return query(
+          TenantContext.scopeQuery(model, operation, args, organizationId)
+        );
+      },
+    },
+  },
+});
+
+// Client handed to interactive transactions of the scoped instance
+export type TransactionClient = Omit<
+  typeof prisma,
+  "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends"
+>;
 
 // Add a wrapper for database operations with automatic retry
 export class DatabaseWrapper {
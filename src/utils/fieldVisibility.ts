@@ -0,0 +1,66 @@
+import { AuthenticatedRequest } from "../types";
+import { PermissionUtil } from "./permissions";
+
+// Money fields of truck entries, material rates and dashboard figures. They
+// are removed from responses for members without financials:view
+export const FINANCIAL_FIELDS = new Set([
+  "ratePerUnit",
+  "standardRate",
+  "currentRate",
+  "totalAmount",
+  "calculatedTotal",
+  "amountPaid",
+  "cgstAmount",
+  "sgstAmount",
+  "igstAmount",
+  "invoiceTotal",
+  "revenue",
+  "totalRevenue",
+  "totalExpenses",
+  "netProfit",
+  "netWorth",
+  "expenses",
+]);
+
+export class FieldVisibilityUtil {
+  static canViewFinancials(req: AuthenticatedRequest): boolean {
+    return PermissionUtil.has(req, "financials:view");
+  }
+
+  // Applies the caller's visibility policy to a response payload. Only the
+  // serialized copy changes, so services keep pricing with the real values
+  static apply<T>(req: AuthenticatedRequest, data: T): T {
+    return FieldVisibilityUtil.canViewFinancials(req)
+      ? data
+      : (FieldVisibilityUtil.strip(data) as T);
+  }
+
+  private static strip(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => FieldVisibilityUtil.strip(item));
+    }
+    // Dates and Decimals are values, not records to walk into
+    if (!FieldVisibilityUtil.isPlainObject(value)) {
+      return value;
+    }
+
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([field]) => !FINANCIAL_FIELDS.has(field))
+        .map(([field, fieldValue]) => [
+          field,
+          FieldVisibilityUtil.strip(fieldValue),
+        ])
+    );
+  }
+
+  private static isPlainObject(
+    value: unknown
+  ): value is Record<string, unknown> {
+    if (value === null || typeof value !== "object") {
+      return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+  }
+}
@@ -0,0 +1,126 @@
+// GST state codes as used in GSTINs and place-of-supply fields
+export const GST_STATE_CODES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+};
+
+export const GST_RATES = [0, 0.1, 0.25, 1.5, 3, 5, 12, 18, 28];
+
+export interface GstBreakup {
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+export class GstUtil {
+  static isValidStateCode(stateCode: string): boolean {
+    return GST_STATE_CODES[stateCode] !== undefined;
+  }
+
+  static getStateName(stateCode?: string | null): string {
+    return (stateCode && GST_STATE_CODES[stateCode]) || "";
+  }
+
+  // The first two digits of a GSTIN are the registrant's state code
+  static stateCodeFromGstin(gstin?: string | null): string | null {
+    const stateCode = (gstin || "").substring(0, 2);
+    return this.isValidStateCode(stateCode) ? stateCode : null;
+  }
+
+  static isValidRate(rate: number): boolean {
+    return GST_RATES.includes(rate);
+  }
+
+  static isValidHsnCode(hsnCode: string): boolean {
+    return /^[0-9]{4}([0-9]{2}){0,2}$/.test(hsnCode || "");
+  }
+
+  /**
+   * Split the tax on a taxable value: supplies within the supplier's state
+   * attract CGST and SGST at half the rate each, other states attract IGST.
+   */
+  static calculateTax(
+    taxableAmount: number,
+    rate: number,
+    interState: boolean
+  ): GstBreakup {
+    if (!rate || rate <= 0) {
+      return { cgstAmount: 0, sgstAmount: 0, igstAmount: 0 };
+    }
+
+    if (interState) {
+      return {
+        cgstAmount: 0,
+        sgstAmount: 0,
+        igstAmount: this.round((taxableAmount * rate) / 100),
+      };
+    }
+
+    const halfTax = this.round((taxableAmount * rate) / 200);
+    return { cgstAmount: halfTax, sgstAmount: halfTax, igstAmount: 0 };
+  }
+
+  // Place of supply differs from the supplier's state only when both are known
+  static isInterState(
+    supplierStateCode?: string | null,
+    placeOfSupply?: string | null
+  ): boolean {
+    return Boolean(
+      supplierStateCode && placeOfSupply && supplierStateCode !== placeOfSupply
+    );
+  }
+
+  // Amount the customer owes for an entry: taxable value plus GST
+  static getInvoiceTotal(entry: {
+    totalAmount: any;
+    cgstAmount?: any;
+    sgstAmount?: any;
+    igstAmount?: any;
+  }): number {
+    return this.round(
+      Number(entry.totalAmount) +
+        Number(entry.cgstAmount || 0) +
+        Number(entry.sgstAmount || 0) +
+        Number(entry.igstAmount || 0)
+    );
+  }
+
+  // Money is kept to the paisa
+  static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
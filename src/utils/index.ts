@@ -1,6 +1,12 @@
+export * from "./csv";
 export * from "./database";
 export * from "./dateFilters";
+export * from "./fieldVisibility";
+export * from "./gst";
 export * from "./logger";
+export * from "./permissions";
 export * from "./response";
+export * from "./tenantContext";
 export * from "./timezoneAwareDateFilter";
+export * from "./unitConversion";
 export * from "./validation";
@@ -0,0 +1,154 @@
+import { UserRole } from "@prisma/client";
+import { AuthenticatedRequest } from "../types";
+
+// Every permission a role can hold, with the description shown to owners
+export const PERMISSIONS = {
+  "entries:view": "View truck entries, challans and invoices",
+  "entries:create": "Create and import truck entries",
+  "entries:edit": "Edit, delete and restore own truck entries",
+  "entries:edit-others": "Edit, delete and restore other users' truck entries",
+  "entries:purge": "Permanently remove deleted truck entries",
+  "entries:override-price":
+    "Price truck entries away from the material rate, giving a reason",
+  "rates:manage": "Manage material rates and entry type materials",
+  "financials:view":
+    "See rates, amounts, expenses and revenue on entries, rates and the dashboard",
+  "customers:view": "View customers",
+  "customers:manage": "Create and update customers",
+  "customers:admin": "Delete customers and migrate truck names",
+  "vehicles:view": "View vehicles and trip history",
+  "vehicles:manage": "Register and update vehicles",
+  "vehicles:delete": "Delete vehicles",
+  "payments:view": "View payments and customer ledgers",
+  "payments:manage": "Record and allocate payments",
+  "receivables:view": "View outstanding receivables",
+  "expenses:view": "View expenses",
+  "expenses:manage": "Create, update and delete expenses",
+  "dashboard:view": "View the dashboard",
+  "dashboard:stats": "View organization-wide dashboard statistics",
+  "reports:view": "View reports",
+  "reports:export": "Export and download reports",
+  "reports:tax": "View GST returns",
+  "users:view": "View organization members",
+  "users:manage": "Create, activate, deactivate and unlock users",
+  "roles:manage": "Define custom roles and assign roles to users",
+  "invites:manage": "Create and revoke organization invites",
+  "security:manage": "View the login security log and manage members' sessions",
+  "api-keys:manage": "Create and revoke API keys for integrations",
+  "audit:view":
+    "View the audit log of changes to entries, rates, expenses and users",
+  "organization:manage": "Update organization details",
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+export const BUILT_IN_ROLE_NAMES: Record<UserRole, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  accountant: "Accountant",
+  operator: "Weighbridge operator",
+  user: "User",
+};
+
+// Owners always hold every permission. "user" keeps what regular users could
+// do before roles existed
+export const BUILT_IN_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  owner: ALL_PERMISSIONS,
+  manager: [
+    "entries:view",
+    "entries:create",
+    "entries:edit",
+    "entries:edit-others",
+    "entries:purge",
+    "entries:override-price",
+    "rates:manage",
+    "financials:view",
+    "customers:view",
+    "customers:manage",
+    "customers:admin",
+    "vehicles:view",
+    "vehicles:manage",
+    "vehicles:delete",
+    "payments:view",
+    "payments:manage",
+    "receivables:view",
+    "expenses:view",
+    "expenses:manage",
+    "dashboard:view",
+    "dashboard:stats",
+    "reports:view",
+    "reports:export",
+    "users:view",
+  ],
+  accountant: [
+    "entries:view",
+    "financials:view",
+    "customers:view",
+    "customers:manage",
+    "vehicles:view",
+    "payments:view",
+    "payments:manage",
+    "receivables:view",
+    "expenses:view",
+    "expenses:manage",
+    "dashboard:view",
+    "dashboard:stats",
+    "reports:view",
+    "reports:export",
+    "reports:tax",
+  ],
+  operator: [
+    "entries:view",
+    "entries:create",
+    "entries:edit",
+    "customers:view",
+    "customers:manage",
+    "vehicles:view",
+    "vehicles:manage",
+    "dashboard:view",
+  ],
+  user: [
+    "entries:view",
+    "entries:create",
+    "entries:edit",
+    "financials:view",
+    "customers:view",
+    "customers:manage",
+    "vehicles:view",
+    "vehicles:manage",
+    "payments:view",
+    "expenses:view",
+    "expenses:manage",
+    "dashboard:view",
+    "reports:view",
+    "reports:export",
+  ],
+};
+
+export class PermissionUtil {
+  static isValid(permission: string): permission is Permission {
+    return Object.prototype.hasOwnProperty.call(PERMISSIONS, permission);
+  }
+
+  static forRole(role: UserRole): Permission[] {
+    return BUILT_IN_ROLE_PERMISSIONS[role] || [];
+  }
+
+  // Permissions are resolved by AuthMiddleware.authenticate
+  static has(req: AuthenticatedRequest, permission: Permission): boolean {
+    return (req.permissions || []).includes(permission);
+  }
+
+  // Whether the owner is acting in person. API keys act with their creator's
+  // role, but owner-only actions are never open to them
+  static isOwner(req: AuthenticatedRequest): boolean {
+    return req.user?.role === "owner" && !req.apiKeyId;
+  }
+
+  // Permissions in the list that the holder does not have
+  static missing(held: string[], wanted: string[]): string[] {
+    return wanted.filter((permission) => !held.includes(permission));
+  }
+}
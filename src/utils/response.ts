@@ -58,4 +58,15 @@ export class ResponseUtil {
   static conflict(res: Response, message: string = "Conflict"): Response {
     return this.error(res, message, 409);
   }
+
+  static tooManyRequests(
+    res: Response,
+    message: string = "Too Many Requests",
+    retryAfterSeconds?: number
+  ): Response {
+    if (retryAfterSeconds) {
+      res.setHeader("Retry-After", String(retryAfterSeconds));
+    }
+    return this.error(res, message, 429);
+  }
 }
@@ -0,0 +1,123 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// The user a request acts as, so changes can be attributed to them
+export interface TenantActor {
+  userId?: string;
+  ipAddress?: string;
+}
+
+interface TenantStore extends TenantActor {
+  organizationId?: string;
+}
+
+const storage = new AsyncLocalStorage<TenantStore>();
+
+// Models that belong to a single organization. While a tenant context is
+// active, every query on them is limited to the context's organization
+export const TENANT_SCOPED_MODELS = new Set<string>([
+  "ApiKey",
+  "AuditLog",
+  "Customer",
+  "DocumentSequence",
+  "EntryTypeMaterial",
+  "Invite",
+  "MaterialRate",
+  "MaterialRateOverride",
+  "MaterialRateVersion",
+  "OtherExpense",
+  "PasswordResetCode",
+  "Payment",
+  "ReportExport",
+  "ReportJob",
+  "Role",
+  "ScheduledRateChange",
+  "TruckEntry",
+  "Vehicle",
+]);
+
+const WHERE_OPERATIONS = new Set<string>([
+  "findUnique",
+  "findUniqueOrThrow",
+  "findFirst",
+  "findFirstOrThrow",
+  "findMany",
+  "count",
+  "aggregate",
+  "groupBy",
+  "update",
+  "updateMany",
+  "upsert",
+  "delete",
+  "deleteMany",
+]);
+
+export class TenantContext {
+  // Runs the callback, and everything it awaits, scoped to the organization
+  static run<T>(
+    organizationId: string | undefined,
+    callback: () => T,
+    actor: TenantActor = {}
+  ): T {
+    return storage.run({ ...actor, organizationId }, callback);
+  }
+
+  // For background work that spans organizations, such as job polling
+  static runUnscoped<T>(callback: () => T): T {
+    return storage.exit(callback);
+  }
+
+  static getOrganizationId(): string | undefined {
+    return storage.getStore()?.organizationId;
+  }
+
+  static getActor(): TenantActor {
+    const store = storage.getStore();
+    return { userId: store?.userId, ipAddress: store?.ipAddress };
+  }
+
+  // Adds the organization to the query's filter and rejects writes that
+  // would create records for another organization. Records of other
+  // organizations then look missing, so callers answer 404
+  static scopeQuery(
+    model: string,
+    operation: string,
+    args: any,
+    organizationId: string
+  ): any {
+    if (!TENANT_SCOPED_MODELS.has(model)) {
+      return args;
+    }
+
+    const scoped = { ...args };
+    if (WHERE_OPERATIONS.has(operation)) {
+      scoped.where = { ...scoped.where, organizationId };
+    }
+    if (operation === "create" || operation === "upsert") {
+      TenantContext.assertOwnData(
+        model,
+        operation === "create" ? scoped.data : scoped.create,
+        organizationId
+      );
+    }
+    if (operation === "createMany") {
+      const rows = Array.isArray(scoped.data) ? scoped.data : [scoped.data];
+      rows.forEach((row: any) =>
+        TenantContext.assertOwnData(model, row, organizationId)
+      );
+    }
+
+    return scoped;
+  }
+
+  private static assertOwnData(
+    model: string,
+    data: any,
+    organizationId: string
+  ): void {
+    const target =
+      data?.organizationId ?? data?.organization?.connect?.id ?? undefined;
+    if (target !== undefined && target !== organizationId) {
+      throw new Error(`Cannot create ${model} for another organization`);
+    }
+  }
+}
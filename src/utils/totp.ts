@@ -0,0 +1,113 @@
+import crypto from "crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// RFC 6238 defaults, which every authenticator app supports
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+
+export class TotpUtil {
+  static generateSecret(): string {
+    return TotpUtil.base32Encode(crypto.randomBytes(20));
+  }
+
+  // The otpauth:// URL authenticator apps read from a QR code
+  static buildOtpauthUrl(
+    secret: string,
+    accountName: string,
+    issuer: string
+  ): string {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: "SHA1",
+      digits: String(TOTP_DIGITS),
+      period: String(TOTP_STEP_SECONDS),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  static currentStep(now: number = Date.now()): number {
+    return Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+  }
+
+  static generateCode(secret: string, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto
+      .createHmac("sha1", TotpUtil.base32Decode(secret))
+      .update(counter)
+      .digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+  }
+
+  // Returns the time step the code belongs to, or null when it does not
+  // match. One step either side is accepted to allow for clock drift
+  static verify(
+    secret: string,
+    code: string,
+    window = 1,
+    now: number = Date.now()
+  ): number | null {
+    const normalized = (code || "").replace(/\s/g, "");
+    if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+      return null;
+    }
+
+    const current = TotpUtil.currentStep(now);
+    for (let step = current - window; step <= current + window; step++) {
+      const expected = TotpUtil.generateCode(secret, step);
+      if (
+        crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))
+      ) {
+        return step;
+      }
+    }
+    return null;
+  }
+
+  private static base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = "";
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+  }
+
+  private static base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, "");
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error("Invalid base32 secret");
+      }
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 255);
+        bits -= 8;
+      }
+    }
+    return Buffer.from(bytes);
+  }
+}
@@ -0,0 +1,110 @@
+export type BillingUnit = "Load" | "Ton" | "Kg" | "CUM" | "CFT" | "Brass";
+
+export const BILLING_UNITS: BillingUnit[] = [
+  "Load",
+  "Ton",
+  "Kg",
+  "CUM",
+  "CFT",
+  "Brass",
+];
+
+const CFT_PER_CUM = 35.3147;
+const CFT_PER_BRASS = 100;
+
+const UNIT_ALIASES: Record<string, BillingUnit> = {
+  load: "Load",
+  loads: "Load",
+  ton: "Ton",
+  tons: "Ton",
+  tonne: "Ton",
+  tonnes: "Ton",
+  mt: "Ton",
+  kg: "Kg",
+  kgs: "Kg",
+  cum: "CUM",
+  m3: "CUM",
+  cbm: "CUM",
+  cft: "CFT",
+  "cubic feet": "CFT",
+  brass: "Brass",
+};
+
+export class UnitConversionUtil {
+  /**
+   * Map a free-form unit label (e.g. "tonnes", "m3") to a known billing unit
+   */
+  static normalizeUnit(unitType?: string | null): BillingUnit | null {
+    if (!unitType) {
+      return "Load";
+    }
+    return UNIT_ALIASES[unitType.trim().toLowerCase()] || null;
+  }
+
+  static isVolumeUnit(unit: BillingUnit): boolean {
+    return unit === "CUM" || unit === "CFT" || unit === "Brass";
+  }
+
+  /**
+   * Net weight (in tons) from weighbridge gross and tare readings
+   */
+  static calculateNetWeight(grossWeight: number, tareWeight: number): number {
+    if (isNaN(grossWeight) || isNaN(tareWeight)) {
+      throw new Error("Gross and tare weights must be valid numbers");
+    }
+    if (tareWeight < 0 || grossWeight <= 0) {
+      throw new Error("Weights must be greater than 0");
+    }
+    if (grossWeight <= tareWeight) {
+      throw new Error("Gross weight must be greater than tare weight");
+    }
+    return this.round(grossWeight - tareWeight, 3);
+  }
+
+  /**
+   * Convert a net weight in tons into the unit a material is billed in.
+   * Volume units need the material density in tons per cubic metre.
+   */
+  static convertWeight(
+    netWeight: number,
+    unitType: string,
+    density?: number | null
+  ): number {
+    const unit = this.normalizeUnit(unitType);
+    if (!unit) {
+      throw new Error(`Unsupported unit type: ${unitType}`);
+    }
+
+    switch (unit) {
+      case "Ton":
+        return this.round(netWeight, 2);
+      case "Kg":
+        return this.round(netWeight * 1000, 2);
+      case "Load":
+        throw new Error(
+          "Material is billed per load; weights cannot be converted into loads"
+        );
+    }
+
+    if (!density || density <= 0) {
+      throw new Error(
+        `Material density is required to bill by ${unit}; set it on the material rate`
+      );
+    }
+
+    const cubicMetres = netWeight / density;
+    switch (unit) {
+      case "CUM":
+        return this.round(cubicMetres, 2);
+      case "CFT":
+        return this.round(cubicMetres * CFT_PER_CUM, 2);
+      default:
+        return this.round((cubicMetres * CFT_PER_CUM) / CFT_PER_BRASS, 2);
+    }
+  }
+
+  private static round(value: number, decimals: number): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+  }
+}
@@ -44,6 +44,32 @@ export class ValidationUtil {
     return { isValid: true };
   }
 
+  static validateGstin(gstin: string): {
+    isValid: boolean;
+    message?: string;
+  } {
+    if (
+      !/^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(
+        (gstin || "").toUpperCase()
+      )
+    ) {
+      return {
+        isValid: false,
+        message: "GSTIN must be a valid 15-character GST number",
+      };
+    }
+    return { isValid: true };
+  }
+
+  static validateTruckNumber(truckNumber: string): boolean {
+    return /^[A-Z]{2}[0-9]{2}[A-Z]{1,2}[0-9]{4}$/.test(truckNumber || "");
+  }
+
+  // Registration numbers are stored without spaces or dashes, e.g. "KA01AB1234"
+  static normalizeTruckNumber(truckNumber: string): string {
+    return (truckNumber || "").toUpperCase().replace(/[\s-]/g, "");
+  }
+
   static validatePaginationParams(params: any): PaginationParams {
     const page = Math.max(1, parseInt(params.page) || 1);
     const limit = Math.max(1, Math.min(100, parseInt(params.limit) || 10));
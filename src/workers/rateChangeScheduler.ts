@@ -0,0 +1,88 @@
+import { ScheduledRateChangeService } from "../services/scheduledRateChangeService";
+import { logger } from "../utils/logger";
+import { TenantContext } from "../utils/tenantContext";
+
+// Changes applied per poll; any left over are picked up by the next one
+const BATCH_SIZE = 50;
+
+// Polls the scheduled_rate_changes table and applies rate changes whose
+// effective time has passed, in the order they were due.
+export class RateChangeScheduler {
+  private scheduledRateChangeService: ScheduledRateChangeService;
+  private pollIntervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor() {
+    this.scheduledRateChangeService = new ScheduledRateChangeService();
+    this.pollIntervalMs = this.readPositiveInt(
+      process.env.RATE_SCHEDULER_POLL_INTERVAL_MS,
+      60000
+    );
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    logger.info("Rate change scheduler started", {
+      pollIntervalMs: this.pollIntervalMs,
+    });
+    this.timer = setInterval(() => this.trigger(), this.pollIntervalMs);
+    this.trigger();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info("Rate change scheduler stopped");
+    }
+  }
+
+  trigger(): void {
+    if (!this.timer) {
+      return;
+    }
+    TenantContext.runUnscoped(() =>
+      this.poll().catch((error: any) => {
+        logger.error("Rate change scheduler poll failed", {
+          error: error.message,
+        });
+      })
+    );
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      const changes = await this.scheduledRateChangeService.getDueChanges(
+        BATCH_SIZE
+      );
+      // One at a time, so several changes due for a material land in order.
+      // Each is attributed to the member who scheduled it
+      for (const change of changes) {
+        await TenantContext.run(
+          change.organizationId,
+          () =>
+            this.scheduledRateChangeService.applyScheduledRateChange(change),
+          { userId: change.createdById }
+        );
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private readPositiveInt(value: string | undefined, fallback: number): number {
+    const parsed = parseInt(value || "", 10);
+    return isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+  }
+}
+
+export const rateChangeScheduler = new RateChangeScheduler();
@@ -0,0 +1,122 @@
+import { ReportJobService } from "../services/reportJobService";
+import { logger } from "../utils/logger";
+import { TenantContext } from "../utils/tenantContext";
+
+// Polls the report_jobs table and renders queued reports in the background,
+// running at most `concurrency` jobs at a time in this process.
+export class ReportJobWorker {
+  private reportJobService: ReportJobService;
+  private concurrency: number;
+  private pollIntervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private activeJobs = new Set<string>();
+  private polling = false;
+
+  constructor() {
+    this.reportJobService = new ReportJobService();
+    this.concurrency = this.readPositiveInt(
+      process.env.REPORT_WORKER_CONCURRENCY,
+      2
+    );
+    this.pollIntervalMs = this.readPositiveInt(
+      process.env.REPORT_WORKER_POLL_INTERVAL_MS,
+      5000
+    );
+  }
+
+  async start(): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+
+    try {
+      // Jobs left running by a previous process never finished; queue them again
+      const recovered = await this.reportJobService.recoverInterruptedJobs();
+      logger.info("Report job worker started", {
+        concurrency: this.concurrency,
+        pollIntervalMs: this.pollIntervalMs,
+        recovered,
+      });
+    } catch (error: any) {
+      logger.error("Failed to recover interrupted report jobs", {
+        error: error.message,
+      });
+    }
+
+    this.timer = setInterval(() => this.trigger(), this.pollIntervalMs);
+    this.trigger();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info("Report job worker stopped", {
+        activeJobs: this.activeJobs.size,
+      });
+    }
+  }
+
+  // Checks for queued work immediately instead of waiting for the next poll
+  trigger(): void {
+    if (!this.timer) {
+      return;
+    }
+    // Polling covers every organization, even when a request asks for it
+    TenantContext.runUnscoped(() =>
+      this.poll().catch((error: any) => {
+        logger.error("Report job worker poll failed", { error: error.message });
+      })
+    );
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      const freeSlots = this.concurrency - this.activeJobs.size;
+      if (freeSlots <= 0) {
+        return;
+      }
+
+      const jobs = await this.reportJobService.getQueuedJobs(freeSlots);
+      for (const job of jobs) {
+        if (this.activeJobs.has(job.id)) {
+          continue;
+        }
+
+        const claimed = await this.reportJobService.claimJob(job.id);
+        if (!claimed) {
+          continue;
+        }
+
+        this.activeJobs.add(job.id);
+        TenantContext.run(job.organizationId, () =>
+          this.reportJobService.processJob(job)
+        )
+          .catch((error: any) => {
+            logger.error("Unexpected report job error", {
+              jobId: job.id,
+              error: error.message,
+            });
+          })
+          .finally(() => {
+            this.activeJobs.delete(job.id);
+            this.trigger();
+          });
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private readPositiveInt(value: string | undefined, fallback: number): number {
+    const parsed = parseInt(value || "", 10);
+    return isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+  }
+}
+
+export const reportJobWorker = new ReportJobWorker();